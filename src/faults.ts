@@ -0,0 +1,254 @@
+// Injection of filesystem errors, for testing how things behave when the
+// filesystem is hostile.
+//
+// Each fs method of the wrapped FSOption is replaced with one that checks
+// the path against the list of faults before passing it on.  Every fault
+// that matches counts the call, whether or not it is the one that ends up
+// being applied, so that `after` and `times` can pick out exactly which
+// calls to a given path are affected.
+
+import type { FSOption, FSValue } from './index.js'
+import { fsFromOption } from './index.js'
+import { globSegment } from './pattern.js'
+
+/**
+ * The fs methods that a {@link FSFault} can affect.  Each one covers the
+ * sync, promise, and callback variants of the method.  `'readFile'` also
+ * covers files that are opened to be read a chunk at a time.
+ */
+export type FSFaultMethod =
+  | 'lstat'
+  | 'readdir'
+  | 'readFile'
+  | 'readlink'
+  | 'realpath'
+  | 'stat'
+
+/**
+ * A fault to inject with {@link faultfs}
+ */
+export interface FSFault {
+  /**
+   * The paths that the fault applies to.  A string is a glob pattern,
+   * matched against the full path, using `/` as the separator even on
+   * Windows.  `*`, `?`, `[...]` and `**` are supported.
+   *
+   * Applies to all paths if not set.
+   */
+  path?: string | RegExp
+  /**
+   * The fs methods that the fault applies to.  Applies to all of them if
+   * not set.
+   */
+  method?: FSFaultMethod | FSFaultMethod[]
+  /**
+   * Fail with an error with this code, such as `'EACCES'` or `'EMFILE'`.
+   */
+  code?: string
+  /**
+   * Wait this many milliseconds before calling the underlying method.
+   * Only applies to the async and callback variants.
+   */
+  delay?: number
+  /**
+   * Return only the first `entries` entries from readdir.
+   */
+  entries?: number
+  /**
+   * Skip this many matching calls before the fault starts to apply.
+   *
+   * @default 0
+   */
+  after?: number
+  /**
+   * Apply the fault to this many matching calls, and then stop.  Applies
+   * to all of them if not set.
+   */
+  times?: number
+}
+
+const methods: FSFaultMethod[] = [
+  'lstat',
+  'readdir',
+  'readFile',
+  'readlink',
+  'realpath',
+  'stat',
+]
+
+const syscalls: { [k in FSFaultMethod]: string } = {
+  lstat: 'lstat',
+  readdir: 'scandir',
+  readFile: 'open',
+  readlink: 'readlink',
+  realpath: 'realpath',
+  stat: 'stat',
+}
+
+interface Rule {
+  fault: FSFault
+  methods: FSFaultMethod[]
+  test: (path: string) => boolean
+  calls: number
+}
+
+// a glob pattern matching whole paths, where ** matches any number of
+// path segments, including none.
+const globRegExp = (pattern: string) => {
+  const segs = pattern.split('/')
+  let re = ''
+  for (const [i, seg] of segs.entries()) {
+    const last = i === segs.length - 1
+    if (seg !== '**') {
+      re += globSegment(seg).source + (last ? '' : '/')
+    } else {
+      re += last ? '.*' : '(?:.*/)?'
+    }
+  }
+  return new RegExp(`^${re}$`)
+}
+
+const compileRule = (fault: FSFault): Rule => {
+  const { path, method = methods } = fault
+  const re =
+    path === undefined
+      ? undefined
+      : typeof path === 'string'
+      ? globRegExp(path)
+      : path
+  return {
+    fault,
+    methods: typeof method === 'string' ? [method] : method,
+    test: re ? p => re.test(p.replace(/\\/g, '/')) : () => true,
+    calls: 0,
+  }
+}
+
+const faultError = (code: string, method: FSFaultMethod, path: string) =>
+  Object.assign(
+    new Error(`${code}: injected fault, ${syscalls[method]} '${path}'`),
+    { code, syscall: syscalls[method], path }
+  )
+
+const sleep = (ms: number) => new Promise<void>(res => setTimeout(res, ms))
+
+/**
+ * Wrap an {@link FSOption}, so that the calls matching the provided
+ * faults fail, are delayed, or return partial results, for testing how
+ * code using path-scurry behaves on hostile filesystems.
+ *
+ * When more than one fault applies to a call, the first one in the list
+ * is used.  Methods that are missing from the wrapped FSOption use the
+ * defaults, as they would if it was passed to a PathScurry directly.
+ *
+ * ```ts
+ * const pw = new PathScurry('/', {
+ *   fs: faultfs(memfs({ a: { b: '' } }), [
+ *     // the first readdir of /a fails, later ones work
+ *     { path: '/a', method: 'readdir', code: 'EMFILE', times: 1 },
+ *     // everything is slow
+ *     { delay: 10 },
+ *   ]),
+ * })
+ * ```
+ */
+export const faultfs = (
+  fsOption: FSOption | undefined,
+  faults: FSFault[]
+): FSOption => {
+  const fs = fsFromOption(fsOption)
+  const rules = faults.map(compileRule)
+
+  const find = (method: FSFaultMethod, path: string) => {
+    let found: FSFault | undefined
+    for (const rule of rules) {
+      if (!rule.methods.includes(method) || !rule.test(path)) continue
+      const n = ++rule.calls
+      const { after = 0, times } = rule.fault
+      if (
+        !found &&
+        n > after &&
+        (times === undefined || n <= after + times)
+      ) {
+        found = rule.fault
+      }
+    }
+    return found
+  }
+
+  const sync =
+    <T>(method: FSFaultMethod, fn: (path: string, fault?: FSFault) => T) =>
+    (path: string): T => {
+      const fault = find(method, path)
+      if (fault?.code) throw faultError(fault.code, method, path)
+      return fn(path, fault)
+    }
+
+  const async =
+    <T>(
+      method: FSFaultMethod,
+      fn: (path: string, fault?: FSFault) => Promise<T>
+    ) =>
+    async (path: string): Promise<T> => {
+      const fault = find(method, path)
+      if (fault?.delay) await sleep(fault.delay)
+      if (fault?.code) throw faultError(fault.code, method, path)
+      return fn(path, fault)
+    }
+
+  // readdir results can also be cut short
+  const trim = <T>(entries: T[], fault?: FSFault) =>
+    fault?.entries === undefined
+      ? entries
+      : entries.slice(0, fault.entries)
+
+  return {
+    ...fs,
+    lstatSync: ((path: string, options: { bigint: boolean }) =>
+      sync('lstat', path => fs.lstatSync(path, options))(
+        path
+      )) as FSValue['lstatSync'],
+    readdir: (path, options, cb) => {
+      const fault = find('readdir', path)
+      const go = () => {
+        if (fault?.code) {
+          return cb(faultError(fault.code, 'readdir', path))
+        }
+        fs.readdir(path, options, (er, entries) =>
+          cb(er, entries && trim(entries, fault))
+        )
+      }
+      if (fault?.delay) setTimeout(go, fault.delay)
+      else go()
+    },
+    readdirSync: sync('readdir', (path, fault) =>
+      trim(fs.readdirSync(path, { withFileTypes: true }), fault)
+    ),
+    readFileSync: sync('readFile', path => fs.readFileSync(path, 'utf8')),
+    // opening a file to read it a chunk at a time counts as a readFile
+    openSync: sync('readFile', path => fs.openSync(path, 'r')),
+    readlinkSync: sync('readlink', path => fs.readlinkSync(path)),
+    realpathSync: sync('realpath', path => fs.realpathSync(path)),
+    statSync: sync('stat', path => fs.statSync(path)),
+    promises: {
+      ...fs.promises,
+      lstat: ((path: string, options: { bigint: boolean }) =>
+        async('lstat', path => fs.promises.lstat(path, options))(
+          path
+        )) as FSValue['promises']['lstat'],
+      readdir: async('readdir', async (path, fault) =>
+        trim(
+          await fs.promises.readdir(path, { withFileTypes: true }),
+          fault
+        )
+      ),
+      readFile: async('readFile', path =>
+        fs.promises.readFile(path, 'utf8')
+      ),
+      readlink: async('readlink', path => fs.promises.readlink(path)),
+      realpath: async('realpath', path => fs.promises.realpath(path)),
+      stat: async('stat', path => fs.promises.stat(path)),
+      open: async('readFile', path => fs.promises.open(path, 'r')),
+    },
+  }
+}
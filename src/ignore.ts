@@ -0,0 +1,142 @@
+// Matching of .gitignore-style rules, for the WalkOptions ignoreFiles
+// option.
+//
+// The rules in an ignore file apply to everything beneath the directory
+// that it's found in.  Each rule is compiled to a regular expression, and
+// tested against the path of an entry relative to that directory.  The
+// last rule that matches an entry decides whether it is ignored, where the
+// rules from deeper ignore files come after those from shallower ones.
+
+import type { PathBase } from './index.js'
+import { globSegment, normalize } from './pattern.js'
+
+interface Rule {
+  re: RegExp
+  negate: boolean
+  dirOnly: boolean
+}
+
+// the rules from one ignore file, and the length of the walk path of the
+// dir that it was found in, so that paths can be made relative to it.
+interface Scope {
+  rules: Rule[]
+  base: number
+}
+
+// compile a single line of an ignore file, if it's a rule at all
+const compileRule = (line: string, nocase: boolean): Rule | undefined => {
+  // trailing spaces don't count, unless they're escaped
+  let end = line.length
+  while (line.charAt(end - 1) === ' ' && line.charAt(end - 2) !== '\\') {
+    end--
+  }
+  line = line.substring(0, end)
+  if (!line || line.startsWith('#')) return undefined
+  const negate = line.startsWith('!')
+  if (negate) line = line.substring(1)
+  const dirOnly = line.endsWith('/')
+  // a / anywhere but at the end anchors the rule to the ignore file's dir,
+  // otherwise it can match at any depth.
+  const anchored = line.replace(/\/+$/, '').includes('/')
+  const segs = line.split('/').filter(s => s)
+  if (!segs.length) return undefined
+  let re = anchored ? '' : '(?:.*/)?'
+  for (const [i, seg] of segs.entries()) {
+    const last = i === segs.length - 1
+    if (seg !== '**') {
+      re += globSegment(seg).source + (last ? '' : '/')
+    } else {
+      re += last ? '.*' : '(?:.*/)?'
+    }
+  }
+  return {
+    re: new RegExp(`^${normalize(re, nocase)}$`, 'u'),
+    negate,
+    dirOnly,
+  }
+}
+
+/**
+ * The state of an entry in a walk that uses ignore files.
+ */
+export interface IgnoreState {
+  /**
+   * True if the entry is ignored by the rules in the ignore files found
+   * in the dirs above it.
+   */
+  ignored: boolean
+  /** @internal */
+  path: string
+  /** @internal */
+  scopes: Scope[]
+}
+
+/**
+ * Rules from `.gitignore`-style files, as read by walks using the
+ * `ignoreFiles` option.
+ *
+ * Blank lines and `#` comments are skipped, and a leading `!` negates a
+ * rule, re-including anything that an earlier rule ignored.  A rule ending
+ * in `/` only matches directories.  A rule containing any other `/` is
+ * relative to the directory of the ignore file, otherwise it matches
+ * names at any depth beneath it.  `*`, `?`, `[...]` and `**` work as they
+ * do in git.
+ *
+ * As in git, nothing within an ignored directory can be re-included,
+ * because the directory is never read.
+ */
+export class Ignores {
+  #nocase: boolean
+
+  constructor(nocase: boolean) {
+    this.#nocase = nocase
+  }
+
+  /**
+   * The state of the starting entry of the walk, which is never ignored.
+   */
+  start(): IgnoreState {
+    return { ignored: false, path: '', scopes: [] }
+  }
+
+  /**
+   * Add the rules from the contents of an ignore file found in the dir
+   * with the given state, returning the new state of the dir.
+   */
+  add(state: IgnoreState, content: string): IgnoreState {
+    const rules: Rule[] = []
+    for (const line of content.split(/\r?\n/)) {
+      const rule = compileRule(line, this.#nocase)
+      if (rule) rules.push(rule)
+    }
+    if (!rules.length) return state
+    return {
+      ...state,
+      scopes: [...state.scopes, { rules, base: state.path.length }],
+    }
+  }
+
+  #ignored(scopes: Scope[], path: string, isDir: boolean) {
+    for (let s = scopes.length - 1; s >= 0; s--) {
+      const { rules, base } = scopes[s]
+      const rel = path.substring(base)
+      for (let r = rules.length - 1; r >= 0; r--) {
+        const { re, negate, dirOnly } = rules[r]
+        if ((!dirOnly || isDir) && re.test(rel)) return !negate
+      }
+    }
+    return false
+  }
+
+  /**
+   * The state of an entry found in a directory with the given state.
+   */
+  step(state: IgnoreState, entry: PathBase): IgnoreState {
+    const path = state.path + normalize(entry.name, this.#nocase)
+    return {
+      ignored: this.#ignored(state.scopes, path, entry.isDirectory()),
+      path: path + '/',
+      scopes: state.scopes,
+    }
+  }
+}
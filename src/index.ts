@@ -1,3 +1,4 @@
+import { createHash } from 'crypto'
 import { LRUCache } from 'lru-cache'
 import { posix, win32 } from 'path'
 
@@ -5,19 +6,73 @@ import { fileURLToPath } from 'url'
 
 import * as actualFS from 'fs'
 import {
+  chmodSync,
+  copyFileSync,
   lstatSync,
+  mkdirSync,
   readdir as readdirCB,
   readdirSync,
+  closeSync,
+  openSync,
+  readFileSync,
   readlinkSync,
+  readSync,
   realpathSync as rps,
+  renameSync,
+  rmdirSync,
+  statSync,
+  symlinkSync,
+  unlinkSync,
+  utimesSync,
+  watch,
+  writeFileSync,
 } from 'fs'
 const realpathSync = rps.native
 // TODO: test perf of fs/promises realpath vs realpathCB,
 // since the promises one uses realpath.native
-import { lstat, readdir, readlink, realpath } from 'fs/promises'
-
-import type { Dirent, Stats } from 'fs'
+import {
+  chmod,
+  copyFile,
+  lstat,
+  mkdir,
+  open,
+  readdir,
+  readFile,
+  readlink,
+  realpath,
+  rename,
+  rmdir,
+  stat,
+  symlink,
+  unlink,
+  utimes,
+  writeFile,
+} from 'fs/promises'
+
+import type { BigIntStats, Dirent, FSWatcher, Stats } from 'fs'
 import { Minipass } from 'minipass'
+import { IgnoreState, Ignores } from './ignore.js'
+import { MatchState, Pattern } from './pattern.js'
+import { PathWatcher, PathWatcherOptions } from './watch.js'
+export { PathWatcher } from './watch.js'
+export type { PathWatcherOptions } from './watch.js'
+export { faultfs } from './faults.js'
+export type { FSFault, FSFaultMethod } from './faults.js'
+export { memfs } from './memfs.js'
+export type {
+  MemFSDir,
+  MemFSEntry,
+  MemFSError,
+  MemFSSymlink,
+} from './memfs.js'
+export { recordfs, replayfs } from './trace.js'
+export type {
+  FSTrace,
+  FSTraceCall,
+  FSTraceMethod,
+  FSTraceStats,
+  FSTraceType,
+} from './trace.js'
 
 /**
  * An object that will be used to override the default `fs`
@@ -28,16 +83,33 @@ import { Minipass } from 'minipass'
  * - readdir (callback `withFileTypes` Dirent variant, used for
  *   readdirCB and most walks)
  * - readdirSync
+ * - readFileSync (utf8 string variant, used for walk ignoreFiles)
  * - readlinkSync
  * - realpathSync
+ * - statSync
+ * - mkdirSync, writeFileSync, unlinkSync, rmdirSync, renameSync,
+ *   symlinkSync, copyFileSync, chmodSync, and utimesSync (used by the
+ *   methods that change the filesystem, such as
+ *   {@link PathBase.mkdirSync})
+ * - openSync, readSync, and closeSync (used to read files a chunk at a
+ *   time, for the `hash` option to {@link PathScurryBase.diff})
  * - promises: Object containing the following async methods:
  *   - lstat
  *   - readdir (Dirent variant only)
+ *   - readFile (utf8 string variant only)
  *   - readlink
  *   - realpath
+ *   - stat
+ *   - mkdir, writeFile, unlink, rmdir, rename, symlink, copyFile, chmod,
+ *     and utimes
+ *   - open (resolving to a {@link FSFileHandle})
+ * - watch (used by {@link PathScurryBase.watch})
  */
 export interface FSOption {
-  lstatSync?: (path: string) => Stats
+  lstatSync?: {
+    (path: string): Stats
+    (path: string, options: { bigint: boolean }): Stats | BigIntStats
+  }
   readdir?: (
     path: string,
     options: { withFileTypes: true },
@@ -47,41 +119,163 @@ export interface FSOption {
     path: string,
     options: { withFileTypes: true }
   ) => Dirent[]
+  readFileSync?: (path: string, encoding: 'utf8') => string
   readlinkSync?: (path: string) => string
   realpathSync?: (path: string) => string
+  statSync?: (path: string) => Stats
+  mkdirSync?: (path: string) => void
+  writeFileSync?: (path: string, data: string | Uint8Array) => void
+  unlinkSync?: (path: string) => void
+  rmdirSync?: (path: string) => void
+  renameSync?: (oldPath: string, newPath: string) => void
+  symlinkSync?: (target: string, path: string) => void
+  copyFileSync?: (src: string, dest: string) => void
+  chmodSync?: (path: string, mode: number) => void
+  utimesSync?: (
+    path: string,
+    atime: number | Date,
+    mtime: number | Date
+  ) => void
+  openSync?: (path: string, flags: 'r') => number
+  readSync?: (
+    fd: number,
+    buffer: Buffer,
+    offset: number,
+    length: number,
+    position: number
+  ) => number
+  closeSync?: (fd: number) => void
   promises?: {
-    lstat?: (path: string) => Promise<Stats>
+    lstat?: {
+      (path: string): Promise<Stats>
+      (path: string, options: { bigint: boolean }): Promise<
+        Stats | BigIntStats
+      >
+    }
     readdir?: (
       path: string,
       options: { withFileTypes: true }
     ) => Promise<Dirent[]>
+    readFile?: (path: string, encoding: 'utf8') => Promise<string>
     readlink?: (path: string) => Promise<string>
     realpath?: (path: string) => Promise<string>
+    stat?: (path: string) => Promise<Stats>
+    mkdir?: (path: string) => Promise<unknown>
+    writeFile?: (path: string, data: string | Uint8Array) => Promise<void>
+    unlink?: (path: string) => Promise<void>
+    rmdir?: (path: string) => Promise<void>
+    rename?: (oldPath: string, newPath: string) => Promise<void>
+    symlink?: (target: string, path: string) => Promise<void>
+    copyFile?: (src: string, dest: string) => Promise<void>
+    chmod?: (path: string, mode: number) => Promise<void>
+    utimes?: (
+      path: string,
+      atime: number | Date,
+      mtime: number | Date
+    ) => Promise<void>
+    open?: (path: string, flags: 'r') => Promise<FSFileHandle>
     [k: string]: any
   }
+  watch?: (
+    path: string,
+    options: { persistent: boolean },
+    listener: (eventType: string, filename: string | null) => void
+  ) => FSWatcher
   [k: string]: any
 }
 
-interface FSValue {
-  lstatSync: (path: string) => Stats
+/**
+ * The parts of a `fs.promises.FileHandle` that are used, as returned by
+ * the `promises.open` method of an {@link FSOption}
+ */
+export interface FSFileHandle {
+  read: (
+    buffer: Buffer,
+    offset: number,
+    length: number,
+    position: number
+  ) => Promise<{ bytesRead: number }>
+  close: () => Promise<void>
+}
+
+/**
+ * An {@link FSOption} with all of the methods filled in
+ *
+ * @internal
+ */
+export interface FSValue {
+  lstatSync: {
+    (path: string): Stats
+    (path: string, options: { bigint: boolean }): Stats | BigIntStats
+  }
   readdir: (
     path: string,
     options: { withFileTypes: true },
     cb: (er: NodeJS.ErrnoException | null, entries?: Dirent[]) => any
   ) => void
   readdirSync: (path: string, options: { withFileTypes: true }) => Dirent[]
+  readFileSync: (path: string, encoding: 'utf8') => string
   readlinkSync: (path: string) => string
   realpathSync: (path: string) => string
+  statSync: (path: string) => Stats
+  mkdirSync: (path: string) => void
+  writeFileSync: (path: string, data: string | Uint8Array) => void
+  unlinkSync: (path: string) => void
+  rmdirSync: (path: string) => void
+  renameSync: (oldPath: string, newPath: string) => void
+  symlinkSync: (target: string, path: string) => void
+  copyFileSync: (src: string, dest: string) => void
+  chmodSync: (path: string, mode: number) => void
+  utimesSync: (
+    path: string,
+    atime: number | Date,
+    mtime: number | Date
+  ) => void
+  openSync: (path: string, flags: 'r') => number
+  readSync: (
+    fd: number,
+    buffer: Buffer,
+    offset: number,
+    length: number,
+    position: number
+  ) => number
+  closeSync: (fd: number) => void
   promises: {
-    lstat: (path: string) => Promise<Stats>
+    lstat: {
+      (path: string): Promise<Stats>
+      (path: string, options: { bigint: boolean }): Promise<
+        Stats | BigIntStats
+      >
+    }
     readdir: (
       path: string,
       options: { withFileTypes: true }
     ) => Promise<Dirent[]>
+    readFile: (path: string, encoding: 'utf8') => Promise<string>
     readlink: (path: string) => Promise<string>
     realpath: (path: string) => Promise<string>
+    stat: (path: string) => Promise<Stats>
+    mkdir: (path: string) => Promise<unknown>
+    writeFile: (path: string, data: string | Uint8Array) => Promise<void>
+    unlink: (path: string) => Promise<void>
+    rmdir: (path: string) => Promise<void>
+    rename: (oldPath: string, newPath: string) => Promise<void>
+    symlink: (target: string, path: string) => Promise<void>
+    copyFile: (src: string, dest: string) => Promise<void>
+    chmod: (path: string, mode: number) => Promise<void>
+    utimes: (
+      path: string,
+      atime: number | Date,
+      mtime: number | Date
+    ) => Promise<void>
+    open: (path: string, flags: 'r') => Promise<FSFileHandle>
     [k: string]: any
   }
+  watch: (
+    path: string,
+    options: { persistent: boolean },
+    listener: (eventType: string, filename: string | null) => void
+  ) => FSWatcher
   [k: string]: any
 }
 
@@ -89,18 +283,50 @@ const defaultFS: FSValue = {
   lstatSync,
   readdir: readdirCB,
   readdirSync,
+  readFileSync,
   readlinkSync,
   realpathSync,
+  statSync,
+  mkdirSync,
+  writeFileSync,
+  unlinkSync,
+  rmdirSync,
+  renameSync,
+  symlinkSync,
+  copyFileSync,
+  chmodSync,
+  utimesSync,
+  openSync,
+  readSync,
+  closeSync,
   promises: {
     lstat,
     readdir,
+    readFile,
     readlink,
     realpath,
+    stat,
+    mkdir,
+    writeFile,
+    unlink,
+    rmdir,
+    rename,
+    symlink,
+    copyFile,
+    chmod,
+    utimes,
+    open,
   },
+  watch,
 }
 
-// if they just gave us require('fs') then use our default
-const fsFromOption = (fsOption?: FSOption): FSValue =>
+/**
+ * Fill in any methods missing from an {@link FSOption} with the defaults.
+ * If they just gave us require('fs') then use our default.
+ *
+ * @internal
+ */
+export const fsFromOption = (fsOption?: FSOption): FSValue =>
   !fsOption || fsOption === defaultFS || fsOption === actualFS
     ? defaultFS
     : {
@@ -150,8 +376,11 @@ const ENOREALPATH = 0b0010_0000_0000
 
 const ENOCHILD = ENOTDIR | ENOENT | ENOREALPATH
 const TYPEMASK = 0b0011_1111_1111
+// only used in snapshots, set on entries that were in their parent's
+// listing when the snapshot was taken.
+const LISTED = 0b0100_0000_0000
 
-const entToType = (s: Dirent | Stats) =>
+const entToType = (s: Dirent | Stats | BigIntStats) =>
   s.isFile()
     ? IFREG
     : s.isDirectory()
@@ -168,6 +397,9 @@ const entToType = (s: Dirent | Stats) =>
     ? IFIFO
     : UNKNOWN
 
+// for bigint stats from an fs option that only has millisecond times
+const msToNs = (ms: number) => BigInt(Math.round(ms * 1e6))
+
 // normalize unicode path names
 const normalizeCache = new Map<string, string>()
 const normalize = (s: string) => {
@@ -187,6 +419,500 @@ const normalizeNocase = (s: string) => {
   return n
 }
 
+const compareStrings = (a: string, b: string) =>
+  a < b ? -1 : a > b ? 1 : 0
+
+// get the comparison function for a WalkOptions.sort setting
+const getComparator = (
+  sort: WalkSort
+): ((a: PathBase, b: PathBase) => number) =>
+  sort === 'name'
+    ? (a, b) => compareStrings(a.name, b.name)
+    : sort === 'name-nocase'
+    ? (a, b) =>
+        compareStrings(normalizeNocase(a.name), normalizeNocase(b.name)) ||
+        compareStrings(a.name, b.name)
+    : sort
+
+// Run at most `max` operations at a time, queueing the rest until a slot
+// frees up.  Each function is called with a `done` callback, which it must
+// call exactly once when its operation is complete.
+const limiter = (max: number) => {
+  let active = 0
+  const queue: ((done: () => void) => void)[] = []
+  const done = () => {
+    const fn = queue.shift()
+    if (fn) fn(done)
+    else active--
+  }
+  return (fn: (done: () => void) => void) => {
+    if (active < max) {
+      active++
+      fn(done)
+    } else {
+      queue.push(fn)
+    }
+  }
+}
+
+// The same, for functions that return a promise, which are not called
+// until there is a slot for them.
+const promiseLimiter = (max: number) => {
+  const limit = limiter(max)
+  return <T>(fn: () => Promise<T>) =>
+    new Promise<T>((res, rej) =>
+      limit(done =>
+        fn().then(
+          v => {
+            done()
+            res(v)
+          },
+          er => {
+            done()
+            rej(er)
+          }
+        )
+      )
+    )
+}
+
+// A failed readdir is cached on the Path as an empty listing, so check
+// whether that's what happened after reading a dir in a walk.  Reports
+// the error to the onError handler, and returns it if the walk should
+// stop because of it.
+const readdirFailure =
+  ({ errors = 'ignore', onError }: WalkOptions) =>
+  (dir: PathBase) => {
+    const er = dir.calledReaddir() ? undefined : dir.lastError()
+    if (!er) return undefined
+    onError?.(er, dir)
+    return errors === 'throw' ? er : undefined
+  }
+
+// Reports an entry that a walk had to lstat or resolve, where that came
+// back empty.  A missing entry or link target is just skipped, but other
+// errors, like ELOOP or EACCES, go to the onError handler like a failed
+// readdir, and are thrown if the walk should stop because of them.  An
+// entry may be lstat'ed for more than one option, but is only reported
+// once per walk.
+type EntryFailure = (e: PathBase) => undefined
+const entryFailure = ({
+  errors = 'ignore',
+  onError,
+}: WalkOptions): EntryFailure => {
+  const reported = new WeakSet<PathBase>()
+  return e => {
+    const er = e.lastError()
+    if (
+      !er ||
+      er.code === 'ENOENT' ||
+      er.code === 'ENOTDIR' ||
+      reported.has(e)
+    ) {
+      return undefined
+    }
+    reported.add(e)
+    onError?.(er, e)
+    if (errors === 'throw') throw er
+    return undefined
+  }
+}
+
+// For the follow option, the realpath of a symlink, lstat'ed if its type
+// isn't known yet, so that it can be walked if it's a dir.
+const followLink = async (
+  e: PathBase,
+  failed: EntryFailure
+): Promise<PathBase | undefined> => {
+  const r = await e.realpath()
+  if (!r) return failed(e)
+  return r.isUnknown() && !(await r.lstat()) ? failed(r) : r
+}
+
+const followLinkSync = (
+  e: PathBase,
+  failed: EntryFailure
+): PathBase | undefined => {
+  const r = e.realpathSync()
+  if (!r) return failed(e)
+  return r.isUnknown() && !r.lstatSync() ? failed(r) : r
+}
+
+// the match state of everything, when there are no include or exclude
+// patterns to match against.
+const MATCH_ALL: MatchState = {
+  included: true,
+  walkable: true,
+  exclude: [],
+}
+
+// the state of an entry in a walk, as far as the include, exclude, and
+// ignoreFiles options are concerned.
+interface WalkState {
+  included: boolean
+  walkable: boolean
+  match: MatchState
+  ignore?: IgnoreState
+}
+
+const WALK_ALL: WalkState = {
+  included: true,
+  walkable: true,
+  match: MATCH_ALL,
+}
+
+// Keep track of the include/exclude match state of each directory that a
+// walk goes into, so that the entries found in it can be matched one path
+// segment at a time.  `child()` gets the state of an entry found in a dir,
+// and `enter()` records the state of a dir that's about to be walked.
+// `load()` and `loadSync()` read the ignore files found in a dir, which
+// must be done before any of its entries' states are gotten.
+const walkMatcher = (
+  { include, exclude, ignoreFiles }: WalkOptions,
+  nocase: boolean,
+  start: PathBase,
+  fs: FSValue
+) => {
+  const names =
+    ignoreFiles === true ? ['.gitignore', '.ignore'] : ignoreFiles || []
+  if (include === undefined && exclude === undefined && !names.length) {
+    return {
+      start: WALK_ALL,
+      child: (_: PathBase, __: PathBase) => WALK_ALL,
+      enter: (_: PathBase, __: WalkState) => {},
+      load: (_: PathBase, __: PathBase[], cb: () => void) => cb(),
+      loadSync: (_: PathBase, __: PathBase[]) => {},
+    }
+  }
+  const pattern =
+    include === undefined && exclude === undefined
+      ? undefined
+      : new Pattern(include, exclude, nocase)
+  const ignores = names.length ? new Ignores(nocase) : undefined
+  const state = (match: MatchState, ignore?: IgnoreState): WalkState => ({
+    included: match.included && !ignore?.ignored,
+    walkable: match.walkable && !ignore?.ignored,
+    match,
+    ignore,
+  })
+  const states = new Map<PathBase, WalkState>([
+    [start, state(pattern?.start() || MATCH_ALL, ignores?.start())],
+  ])
+  // the ignore files in a dir, in the order that their rules apply
+  const files = (entries: PathBase[]) => {
+    const found: PathBase[] = []
+    for (const n of names) {
+      const f = entries.find(e => e.isNamed(n))
+      if (f) found.push(f)
+    }
+    return found
+  }
+  const add = (dir: PathBase, contents: string[]) => {
+    const s = states.get(dir) as WalkState
+    let ignore = s.ignore as IgnoreState
+    for (const c of contents) {
+      ignore = (ignores as Ignores).add(ignore, c)
+    }
+    states.set(dir, { ...s, ignore })
+  }
+  return {
+    start: states.get(start) as WalkState,
+    child: (dir: PathBase, e: PathBase) => {
+      const s = states.get(dir) as WalkState
+      return state(
+        pattern ? pattern.step(s.match, e) : MATCH_ALL,
+        s.ignore && (ignores as Ignores).step(s.ignore, e)
+      )
+    },
+    enter: (dir: PathBase, state: WalkState) => {
+      states.set(dir, state)
+    },
+    // an ignore file that can't be read is treated as if it were empty
+    load: (dir: PathBase, entries: PathBase[], cb: () => void) => {
+      const found = files(entries)
+      if (!found.length) return cb()
+      Promise.all(
+        found.map(f =>
+          fs.promises.readFile(f.fullpath(), 'utf8').catch(() => '')
+        )
+      ).then(contents => {
+        add(dir, contents)
+        cb()
+      })
+    },
+    loadSync: (dir: PathBase, entries: PathBase[]) => {
+      const found = files(entries)
+      if (!found.length) return
+      add(
+        dir,
+        found.map(f => {
+          try {
+            return fs.readFileSync(f.fullpath(), 'utf8')
+          } catch {
+            return ''
+          }
+        })
+      )
+    },
+  }
+}
+
+const isPromise = (v: any): v is Promise<any> =>
+  !!v && typeof v.then === 'function'
+
+// Call cb with the values once they have all resolved, or onError if any
+// of them reject.  If none of them are promises, cb is called right away.
+const settle = <T>(
+  values: (T | Promise<T>)[],
+  cb: (values: T[]) => void,
+  onError: (er: unknown) => void
+) => {
+  if (!values.some(isPromise)) return cb(values as T[])
+  Promise.all(values).then(cb, onError)
+}
+
+// synchronous walks can't wait for a filter to resolve
+const syncPredicate = (fn?: WalkPredicate) =>
+  fn &&
+  ((e: PathBase) => {
+    const ok = fn(e)
+    if (isPromise(ok)) {
+      throw new TypeError(
+        'asynchronous filter and walkFilter functions are not ' +
+          'supported in synchronous walks'
+      )
+    }
+    return ok
+  })
+
+// For the stat option, lstat an entry that's about to be emitted from a
+// walk (unless it already has been), and only emit it if it still exists.
+// The async form runs within the walk's limit on in-flight operations.
+const statEntry =
+  (
+    limit: (fn: (done: () => void) => void) => void,
+    failed: EntryFailure
+  ) =>
+  (e: PathBase): boolean | Promise<boolean> =>
+    !!e.lstatCached() ||
+    new Promise<boolean>((res, rej) =>
+      limit(done =>
+        e
+          .lstat()
+          .then(s => {
+            done()
+            return !!(s || failed(e))
+          })
+          .then(res, rej)
+      )
+    )
+
+const statEntrySync = (failed: EntryFailure) => (e: PathBase) =>
+  !!(e.lstatCached() || e.lstatSync() || failed(e))
+
+// For the oneFileSystem option, wrap the walkFilter so that dirs on a
+// different device than the walk start are not walked, using cached lstat
+// results where there are any.  The dev of each dir is only checked once
+// it's about to be walked, so entries that aren't dirs are never lstat'ed
+// just for this.
+const oneFileSystem = (
+  start: PathBase,
+  opts: WalkOptions,
+  sync: boolean,
+  failed: EntryFailure
+): WalkOptions => {
+  const walkFilter = sync
+    ? syncPredicate(opts.walkFilter)
+    : opts.walkFilter
+  // a failed lstat of the start is left to the readdir of it to report
+  const devOf = (
+    e: PathBase,
+    failed: EntryFailure = () => undefined
+  ): PathBase['dev'] | Promise<PathBase['dev']> =>
+    e.lstatCached()
+      ? e.dev
+      : sync
+      ? (e.lstatSync() || failed(e))?.dev
+      : e.lstat().then(s => (s || failed(e))?.dev)
+  const startDev = devOf(start)
+  return {
+    ...opts,
+    oneFileSystem: false,
+    walkFilter: (e: PathBase) => {
+      const dev = devOf(e, failed)
+      const same = ([dev, startDev]: PathBase['dev'][]) =>
+        dev !== undefined &&
+        dev === startDev &&
+        (!walkFilter || walkFilter(e))
+      return isPromise(dev) || isPromise(startDev)
+        ? Promise.all([dev, startDev]).then(same)
+        : same([dev, startDev])
+    },
+  }
+}
+
+const sleep = (ms: number) => new Promise<void>(res => setTimeout(res, ms))
+
+// errors that don't come from the fs, such as for an entry that is
+// already known not to exist, so nothing was tried that could fail.
+const cacheError = (
+  e: PathBase,
+  syscall: string,
+  code: string,
+  message: string
+) =>
+  Object.assign(
+    new Error(`${code}: ${message}, ${syscall} '${e.fullpath()}'`),
+    { code, syscall, path: e.fullpath() }
+  )
+
+// for rm(), whether an entry that failed to be removed can be tried again
+const rmRetry = (e: PathBase, dir: boolean) => {
+  const code = e.lastErrorCode()
+  return code === 'EBUSY' || (dir && code === 'ENOTEMPTY')
+}
+
+// the relative path from one entry to another, which must have a common
+// ancestor, joined with / so that it can be resolved on any platform.
+const pathBetween = (from: PathBase, to: PathBase): string => {
+  const ups = new Map<PathBase, number>()
+  let n = 0
+  for (let p: PathBase | undefined = from; p; p = p.parent) ups.set(p, n++)
+  const names: string[] = []
+  let p = to
+  while (!ups.has(p)) {
+    names.unshift(p.name)
+    p = p.parent as PathBase
+  }
+  return [...new Array(ups.get(p)).fill('..'), ...names].join('/')
+}
+
+const isWithin = (e: PathBase, dir: PathBase) => {
+  for (let p: PathBase | undefined = e; p; p = p.parent) {
+    if (p === dir) return true
+  }
+  return false
+}
+
+// the stats that copy() compares and preserves, from either a Path that
+// has been lstat'ed or the fs.Stats of what a link points to.
+interface CopyStats {
+  mode?: number
+  size?: number
+  atimeMs?: number
+  mtimeMs?: number
+}
+
+// mtimes are only compared to the ms, since that's all that utimes can
+// be trusted to set on every platform.
+const sameFile = (a: CopyStats, b: CopyStats) =>
+  a.size === b.size &&
+  Math.floor(Number(a.mtimeMs)) === Math.floor(Number(b.mtimeMs))
+
+// the entry type checks that must all agree for diff() to consider two
+// entries to be the same kind of thing.
+const kindChecks = [
+  'isFile',
+  'isDirectory',
+  'isSymbolicLink',
+  'isBlockDevice',
+  'isCharacterDevice',
+  'isFIFO',
+  'isSocket',
+] as const
+
+const sameKind = (a: PathBase, b: PathBase) =>
+  kindChecks.every(k => a[k]() === b[k]())
+
+// the target of a link, relative to the root being compared if it is
+// within it, so that links to the same place in each tree are the same.
+const diffLinkTarget = (t: PathBase | undefined, root: PathBase) =>
+  t && (isWithin(t, root) ? pathBetween(root, t) : t.fullpath())
+
+// files are hashed a chunk at a time, so that no more than this much of
+// each one is ever in memory, however big it is.
+const HASH_CHUNK = 64 * 1024
+
+const hashFile = async (fs: FSValue, path: string) => {
+  const hash = createHash('sha1')
+  const buf = Buffer.allocUnsafe(HASH_CHUNK)
+  const fh = await fs.promises.open(path, 'r')
+  try {
+    for (let pos = 0; ; ) {
+      const { bytesRead } = await fh.read(buf, 0, buf.length, pos)
+      if (!bytesRead) break
+      hash.update(buf.subarray(0, bytesRead))
+      pos += bytesRead
+    }
+  } finally {
+    await fh.close()
+  }
+  return hash.digest('hex')
+}
+
+const hashFileSync = (fs: FSValue, path: string) => {
+  const hash = createHash('sha1')
+  const buf = Buffer.allocUnsafe(HASH_CHUNK)
+  const fd = fs.openSync(path, 'r')
+  try {
+    for (let pos = 0; ; ) {
+      const bytesRead = fs.readSync(fd, buf, 0, buf.length, pos)
+      if (!bytesRead) break
+      hash.update(buf.subarray(0, bytesRead))
+      pos += bytesRead
+    }
+  } finally {
+    fs.closeSync(fd)
+  }
+  return hash.digest('hex')
+}
+
+// For the dedupeHardLinks option, wrap the filter so that only one entry
+// for each dev and ino is let through: the first one whose lstat is done,
+// which in async walks isn't always the first one emitted.  Entries are
+// lstat'ed (unless they already have been) once they've passed the other
+// filters.  Only entries with more than one link have to be remembered,
+// and entries that can't be lstat'ed are let through, since there's no
+// way to tell.
+const dedupeHardLinks = (
+  opts: WalkOptions,
+  sync: boolean,
+  failed: EntryFailure
+): WalkOptions => {
+  const filter = sync ? syncPredicate(opts.filter) : opts.filter
+  const seen = new Set<string>()
+  const first = (e: PathBase | undefined) => {
+    if (!e || (e.nlink as number) < 2) return true
+    const key = `${e.dev}:${e.ino}`
+    if (seen.has(key)) return false
+    seen.add(key)
+    return true
+  }
+  const check = (e: PathBase) =>
+    e.lstatCached()
+      ? first(e)
+      : sync
+      ? first(e.lstatSync() || failed(e))
+      : e.lstat().then(s => first(s || failed(e)))
+  return {
+    ...opts,
+    dedupeHardLinks: false,
+    filter: (e: PathBase) => {
+      const ok = !filter || filter(e)
+      return isPromise(ok) ? ok.then(ok => ok && check(e)) : ok && check(e)
+    },
+  }
+}
+
+// check the entry with the stat function, if there is one, once it's
+// passed all of the other checks.
+const thenStat = (
+  ok: boolean | Promise<boolean>,
+  e: PathBase,
+  stat?: (e: PathBase) => boolean | Promise<boolean>
+) =>
+  !stat ? ok : isPromise(ok) ? ok.then(ok => ok && stat(e)) : ok && stat(e)
+
 /**
  * Options that may be provided to the Path constructor
  */
@@ -199,6 +925,223 @@ export interface PathOpts {
    * See {@link FSOption}
    */
   fs?: FSOption
+  /**
+   * See {@link PathScurryOpts.bigint}
+   */
+  bigint?: boolean
+  /**
+   * See {@link PathContext}
+   *
+   * @internal
+   */
+  context?: PathContext
+}
+
+/**
+ * The disk usage of an entry and everything beneath it, as returned by
+ * {@link PathBase.du}
+ */
+export interface DiskUsage {
+  /**
+   * The total apparent size, in bytes, as in `du --apparent-size`
+   */
+  size: number
+  /**
+   * The total number of 512-byte blocks allocated
+   */
+  blocks: number
+  /**
+   * The number of entries that are not directories, including symbolic
+   * links, which are not followed.
+   */
+  files: number
+  /**
+   * The number of directories, including the entry itself if it is one
+   */
+  dirs: number
+}
+
+/**
+ * Options that may be provided to {@link PathBase.du}
+ */
+export interface DuOptions {
+  /**
+   * Stop reading directories once the signal is aborted.  The
+   * {@link PathBase.du} promise rejects with the signal's reason, and
+   * {@link PathBase.duSync} throws it.
+   */
+  signal?: AbortSignal
+}
+
+/**
+ * Options that may be provided to {@link PathScurryBase.rm}
+ */
+export interface RmOptions {
+  /**
+   * Remove directories, and everything in them.  Otherwise, removing a
+   * directory fails with an `EISDIR` error.
+   *
+   * @default false
+   */
+  recursive?: boolean
+  /**
+   * Do not fail if the entry does not exist.
+   *
+   * @default false
+   */
+  force?: boolean
+  /**
+   * Only remove the entries for which this function returns true.  The
+   * contents of a directory that is kept are still removed if they pass,
+   * and a directory that still has anything in it is kept as well.
+   *
+   * May return a Promise in {@link PathScurryBase.rm}, but not in
+   * {@link PathScurryBase.rmSync}.
+   */
+  filter?: WalkPredicate
+  /**
+   * Do not remove anything, just return the entries that would have been
+   * removed.
+   *
+   * @default false
+   */
+  dryRun?: boolean
+  /**
+   * The maximum number of fs operations to have in flight at once, in
+   * {@link PathScurryBase.rm}.
+   *
+   * @default 64
+   */
+  concurrency?: number
+  /**
+   * The number of times to try again to remove an entry that fails with
+   * `EBUSY`, or a directory that fails with `ENOTEMPTY` because something
+   * was added to it while it was being emptied.  The directory is read
+   * again before each retry.
+   *
+   * @default 10
+   */
+  maxRetries?: number
+  /**
+   * Milliseconds to wait before trying again, multiplied by the number of
+   * tries so far.  {@link PathScurryBase.rmSync} tries again right away.
+   *
+   * @default 100
+   */
+  retryDelay?: number
+}
+
+/**
+ * Options that may be provided to {@link PathScurryBase.copy}.  The
+ * options for walking the source are the same as for
+ * {@link PathScurryBase.walk}, and only the entries that would be returned
+ * from the walk are copied, along with the directories that they are in.
+ */
+export interface CopyOptions
+  extends Omit<WalkOptions, 'withFileTypes' | 'follow' | 'stat'> {
+  /**
+   * Copy the files and directories that symbolic links point to, rather
+   * than the links themselves.  Links that would lead into a loop are
+   * copied as links.
+   *
+   * A link to a directory is only followed if the link itself is
+   * returned from the walk, and the walk options are applied to what is
+   * in the directory as if it had been walked through the link.
+   *
+   * @default false
+   */
+  dereference?: boolean
+  /**
+   * Skip files whose size and mtime are the same at the destination, so
+   * that only what has changed is copied again, and links that already
+   * point at the same target.
+   *
+   * @default false
+   */
+  sync?: boolean
+  /**
+   * Give the copied files and directories the same mode, atime, and mtime
+   * as the originals.  The `sync` option depends on this to find files
+   * that have not changed.
+   *
+   * @default true
+   */
+  preserve?: boolean
+}
+
+/**
+ * The ways that an entry can differ between the trees compared by
+ * {@link PathScurryBase.diff}
+ */
+export type DiffType = 'added' | 'removed' | 'modified' | 'type-changed'
+
+/**
+ * A difference found by {@link PathScurryBase.diff}
+ */
+export interface DiffEntry {
+  type: DiffType
+  /**
+   * The path of the entry relative to the roots being compared, joined
+   * with `/`.  The roots themselves have a path of `''`.
+   */
+  path: string
+  /**
+   * The entry in the first tree, unless it was added
+   */
+  a?: PathBase
+  /**
+   * The entry in the second tree, unless it was removed
+   */
+  b?: PathBase
+}
+
+/**
+ * Options that may be provided to {@link PathScurryBase.diff}
+ */
+export interface DiffOptions {
+  /**
+   * Compare files that are the same size by a hash of their contents,
+   * rather than by their mtimes.  Files are read a chunk at a time,
+   * with the `open` methods of the {@link PathScurryOpts.fs} option.
+   *
+   * Entries from a snapshot have no contents to read, so they are
+   * still compared by size and mtime.
+   *
+   * @default false
+   */
+  hash?: boolean
+  /**
+   * The maximum number of fs operations to have in flight at once, in
+   * {@link PathScurryBase.diff}.
+   *
+   * @default 64
+   */
+  concurrency?: number
+}
+
+// The totals for an entry, and the files beneath it that have more than
+// one link, keyed by dev and ino, so that each is only counted once when
+// the totals for a dir are added up.
+interface DuTotals {
+  usage: DiskUsage
+  links: Map<string, DiskUsage>
+}
+
+const addDuTotals = (to: DuTotals, from: DuTotals) => {
+  const u = to.usage
+  u.size += from.usage.size
+  u.blocks += from.usage.blocks
+  u.files += from.usage.files
+  u.dirs += from.usage.dirs
+  for (const [key, l] of from.links) {
+    if (!to.links.has(key)) {
+      to.links.set(key, l)
+      continue
+    }
+    u.size -= l.size
+    u.blocks -= l.blocks
+    u.files -= l.files
+  }
 }
 
 /**
@@ -237,6 +1180,26 @@ export class ChildrenCache extends LRUCache<PathBase, Children> {
   }
 }
 
+/**
+ * The state shared by all of the Path objects of a {@link PathScurryBase},
+ * other than its caches.  It is handed down from each Path to its
+ * children, in the same way as the {@link PathOpts.fs} option.
+ *
+ * @internal
+ */
+export interface PathContext {
+  /**
+   * The directory that symbolic links are confined to, when the
+   * {@link PathScurryOpts.jail} option is set.
+   */
+  jail?: PathBase
+  /**
+   * Called whenever a directory is successfully read, so that a
+   * {@link PathWatcher} can start watching it.
+   */
+  onReaddir?: (dir: PathBase) => void
+}
+
 /**
  * Array of Path objects, plus a marker indicating the first provisional entry
  *
@@ -245,6 +1208,8 @@ export class ChildrenCache extends LRUCache<PathBase, Children> {
 export type Children = PathBase[] & { provisional: number }
 
 const setAsCwd = Symbol('PathScurry setAsCwd')
+const toSnapshotEntry = Symbol('PathScurry toSnapshotEntry')
+const fromSnapshotEntry = Symbol('PathScurry fromSnapshotEntry')
 
 /**
  * Path objects are sort of like a super-powered
@@ -306,9 +1271,11 @@ export abstract class PathBase implements Dirent {
 
   // potential default fs override
   #fs: FSValue
+  #context: PathContext
+  #bigint: boolean
 
   // Stats fields
-  #dev?: number
+  #dev?: number | bigint
   get dev() {
     return this.#dev
   }
@@ -336,7 +1303,7 @@ export abstract class PathBase implements Dirent {
   get blksize() {
     return this.#blksize
   }
-  #ino?: number
+  #ino?: number | bigint
   get ino() {
     return this.#ino
   }
@@ -360,6 +1327,15 @@ export abstract class PathBase implements Dirent {
   get ctimeMs() {
     return this.#ctimeMs
   }
+  // only set with the bigint option
+  #mtimeNs?: bigint
+  get mtimeNs() {
+    return this.#mtimeNs
+  }
+  #ctimeNs?: bigint
+  get ctimeNs() {
+    return this.#ctimeNs
+  }
   #birthtimeMs?: number
   get birthtimeMs() {
     return this.#birthtimeMs
@@ -391,6 +1367,16 @@ export abstract class PathBase implements Dirent {
   #children: ChildrenCache
   #linkTarget?: PathBase
   #realpath?: PathBase
+  // the stats of the entry that a link points to, kept apart from the
+  // entry's own stat fields
+  #stat?: Stats
+  // only set on dirs whose du() totals are known
+  #du?: DuTotals
+  #lastError?: NodeJS.ErrnoException
+  // the mtime of a dir whose listing was restored from a snapshot, until
+  // it has been checked against the filesystem.
+  #snapshotMtimeMs?: number
+  #snapshotCheck?: Promise<void>
 
   /**
    * Do not create new Path objects directly.  They should always be accessed
@@ -420,8 +1406,12 @@ export abstract class PathBase implements Dirent {
     this.parent = opts.parent
     if (this.parent) {
       this.#fs = this.parent.#fs
+      this.#context = this.parent.#context
+      this.#bigint = this.parent.#bigint
     } else {
       this.#fs = fsFromOption(opts.fs)
+      this.#context = opts.context ?? {}
+      this.#bigint = !!opts.bigint
     }
   }
 
@@ -709,7 +1699,7 @@ export abstract class PathBase implements Dirent {
    * readlink() has been called at some point.
    */
   readlinkCached(): PathBase | undefined {
-    return this.#linkTarget
+    return this.#jailed(this.#linkTarget)
   }
 
   /**
@@ -721,7 +1711,77 @@ export abstract class PathBase implements Dirent {
    * realpath() has been called at some point.
    */
   realpathCached(): PathBase | undefined {
-    return this.#realpath
+    return this.#jailed(this.#realpath)
+  }
+
+  /**
+   * Returns the cached result of a successful {@link PathBase.stat}, or
+   * undefined otherwise.
+   *
+   * Does not read the filesystem, so an undefined result *could* just mean we
+   * don't have any cached data.
+   */
+  statCached(): Stats | undefined {
+    return this.#stat
+  }
+
+  /**
+   * Returns the most recent error encountered by a filesystem operation on
+   * this entry (readdir, lstat, stat, readlink, realpath, or one of the
+   * methods that change the filesystem, such as {@link PathBase.mkdir}),
+   * or undefined if none of them have failed.
+   *
+   * Failures are otherwise cached as flags and treated as empty results, so
+   * for example an unreadable directory looks the same as an empty one.
+   * This is not cleared by later successful operations, only by
+   * {@link PathBase.invalidate}, or by successfully creating or removing
+   * the entry.
+   */
+  lastError(): NodeJS.ErrnoException | undefined {
+    return this.#lastError
+  }
+
+  /**
+   * The `code` of {@link PathBase.lastError}, such as `'EACCES'`, or
+   * undefined if there is no error, or it had no code.
+   */
+  lastErrorCode(): string | undefined {
+    return this.#lastError?.code
+  }
+
+  /**
+   * Forget what has been read from the filesystem about this entry, so
+   * that the next readdir, lstat, stat, readlink, or realpath goes back to
+   * the filesystem, rather than returning cached results.
+   *
+   * The known children of the entry are kept, but are treated as if they
+   * might not exist until the next readdir.  If `recursive` is set, then
+   * they and all of the entries beneath them are invalidated as well.
+   *
+   * The entry's type, and the stat fields from the last lstat(), are kept
+   * until they are replaced by fresh results.
+   */
+  invalidate({ recursive = false }: { recursive?: boolean } = {}): void {
+    // keep the type, but clear all of the other flags.  ENOTDIR goes too,
+    // since a file may have been replaced by a directory.
+    this.#type &= IFMT
+    this.#linkTarget = undefined
+    this.#realpath = undefined
+    this.#stat = undefined
+    this.#lastError = undefined
+    // the totals of every dir that this is in are out of date as well.
+    // one in the middle may not have a total when the ones above it do,
+    // if its Path was dropped from the children cache and made again, so
+    // go all the way up.
+    this.#du = undefined
+    for (let p = this.parent; p; p = p.parent) p.#du = undefined
+    this.#snapshotMtimeMs = undefined
+    const children = this.#children.get(this)
+    if (!children) return
+    children.provisional = 0
+    if (recursive) {
+      for (const c of children) c.invalidate({ recursive })
+    }
   }
 
   /**
@@ -731,6 +1791,9 @@ export abstract class PathBase implements Dirent {
    * Does not read the filesystem, so an empty array *could* just mean we
    * don't have any cached data. Only use it if you are very sure that a
    * readdir() has been called recently enough to still be valid.
+   *
+   * A listing restored by {@link PathScurryBase.fromSnapshot} is returned
+   * as-is, without first checking that the directory is unchanged.
    */
   readdirCached(): PathBase[] {
     const children = this.children()
@@ -801,7 +1864,7 @@ export abstract class PathBase implements Dirent {
   async readlink(): Promise<PathBase | undefined> {
     const target = this.#linkTarget
     if (target) {
-      return target
+      return this.#jailed(target)
     }
     if (!this.canReadlink()) {
       return undefined
@@ -816,10 +1879,10 @@ export abstract class PathBase implements Dirent {
       const read = await this.#fs.promises.readlink(this.fullpath())
       const linkTarget = this.parent.resolve(read)
       if (linkTarget) {
-        return (this.#linkTarget = linkTarget)
+        return this.#jailed((this.#linkTarget = linkTarget))
       }
     } catch (er) {
-      this.#readlinkFail((er as NodeJS.ErrnoException).code)
+      this.#readlinkFail(er as NodeJS.ErrnoException)
       return undefined
     }
   }
@@ -830,7 +1893,7 @@ export abstract class PathBase implements Dirent {
   readlinkSync(): PathBase | undefined {
     const target = this.#linkTarget
     if (target) {
-      return target
+      return this.#jailed(target)
     }
     if (!this.canReadlink()) {
       return undefined
@@ -845,10 +1908,10 @@ export abstract class PathBase implements Dirent {
       const read = this.#fs.readlinkSync(this.fullpath())
       const linkTarget = this.parent.resolve(read)
       if (linkTarget) {
-        return (this.#linkTarget = linkTarget)
+        return this.#jailed((this.#linkTarget = linkTarget))
       }
     } catch (er) {
-      this.#readlinkFail((er as NodeJS.ErrnoException).code)
+      this.#readlinkFail(er as NodeJS.ErrnoException)
       return undefined
     }
   }
@@ -860,6 +1923,7 @@ export abstract class PathBase implements Dirent {
     for (let p = children.provisional; p < children.length; p++) {
       children[p].#markENOENT()
     }
+    this.#context.onReaddir?.(this)
   }
 
   #markENOENT() {
@@ -900,7 +1964,9 @@ export abstract class PathBase implements Dirent {
     this.#markChildrenENOENT()
   }
 
-  #readdirFail(code: string = '') {
+  #readdirFail(er: NodeJS.ErrnoException) {
+    this.#lastError = er
+    const { code } = er
     // markENOTDIR and markENOENT also set provisional=0
     if (code === 'ENOTDIR' || code === 'EPERM') {
       this.#markENOTDIR()
@@ -911,7 +1977,9 @@ export abstract class PathBase implements Dirent {
     }
   }
 
-  #lstatFail(code: string = '') {
+  #lstatFail(er: NodeJS.ErrnoException) {
+    this.#lastError = er
+    const { code } = er
     // Windows just raises ENOENT in this case, disable for win CI
     /* c8 ignore start */
     if (code === 'ENOTDIR') {
@@ -924,7 +1992,9 @@ export abstract class PathBase implements Dirent {
     }
   }
 
-  #readlinkFail(code: string = '') {
+  #readlinkFail(er: NodeJS.ErrnoException) {
+    this.#lastError = er
+    const { code } = er
     let ter = this.#type
     ter |= ENOREADLINK
     if (code === 'ENOENT') ter |= ENOENT
@@ -985,8 +2055,14 @@ export abstract class PathBase implements Dirent {
     c: Children
   ): PathBase {
     const v = p.name
-    // retain any other flags, but set ifmt from dirent
-    p.#type = (p.#type & IFMT_UNKNOWN) | entToType(e)
+    // retain any other flags, but set ifmt from dirent.  It exists, even
+    // if it didn't the last time that this dir was read, and it may have
+    // become a directory since then.
+    const ifmt = entToType(e)
+    p.#type = (p.#type & IFMT_UNKNOWN & ~ENOENT & ~ENOTDIR) | ifmt
+    if (ifmt !== IFDIR && ifmt !== IFLNK && ifmt !== UNKNOWN) {
+      p.#type |= ENOTDIR
+    }
     // case sensitivity fixing when we learn the true name.
     if (v !== e.name) p.name = e.name
 
@@ -1019,10 +2095,14 @@ export abstract class PathBase implements Dirent {
   async lstat(): Promise<PathBase | undefined> {
     if ((this.#type & ENOENT) === 0) {
       try {
-        this.#applyStat(await this.#fs.promises.lstat(this.fullpath()))
+        this.#applyStat(
+          await this.#fs.promises.lstat(this.fullpath(), {
+            bigint: this.#bigint,
+          })
+        )
         return this
       } catch (er) {
-        this.#lstatFail((er as NodeJS.ErrnoException).code)
+        this.#lstatFail(er as NodeJS.ErrnoException)
       }
     }
   }
@@ -1033,53 +2113,49 @@ export abstract class PathBase implements Dirent {
   lstatSync(): PathBase | undefined {
     if ((this.#type & ENOENT) === 0) {
       try {
-        this.#applyStat(this.#fs.lstatSync(this.fullpath()))
+        this.#applyStat(
+          this.#fs.lstatSync(this.fullpath(), { bigint: this.#bigint })
+        )
         return this
       } catch (er) {
-        this.#lstatFail((er as NodeJS.ErrnoException).code)
+        this.#lstatFail(er as NodeJS.ErrnoException)
       }
     }
   }
 
-  #applyStat(st: Stats) {
-    const {
-      atime,
-      atimeMs,
-      birthtime,
-      birthtimeMs,
-      blksize,
-      blocks,
-      ctime,
-      ctimeMs,
-      dev,
-      gid,
-      ino,
-      mode,
-      mtime,
-      mtimeMs,
-      nlink,
-      rdev,
-      size,
-      uid,
-    } = st
-    this.#atime = atime
-    this.#atimeMs = atimeMs
-    this.#birthtime = birthtime
-    this.#birthtimeMs = birthtimeMs
-    this.#blksize = blksize
-    this.#blocks = blocks
-    this.#ctime = ctime
-    this.#ctimeMs = ctimeMs
-    this.#dev = dev
-    this.#gid = gid
-    this.#ino = ino
-    this.#mode = mode
-    this.#mtime = mtime
-    this.#mtimeMs = mtimeMs
-    this.#nlink = nlink
-    this.#rdev = rdev
-    this.#size = size
-    this.#uid = uid
+  #applyStat(st: Stats | BigIntStats) {
+    if ('mtimeNs' in st) {
+      // the Ms fields of bigint stats are truncated to whole milliseconds
+      this.#atimeMs = Number(st.atimeNs) / 1e6
+      this.#birthtimeMs = Number(st.birthtimeNs) / 1e6
+      this.#ctimeMs = Number(st.ctimeNs) / 1e6
+      this.#mtimeMs = Number(st.mtimeNs) / 1e6
+      this.#ctimeNs = st.ctimeNs
+      this.#mtimeNs = st.mtimeNs
+    } else {
+      this.#atimeMs = st.atimeMs
+      this.#birthtimeMs = st.birthtimeMs
+      this.#ctimeMs = st.ctimeMs
+      this.#mtimeMs = st.mtimeMs
+      if (this.#bigint) {
+        this.#ctimeNs = msToNs(st.ctimeMs)
+        this.#mtimeNs = msToNs(st.mtimeMs)
+      }
+    }
+    this.#atime = st.atime
+    this.#birthtime = st.birthtime
+    this.#blksize = Number(st.blksize)
+    this.#blocks = Number(st.blocks)
+    this.#ctime = st.ctime
+    this.#dev = this.#bigint ? BigInt(st.dev) : Number(st.dev)
+    this.#gid = Number(st.gid)
+    this.#ino = this.#bigint ? BigInt(st.ino) : Number(st.ino)
+    this.#mode = Number(st.mode)
+    this.#mtime = st.mtime
+    this.#nlink = Number(st.nlink)
+    this.#rdev = Number(st.rdev)
+    this.#size = Number(st.size)
+    this.#uid = Number(st.uid)
     const ifmt = entToType(st)
     // retain any other flags, but set the ifmt
     this.#type = (this.#type & IFMT_UNKNOWN) | ifmt | LSTAT_CALLED
@@ -1120,6 +2196,12 @@ export abstract class PathBase implements Dirent {
     cb: (er: NodeJS.ErrnoException | null, entries: PathBase[]) => any,
     allowZalgo: boolean = false
   ): void {
+    const check = this.#checkSnapshot()
+    if (check) {
+      check.then(() => this.readdirCB(cb, allowZalgo))
+      return
+    }
+
     if (!this.canReaddir()) {
       if (allowZalgo) cb(null, [])
       else queueMicrotask(() => cb(null, []))
@@ -1146,7 +2228,7 @@ export abstract class PathBase implements Dirent {
     const fullpath = this.fullpath()
     this.#fs.readdir(fullpath, { withFileTypes: true }, (er, entries) => {
       if (er) {
-        this.#readdirFail((er as NodeJS.ErrnoException).code)
+        this.#readdirFail(er as NodeJS.ErrnoException)
         children.provisional = 0
       } else {
         // if we didn't get an error, we always get entries.
@@ -1173,6 +2255,7 @@ export abstract class PathBase implements Dirent {
    * mutated.
    */
   async readdir(): Promise<PathBase[]> {
+    await this.#checkSnapshot()
     if (!this.canReaddir()) {
       return []
     }
@@ -1202,7 +2285,7 @@ export abstract class PathBase implements Dirent {
         }
         this.#readdirSuccess(children)
       } catch (er) {
-        this.#readdirFail((er as NodeJS.ErrnoException).code)
+        this.#readdirFail(er as NodeJS.ErrnoException)
         children.provisional = 0
       }
       this.#asyncReaddirInFlight = undefined
@@ -1215,6 +2298,7 @@ export abstract class PathBase implements Dirent {
    * synchronous {@link PathBase.readdir}
    */
   readdirSync(): PathBase[] {
+    this.#checkSnapshotSync()
     if (!this.canReaddir()) {
       return []
     }
@@ -1235,22 +2319,52 @@ export abstract class PathBase implements Dirent {
       }
       this.#readdirSuccess(children)
     } catch (er) {
-      this.#readdirFail((er as NodeJS.ErrnoException).code)
+      this.#readdirFail(er as NodeJS.ErrnoException)
       children.provisional = 0
     }
     return children.slice(0, children.provisional)
   }
 
-  canReaddir() {
-    if (this.#type & ENOCHILD) return false
-    const ifmt = IFMT & this.#type
-    // we always set ENOTDIR when setting IFMT, so should be impossible
-    /* c8 ignore start */
-    if (!(ifmt === UNKNOWN || ifmt === IFDIR || ifmt === IFLNK)) {
-      return false
+  // A dir listing restored from a snapshot is only used if the dir's
+  // mtime is the same as it was when the snapshot was taken.  Returns a
+  // promise if the check is still in progress.
+  #checkSnapshot(): Promise<void> | undefined {
+    const mtimeMs = this.#snapshotMtimeMs
+    if (mtimeMs === undefined) return this.#snapshotCheck
+    this.#snapshotMtimeMs = undefined
+    return (this.#snapshotCheck = this.lstat().then(st => {
+      this.#snapshotCheck = undefined
+      if (!st || this.#mtimeMs !== mtimeMs) this.#snapshotStale()
+    }))
+  }
+
+  #checkSnapshotSync() {
+    const mtimeMs = this.#snapshotMtimeMs
+    if (mtimeMs === undefined) return
+    this.#snapshotMtimeMs = undefined
+    if (!this.lstatSync() || this.#mtimeMs !== mtimeMs) {
+      this.#snapshotStale()
+    }
+  }
+
+  // the dir has changed, so the listing has to be read again, and any of
+  // its children could have been replaced.
+  #snapshotStale() {
+    this.#type &= ~READDIR_CALLED
+    const children = this.children()
+    children.provisional = 0
+    for (const c of children) {
+      c.#linkTarget = undefined
+      c.#realpath = undefined
     }
-    /* c8 ignore stop */
-    return true
+  }
+
+  canReaddir() {
+    if (this.#type & ENOCHILD) return false
+    // a known non-directory that has been invalidated isn't marked
+    // ENOTDIR until it's looked at again, but still can't be read.
+    const ifmt = IFMT & this.#type
+    return ifmt === UNKNOWN || ifmt === IFDIR || ifmt === IFLNK
   }
 
   shouldWalk(
@@ -1275,618 +2389,2650 @@ export abstract class PathBase implements Dirent {
    * On success, returns a Path object.
    */
   async realpath(): Promise<PathBase | undefined> {
-    if (this.#realpath) return this.#realpath
-    if ((ENOREALPATH | ENOREADLINK | ENOENT) & this.#type) return undefined
-    try {
-      const rp = await this.#fs.promises.realpath(this.fullpath())
-      return (this.#realpath = this.resolve(rp))
-    } catch (_) {
-      this.#markENOREALPATH()
+    if (!this.#realpath) {
+      if ((ENOREALPATH | ENOREADLINK | ENOENT) & this.#type)
+        return undefined
+      try {
+        const rp = await this.#fs.promises.realpath(this.fullpath())
+        this.#realpath = this.resolve(rp)
+      } catch (er) {
+        this.#lastError = er as NodeJS.ErrnoException
+        this.#markENOREALPATH()
+        return undefined
+      }
     }
+    // realpaths are compared to the realpath of the jail
+    const jail = this.#context.jail
+    if (jail && jail !== this) await jail.realpath()
+    return this.#jailed(this.#realpath)
   }
 
   /**
    * Synchronous {@link realpath}
    */
   realpathSync(): PathBase | undefined {
-    if (this.#realpath) return this.#realpath
-    if ((ENOREALPATH | ENOREADLINK | ENOENT) & this.#type) return undefined
-    try {
-      const rp = this.#fs.realpathSync(this.fullpath())
-      return (this.#realpath = this.resolve(rp))
-    } catch (_) {
-      this.#markENOREALPATH()
+    if (!this.#realpath) {
+      if ((ENOREALPATH | ENOREADLINK | ENOENT) & this.#type)
+        return undefined
+      try {
+        const rp = this.#fs.realpathSync(this.fullpath())
+        this.#realpath = this.resolve(rp)
+      } catch (er) {
+        this.#lastError = er as NodeJS.ErrnoException
+        this.#markENOREALPATH()
+        return undefined
+      }
     }
+    const jail = this.#context.jail
+    if (jail && jail !== this) jail.realpathSync()
+    return this.#jailed(this.#realpath)
   }
 
   /**
-   * Internal method to mark this Path object as the scurry cwd,
-   * called by {@link PathScurry#chdir}
+   * Returns true if the {@link PathScurryOpts.jail} option is set, and this
+   * entry is outside of the jail directory, or it is known to lead outside
+   * of it.  That is, if it, or one of its parents within the jail, is a
+   * symbolic link whose cached {@link PathBase.readlink} target or
+   * {@link PathBase.realpath} is outside of the jail.
    *
-   * @internal
+   * Does not read the filesystem, so links that have not been read yet
+   * are not caught.  Call {@link PathBase.realpath} first to be sure.
    */
-  [setAsCwd](oldCwd: PathBase): void {
-    if (oldCwd === this) return
+  escapesJail(): boolean {
+    const jail = this.#context.jail
+    if (!jail) return false
+    if (!this.#within(jail)) return true
+    const depth = jail.depth()
+    for (
+      let p: PathBase = this;
+      p.depth() > depth;
+      p = p.parent as PathBase
+    ) {
+      if (
+        (p.#linkTarget && !p.#linkTarget.#within(jail)) ||
+        (p.#realpath && !p.#realpath.#within(jail))
+      ) {
+        return true
+      }
+    }
+    return false
+  }
 
-    const changed = new Set<PathBase>([])
-    let rp = []
+  // whether the path is the jail dir or beneath it, or beneath the real
+  // path of the jail dir, if that is known.
+  #within(jail: PathBase): boolean {
+    return (
+      this.#beneath(jail) ||
+      (!!jail.#realpath && this.#beneath(jail.#realpath))
+    )
+  }
+
+  // Path objects are not compared directly, since the same path can be
+  // given a new Path object once the old one falls out of the children
+  // cache.
+  #beneath(dir: PathBase): boolean {
+    const depth = dir.depth()
     let p: PathBase = this
-    while (p && p.parent) {
-      changed.add(p)
-      p.#relative = rp.join(this.sep)
-      p.#relativePosix = rp.join('/')
-      p = p.parent
-      rp.push('..')
-    }
-    // now un-memoize parents of old cwd
-    p = oldCwd
-    while (p && p.parent && !changed.has(p)) {
-      p.#relative = undefined
-      p.#relativePosix = undefined
-      p = p.parent
-    }
+    while (p.depth() > depth) p = p.parent as PathBase
+    return (
+      p === dir ||
+      (this.nocase
+        ? normalizeNocase(p.fullpath()) === normalizeNocase(dir.fullpath())
+        : p.fullpath() === dir.fullpath())
+    )
+  }
+
+  // links that lead outside of the jail are not followed
+  #jailed(target?: PathBase): PathBase | undefined {
+    return target?.escapesJail() ? undefined : target
   }
-}
 
-/**
- * Path class used on win32 systems
- *
- * Uses `'\\'` as the path separator for returned paths, either `'\\'` or `'/'`
- * as the path separator for parsing paths.
- */
-export class PathWin32 extends PathBase {
   /**
-   * Separator for generating path strings.
+   * Call stat() on this Path, following symbolic links, and return the
+   * `fs.Stats` of the entry that it refers to, so that the size, mtime,
+   * and so on of a link's target can be found in a single call.
+   *
+   * Unlike {@link PathBase.lstat}, this does not update the type or stat
+   * fields of the Path, since those describe the entry itself, which may
+   * be a link.  The result is cached separately, and can be read with
+   * {@link PathBase.statCached}.
+   *
+   * If the Path does not exist, is a dangling or looping link, or the stat
+   * call fails for any other reason, `undefined` is returned.
+   *
+   * Result is cached, and thus may be outdated if the filesystem is mutated.
    */
-  sep: '\\' = '\\'
+  async stat(): Promise<Stats | undefined> {
+    if (this.#stat) return this.#stat
+    if ((ENOREALPATH | ENOENT) & this.#type) return undefined
+    try {
+      return (this.#stat = await this.#fs.promises.stat(this.fullpath()))
+    } catch (er) {
+      this.#statFail(er as NodeJS.ErrnoException)
+    }
+  }
+
   /**
-   * Separator for parsing path strings.
+   * Synchronous {@link PathBase.stat}
    */
-  splitSep: RegExp = eitherSep
+  statSync(): Stats | undefined {
+    if (this.#stat) return this.#stat
+    if ((ENOREALPATH | ENOENT) & this.#type) return undefined
+    try {
+      return (this.#stat = this.#fs.statSync(this.fullpath()))
+    } catch (er) {
+      this.#statFail(er as NodeJS.ErrnoException)
+    }
+  }
+
+  // if the entry can't be stat'ed because it, or whatever it links to,
+  // is missing or a loop, then it can't be resolved either.  Other errors
+  // such as EACCES may not last, so only the error is kept.
+  #statFail(er: NodeJS.ErrnoException) {
+    this.#lastError = er
+    const { code } = er
+    if (code === 'ENOENT' || code === 'ELOOP' || code === 'ENOTDIR') {
+      this.#markENOREALPATH()
+    }
+  }
 
   /**
-   * Do not create new Path objects directly.  They should always be accessed
-   * via the PathScurry class or other methods on the Path class.
+   * Returns the cached result of a successful {@link PathBase.du} on a
+   * directory, or undefined otherwise.
    *
-   * @internal
+   * Does not read the filesystem.
    */
-  constructor(
-    name: string,
-    type: number = UNKNOWN,
-    root: PathBase | undefined,
-    roots: { [k: string]: PathBase },
-    nocase: boolean,
-    children: ChildrenCache,
-    opts: PathOpts
-  ) {
-    super(name, type, root, roots, nocase, children, opts)
+  duCached(): DiskUsage | undefined {
+    return this.#du && { ...this.#du.usage }
   }
 
   /**
-   * @internal
+   * Add up the disk usage of this entry and everything beneath it, like
+   * `du -s`, without following symbolic links.  Files with more than one
+   * hard link are only counted once, by `dev` and `ino`.
+   *
+   * The totals for every directory are cached, so asking for the usage of
+   * a directory that has already been counted, or one of its
+   * subdirectories, does not read the filesystem again.  Invalidating an
+   * entry clears the totals for all of the directories that it is in.
+   *
+   * Entries that cannot be lstat'ed are left out, as are the contents of
+   * directories that cannot be read.  If this entry cannot be lstat'ed,
+   * then `undefined` is returned.
    */
-  newChild(name: string, type: number = UNKNOWN, opts: PathOpts = {}) {
-    return new PathWin32(
-      name,
-      type,
-      this.root,
-      this.roots,
-      this.nocase,
-      this.childrenCache(),
-      opts
-    )
+  async du({ signal }: DuOptions = {}): Promise<DiskUsage | undefined> {
+    const totals = await this.#duAsync(signal)
+    return totals && { ...totals.usage }
   }
 
   /**
-   * @internal
+   * Synchronous {@link PathBase.du}
    */
-  getRootString(path: string): string {
-    return win32.parse(path).root
+  duSync({ signal }: DuOptions = {}): DiskUsage | undefined {
+    const totals = this.#duSync(signal)
+    return totals && { ...totals.usage }
+  }
+
+  async #duAsync(signal?: AbortSignal): Promise<DuTotals | undefined> {
+    if (this.#du) return this.#du
+    if (signal?.aborted) throw signal.reason
+    if (!this.lstatCached() && !(await this.lstat())) return undefined
+    const totals = this.#duOwn()
+    if (!this.isDirectory()) return totals
+    for (const e of await this.readdir()) {
+      const t = await e.#duAsync(signal)
+      if (t) addDuTotals(totals, t)
+    }
+    return (this.#du = totals)
+  }
+
+  #duSync(signal?: AbortSignal): DuTotals | undefined {
+    if (this.#du) return this.#du
+    if (signal?.aborted) throw signal.reason
+    if (!this.lstatCached() && !this.lstatSync()) return undefined
+    const totals = this.#duOwn()
+    if (!this.isDirectory()) return totals
+    for (const e of this.readdirSync()) {
+      const t = e.#duSync(signal)
+      if (t) addDuTotals(totals, t)
+    }
+    return (this.#du = totals)
+  }
+
+  // the usage of the entry itself, from its lstat fields, which are
+  // always set by the time that this is called.
+  #duOwn(): DuTotals {
+    const dir = this.isDirectory()
+    const usage: DiskUsage = {
+      size: this.#size as number,
+      blocks: this.#blocks as number,
+      files: dir ? 0 : 1,
+      dirs: dir ? 1 : 0,
+    }
+    const links = new Map<string, DiskUsage>()
+    if (!dir && (this.#nlink as number) > 1) {
+      links.set(`${this.#dev}:${this.#ino}`, usage)
+    }
+    return { usage, links }
   }
 
   /**
-   * @internal
+   * Return all of the entries known to this PathScurry that are hard
+   * links to the same file as this one (that is, with the same `dev` and
+   * `ino`), including this one, in the order that they are found, going
+   * down from the roots.
+   *
+   * Does not read the filesystem.  Only entries that have been the
+   * subject of a successful lstat are considered, so if this one has not
+   * been, then an empty array is returned.  Walk with the `stat` option
+   * first to be sure of finding all the links within a directory.
+   *
+   * This looks at every entry in the cache, so it is best not to call it
+   * for every entry of a large walk.  See the `dedupeHardLinks` walk
+   * option for that.
    */
-  getRoot(rootPath: string): PathBase {
-    rootPath = uncToDrive(rootPath.toUpperCase())
-    if (rootPath === this.root.name) {
-      return this.root
-    }
-    // ok, not that one, check if it matches another we know about
-    for (const [compare, root] of Object.entries(this.roots)) {
-      if (this.sameRoot(rootPath, compare)) {
-        return (this.roots[rootPath] = root)
+  hardLinks(): PathBase[] {
+    if (!this.lstatCached()) return []
+    if ((this.#nlink as number) < 2) return [this]
+    const links: PathBase[] = []
+    // the same root can be found by more than one name on windows
+    const entries = [...new Set(Object.values(this.roots))]
+    for (const e of entries) {
+      if (
+        e.lstatCached() &&
+        e.#ino === this.#ino &&
+        e.#dev === this.#dev
+      ) {
+        links.push(e)
       }
+      const children = this.#children.peek(e)
+      if (children) entries.push(...children)
     }
-    // otherwise, have to create a new one.
-    return (this.roots[rootPath] = new PathScurryWin32(
-      rootPath,
-      this
-    ).root)
+    return links
   }
 
   /**
-   * @internal
+   * Create a directory at this path, like `fs.mkdir()`, and update the
+   * cache to match, so that it is known to be an empty directory without
+   * having to read it, and is added to the known entries of its parent.
+   *
+   * If the mkdir fails for any reason, `undefined` is returned, and the
+   * error can be found with {@link PathBase.lastError}.  Otherwise the
+   * Path object is returned.
    */
-  sameRoot(rootPath: string, compare: string = this.root.name): boolean {
-    // windows can (rarely) have case-sensitive filesystem, but
-    // UNC and drive letters are always case-insensitive, and canonically
-    // represented uppercase.
-    rootPath = rootPath
-      .toUpperCase()
-      .replace(/\//g, '\\')
-      .replace(uncDriveRegexp, '$1\\')
-    return rootPath === compare
+  async mkdir(): Promise<PathBase | undefined> {
+    try {
+      await this.#fs.promises.mkdir(this.fullpath())
+    } catch (er) {
+      this.#lastError = er as NodeJS.ErrnoException
+      return undefined
+    }
+    return this.#mkdirSuccess()
   }
-}
 
-/**
- * Path class used on all posix systems.
- *
- * Uses `'/'` as the path separator.
- */
-export class PathPosix extends PathBase {
   /**
-   * separator for parsing path strings
+   * Synchronous {@link PathBase.mkdir}
    */
-  splitSep: '/' = '/'
+  mkdirSync(): PathBase | undefined {
+    try {
+      this.#fs.mkdirSync(this.fullpath())
+    } catch (er) {
+      this.#lastError = er as NodeJS.ErrnoException
+      return undefined
+    }
+    return this.#mkdirSuccess()
+  }
+
+  #mkdirSuccess() {
+    this.#created(IFDIR)
+    // a new dir is known to be empty
+    const children = this.children()
+    children.provisional = 0
+    this.#readdirSuccess(children)
+    return this
+  }
+
   /**
-   * separator for generating path strings
+   * Write the data to a file at this path, like `fs.writeFile()`, and
+   * update the cache to match.  As on disk, if this is a symbolic link,
+   * then the file that it points to is written, and the link is left as
+   * it is.
+   *
+   * If the write fails for any reason, `undefined` is returned, and the
+   * error can be found with {@link PathBase.lastError}.  Otherwise the
+   * Path object is returned.
    */
-  sep: '/' = '/'
+  async writeFile(
+    data: string | Uint8Array
+  ): Promise<PathBase | undefined> {
+    try {
+      await this.#fs.promises.writeFile(this.fullpath(), data)
+    } catch (er) {
+      this.#lastError = er as NodeJS.ErrnoException
+      return undefined
+    }
+    return this.#writeFileSuccess()
+  }
 
   /**
-   * Do not create new Path objects directly.  They should always be accessed
-   * via the PathScurry class or other methods on the Path class.
-   *
-   * @internal
+   * Synchronous {@link PathBase.writeFile}
    */
-  constructor(
-    name: string,
-    type: number = UNKNOWN,
-    root: PathBase | undefined,
-    roots: { [k: string]: PathBase },
-    nocase: boolean,
-    children: ChildrenCache,
-    opts: PathOpts
-  ) {
-    super(name, type, root, roots, nocase, children, opts)
+  writeFileSync(data: string | Uint8Array): PathBase | undefined {
+    try {
+      this.#fs.writeFileSync(this.fullpath(), data)
+    } catch (er) {
+      this.#lastError = er as NodeJS.ErrnoException
+      return undefined
+    }
+    return this.#writeFileSuccess()
+  }
+
+  #writeFileSuccess() {
+    // the target of a link has changed, and if the type isn't known, then
+    // it might be a link, unless it didn't exist before.
+    this.#realpath?.invalidate()
+    this.#linkTarget?.invalidate()
+    const ifmt = this.#type & IFMT
+    this.#created(
+      ifmt === IFLNK || (ifmt === UNKNOWN && !this.#knownMissing())
+        ? ifmt
+        : IFREG
+    )
+    return this
+  }
+
+  // the entry is known not to exist, either because it's been marked as
+  // such, or because it isn't in the known listing of its parent.
+  #knownMissing(): boolean {
+    if (this.#type & ENOENT) return true
+    const p = this.parent as PathBase
+    const listed = p.readdirCached()
+    return p.calledReaddir() && !listed.includes(this)
   }
 
   /**
-   * @internal
+   * Remove the file or symbolic link at this path, like `fs.unlink()`, and
+   * update the cache to match, so that it is known not to exist, and is
+   * removed from the known entries of its parent.
+   *
+   * Returns true if it was removed.  Otherwise, the error can be found
+   * with {@link PathBase.lastError}.
    */
-  getRootString(path: string): string {
-    return path.startsWith('/') ? '/' : ''
+  async unlink(): Promise<boolean> {
+    try {
+      await this.#fs.promises.unlink(this.fullpath())
+    } catch (er) {
+      this.#removeFail(er as NodeJS.ErrnoException)
+      return false
+    }
+    this.#removed()
+    return true
   }
 
   /**
-   * @internal
+   * Synchronous {@link PathBase.unlink}
    */
-  getRoot(_rootPath: string): PathBase {
-    return this.root
+  unlinkSync(): boolean {
+    try {
+      this.#fs.unlinkSync(this.fullpath())
+    } catch (er) {
+      this.#removeFail(er as NodeJS.ErrnoException)
+      return false
+    }
+    this.#removed()
+    return true
   }
 
   /**
-   * @internal
+   * Remove the empty directory at this path, like `fs.rmdir()`, and
+   * update the cache to match, so that it is known not to exist, and is
+   * removed from the known entries of its parent.
+   *
+   * Returns true if it was removed.  Otherwise, the error can be found
+   * with {@link PathBase.lastError}.
    */
-  newChild(name: string, type: number = UNKNOWN, opts: PathOpts = {}) {
-    return new PathPosix(
-      name,
-      type,
-      this.root,
-      this.roots,
-      this.nocase,
-      this.childrenCache(),
-      opts
-    )
+  async rmdir(): Promise<boolean> {
+    try {
+      await this.#fs.promises.rmdir(this.fullpath())
+    } catch (er) {
+      this.#removeFail(er as NodeJS.ErrnoException)
+      return false
+    }
+    this.#removed()
+    return true
   }
-}
 
-/**
- * Options that may be provided to the PathScurry constructor
- */
-export interface PathScurryOpts {
   /**
-   * perform case-insensitive path matching. Default based on platform
-   * subclass.
+   * Synchronous {@link PathBase.rmdir}
    */
-  nocase?: boolean
+  rmdirSync(): boolean {
+    try {
+      this.#fs.rmdirSync(this.fullpath())
+    } catch (er) {
+      this.#removeFail(er as NodeJS.ErrnoException)
+      return false
+    }
+    this.#removed()
+    return true
+  }
+
   /**
-   * Number of Path entries to keep in the cache of Path child references.
-   *
-   * Setting this higher than 65536 will dramatically increase the data
-   * consumption and construction time overhead of each PathScurry.
-   *
-   * Setting this value to 256 or lower will significantly reduce the data
-   * consumption and construction time overhead, but may also reduce resolve()
-   * and readdir() performance on large filesystems.
+   * Move this entry to the destination, like `fs.rename()`, and update the
+   * cache to match.  A string destination is resolved against the
+   * directory that this entry is in.
    *
-   * Default `16384`.
-   */
-  childrenCacheSize?: number
-  /**
-   * An object that overrides the built-in functions from the fs and
-   * fs/promises modules.
+   * The destination takes the type of this entry, and this entry is
+   * known not to exist.  Since Path objects can't be moved, the contents of
+   * a renamed directory are read again from its new location when they
+   * are needed.
    *
-   * See {@link FSOption}
+   * If the rename fails for any reason, `undefined` is returned, and the
+   * error can be found with {@link PathBase.lastError}.  Otherwise the
+   * Path object of the destination is returned.
    */
-  fs?: FSOption
-}
+  async rename(dest: PathBase | string): Promise<PathBase | undefined> {
+    const to = this.#renameDest(dest)
+    try {
+      await this.#fs.promises.rename(this.fullpath(), to.fullpath())
+    } catch (er) {
+      this.#lastError = er as NodeJS.ErrnoException
+      return undefined
+    }
+    return this.#renameSuccess(to)
+  }
 
-/**
- * The base class for all PathScurry classes, providing the interface for path
- * resolution and filesystem operations.
- *
- * Typically, you should *not* instantiate this class directly, but rather one
- * of the platform-specific classes, or the exported {@link PathScurry} which
- * defaults to the current platform.
- */
-export abstract class PathScurryBase {
-  /**
-   * The root Path entry for the current working directory of this Scurry
-   */
-  root: PathBase
-  /**
-   * The string path for the root of this Scurry's current working directory
-   */
-  rootPath: string
-  /**
-   * A collection of all roots encountered, referenced by rootPath
-   */
-  roots: { [k: string]: PathBase }
-  /**
-   * The Path entry corresponding to this PathScurry's current working directory.
-   */
-  cwd: PathBase
-  #resolveCache: ResolveCache
-  #resolvePosixCache: ResolveCache
-  #children: ChildrenCache
   /**
-   * Perform path comparisons case-insensitively.
-   *
-   * Defaults true on Darwin and Windows systems, false elsewhere.
+   * Synchronous {@link PathBase.rename}
    */
-  nocase: boolean
+  renameSync(dest: PathBase | string): PathBase | undefined {
+    const to = this.#renameDest(dest)
+    try {
+      this.#fs.renameSync(this.fullpath(), to.fullpath())
+    } catch (er) {
+      this.#lastError = er as NodeJS.ErrnoException
+      return undefined
+    }
+    return this.#renameSuccess(to)
+  }
 
-  /**
-   * The path separator used for parsing paths
-   *
-   * `'/'` on Posix systems, either `'/'` or `'\\'` on Windows
-   */
-  abstract sep: string | RegExp
+  #renameDest(dest: PathBase | string): PathBase {
+    return typeof dest === 'string'
+      ? (this.parent || this).resolve(dest)
+      : dest
+  }
 
-  #fs: FSValue
+  #renameSuccess(to: PathBase) {
+    if (to === this) return this
+    to.#created(this.#type & IFMT)
+    this.#removed()
+    return to
+  }
 
   /**
-   * This class should not be instantiated directly.
-   *
-   * Use PathScurryWin32, PathScurryDarwin, PathScurryPosix, or PathScurry
+   * Create a symbolic link at this path, pointing at the target, like
+   * `fs.symlink(target, path)`, and update the cache to match, so that it
+   * is known to be a link, and its {@link PathBase.readlinkCached} target
+   * is known.  As with the links themselves, a relative target is relative
+   * to the directory that this entry is in.
    *
-   * @internal
+   * If the symlink fails for any reason, `undefined` is returned, and the
+   * error can be found with {@link PathBase.lastError}.  Otherwise the
+   * Path object is returned.
    */
-  constructor(
-    cwd: URL | string = process.cwd(),
-    pathImpl: typeof win32 | typeof posix,
-    sep: string | RegExp,
-    {
-      nocase,
-      childrenCacheSize = 16 * 1024,
-      fs = defaultFS,
-    }: PathScurryOpts = {}
-  ) {
-    this.#fs = fsFromOption(fs)
-    if (cwd instanceof URL || cwd.startsWith('file://')) {
-      cwd = fileURLToPath(cwd)
-    }
-    // resolve and split root, and then add to the store.
-    // this is the only time we call path.resolve()
-    const cwdPath = pathImpl.resolve(cwd)
-    this.roots = Object.create(null)
-    this.rootPath = this.parseRootPath(cwdPath)
-    this.#resolveCache = new ResolveCache()
-    this.#resolvePosixCache = new ResolveCache()
-    this.#children = new ChildrenCache(childrenCacheSize)
-
-    const split = cwdPath.substring(this.rootPath.length).split(sep)
-    // resolve('/') leaves '', splits to [''], we don't want that.
-    if (split.length === 1 && !split[0]) {
-      split.pop()
-    }
-    /* c8 ignore start */
-    if (nocase === undefined) {
-      throw new TypeError(
-        'must provide nocase setting to PathScurryBase ctor'
-      )
-    }
-    /* c8 ignore stop */
-    this.nocase = nocase
-    this.root = this.newRoot(this.#fs)
-    this.roots[this.rootPath] = this.root
-    let prev: PathBase = this.root
-    let len = split.length - 1
-    const joinSep = pathImpl.sep
-    let abs = this.rootPath
-    let sawFirst = false
-    for (const part of split) {
-      const l = len--
-      prev = prev.child(part, {
-        relative: new Array(l).fill('..').join(joinSep),
-        relativePosix: new Array(l).fill('..').join('/'),
-        fullpath: (abs += (sawFirst ? '' : joinSep) + part),
-      })
-      sawFirst = true
+  async symlink(target: string): Promise<PathBase | undefined> {
+    try {
+      await this.#fs.promises.symlink(target, this.fullpath())
+    } catch (er) {
+      this.#lastError = er as NodeJS.ErrnoException
+      return undefined
     }
-    this.cwd = prev
+    return this.#symlinkSuccess(target)
   }
 
   /**
-   * Get the depth of a provided path, string, or the cwd
+   * Synchronous {@link PathBase.symlink}
    */
-  depth(path: Path | string = this.cwd): number {
-    if (typeof path === 'string') {
-      path = this.cwd.resolve(path)
+  symlinkSync(target: string): PathBase | undefined {
+    try {
+      this.#fs.symlinkSync(target, this.fullpath())
+    } catch (er) {
+      this.#lastError = er as NodeJS.ErrnoException
+      return undefined
     }
-    return path.depth()
+    return this.#symlinkSuccess(target)
   }
 
-  /**
-   * Parse the root portion of a path string
-   *
-   * @internal
-   */
-  abstract parseRootPath(dir: string): string
-  /**
-   * create a new Path to use as root during construction.
-   *
-   * @internal
-   */
-  abstract newRoot(fs: FSValue): PathBase
-  /**
-   * Determine whether a given path string is absolute
-   */
-  abstract isAbsolute(p: string): boolean
+  #symlinkSuccess(target: string) {
+    this.#created(IFLNK)
+    this.#linkTarget = (this.parent as PathBase).resolve(target)
+    return this
+  }
 
   /**
-   * Return the cache of child entries.  Exposed so subclasses can create
-   * child Path objects in a platform-specific way.
+   * Copy the contents of this file to the destination, like
+   * `fs.copyFile()`, and update the cache to match, as
+   * {@link PathBase.writeFile} does for the destination.  A string
+   * destination is resolved against the directory that this entry is in.
    *
-   * @internal
+   * If the copy fails for any reason, `undefined` is returned, and the
+   * error can be found with {@link PathBase.lastError}.  Otherwise the
+   * Path object of the destination is returned.
    */
-  childrenCache() {
-    return this.#children
+  async copyFile(dest: PathBase | string): Promise<PathBase | undefined> {
+    const to = this.#renameDest(dest)
+    try {
+      await this.#fs.promises.copyFile(this.fullpath(), to.fullpath())
+    } catch (er) {
+      this.#lastError = er as NodeJS.ErrnoException
+      return undefined
+    }
+    return to.#writeFileSuccess()
   }
 
   /**
-   * Resolve one or more path strings to a resolved string
-   *
-   * Same interface as require('path').resolve.
-   *
-   * Much faster than path.resolve() when called multiple times for the same
-   * path, because the resolved Path objects are cached.  Much slower
-   * otherwise.
+   * Synchronous {@link PathBase.copyFile}
    */
-  resolve(...paths: string[]): string {
-    // first figure out the minimum number of paths we have to test
-    // we always start at cwd, but any absolutes will bump the start
-    let r = ''
-    for (let i = paths.length - 1; i >= 0; i--) {
-      const p = paths[i]
-      if (!p || p === '.') continue
-      r = r ? `${p}/${r}` : p
-      if (this.isAbsolute(p)) {
-        break
-      }
-    }
-    const cached = this.#resolveCache.get(r)
-    if (cached !== undefined) {
-      return cached
+  copyFileSync(dest: PathBase | string): PathBase | undefined {
+    const to = this.#renameDest(dest)
+    try {
+      this.#fs.copyFileSync(this.fullpath(), to.fullpath())
+    } catch (er) {
+      this.#lastError = er as NodeJS.ErrnoException
+      return undefined
     }
-    const result = this.cwd.resolve(r).fullpath()
-    this.#resolveCache.set(r, result)
-    return result
+    return to.#writeFileSuccess()
   }
 
   /**
-   * Resolve one or more path strings to a resolved string, returning
-   * the posix path.  Identical to .resolve() on posix systems, but on
-   * windows will return a forward-slash separated UNC path.
-   *
-   * Same interface as require('path').resolve.
+   * Change the permissions of this entry, or of what it links to, like
+   * `fs.chmod()`, so that its cached stats are known to be out of date.
    *
-   * Much faster than path.resolve() when called multiple times for the same
-   * path, because the resolved Path objects are cached.  Much slower
-   * otherwise.
+   * If the chmod fails for any reason, `undefined` is returned, and the
+   * error can be found with {@link PathBase.lastError}.  Otherwise the
+   * Path object is returned.
    */
-  resolvePosix(...paths: string[]): string {
-    // first figure out the minimum number of paths we have to test
-    // we always start at cwd, but any absolutes will bump the start
-    let r = ''
-    for (let i = paths.length - 1; i >= 0; i--) {
-      const p = paths[i]
-      if (!p || p === '.') continue
-      r = r ? `${p}/${r}` : p
-      if (this.isAbsolute(p)) {
-        break
-      }
-    }
-    const cached = this.#resolvePosixCache.get(r)
-    if (cached !== undefined) {
-      return cached
+  async chmod(mode: number): Promise<PathBase | undefined> {
+    try {
+      await this.#fs.promises.chmod(this.fullpath(), mode)
+    } catch (er) {
+      this.#lastError = er as NodeJS.ErrnoException
+      return undefined
     }
-    const result = this.cwd.resolve(r).fullpathPosix()
-    this.#resolvePosixCache.set(r, result)
-    return result
+    return this.#statChanged()
   }
 
   /**
-   * find the relative path from the cwd to the supplied path string or entry
+   * Synchronous {@link PathBase.chmod}
    */
-  relative(entry: PathBase | string = this.cwd): string {
-    if (typeof entry === 'string') {
-      entry = this.cwd.resolve(entry)
+  chmodSync(mode: number): PathBase | undefined {
+    try {
+      this.#fs.chmodSync(this.fullpath(), mode)
+    } catch (er) {
+      this.#lastError = er as NodeJS.ErrnoException
+      return undefined
     }
-    return entry.relative()
+    return this.#statChanged()
   }
 
   /**
-   * find the relative path from the cwd to the supplied path string or
-   * entry, using / as the path delimiter, even on Windows.
+   * Set the access and modification times of this entry, or of what it
+   * links to, like `fs.utimes()`, so that its cached stats are known to be
+   * out of date.  Numbers are in seconds since the epoch.
+   *
+   * If the utimes call fails for any reason, `undefined` is returned, and
+   * the error can be found with {@link PathBase.lastError}.  Otherwise
+   * the Path object is returned.
    */
-  relativePosix(entry: PathBase | string = this.cwd): string {
-    if (typeof entry === 'string') {
-      entry = this.cwd.resolve(entry)
+  async utimes(
+    atime: number | Date,
+    mtime: number | Date
+  ): Promise<PathBase | undefined> {
+    try {
+      await this.#fs.promises.utimes(this.fullpath(), atime, mtime)
+    } catch (er) {
+      this.#lastError = er as NodeJS.ErrnoException
+      return undefined
     }
-    return entry.relativePosix()
+    return this.#statChanged()
   }
 
   /**
-   * Return the basename for the provided string or Path object
+   * Synchronous {@link PathBase.utimes}
    */
-  basename(entry: PathBase | string = this.cwd): string {
-    if (typeof entry === 'string') {
-      entry = this.cwd.resolve(entry)
+  utimesSync(
+    atime: number | Date,
+    mtime: number | Date
+  ): PathBase | undefined {
+    try {
+      this.#fs.utimesSync(this.fullpath(), atime, mtime)
+    } catch (er) {
+      this.#lastError = er as NodeJS.ErrnoException
+      return undefined
     }
-    return entry.name
+    return this.#statChanged()
   }
 
-  /**
-   * Return the dirname for the provided string or Path object
-   */
-  dirname(entry: PathBase | string = this.cwd): string {
-    if (typeof entry === 'string') {
-      entry = this.cwd.resolve(entry)
+  // the entry, or what it links to, has the same type and contents, but
+  // its stats are out of date.
+  #statChanged() {
+    this.#stat = undefined
+    if ((this.#type & IFMT) === IFLNK) {
+      if (this.#realpath) this.#realpath.#statChanged()
+    } else {
+      this.#type &= ~LSTAT_CALLED
     }
-    return (entry.parent || entry).fullpath()
+    return this
   }
 
-  /**
-   * Return an array of known child entries.
-   *
-   * First argument may be either a string, or a Path object.
-   *
+  // The entry has just been created with the given type.  Anything that
+  // was known about it, or what used to be beneath it, is out of date, so
+  // forget it all, and add it to the listing of its parent.
+  #created(ifmt: number) {
+    this.invalidate({ recursive: true })
+    this.#type = ifmt
+    if (ifmt !== UNKNOWN && ifmt !== IFDIR && ifmt !== IFLNK) {
+      this.#type |= ENOTDIR
+      this.#markChildrenENOENT()
+    }
+    this.#relist(true)
+  }
+
+  // The entry, and everything beneath it, no longer exists
+  #removed() {
+    this.invalidate({ recursive: true })
+    this.#markENOENT()
+    this.#relist(false)
+  }
+
+  // if it turns out to already be gone, then the cache is updated as if
+  // it had been removed.
+  #removeFail(er: NodeJS.ErrnoException) {
+    if (er.code === 'ENOENT') this.#removed()
+    this.#lastError = er
+  }
+
+  // Move the entry into or out of the listing of its parent, if the
+  // listing is known.  The parent's mtime has changed as well, so its
+  // lstat results are out of date.
+  #relist(exists: boolean) {
+    const p = this.parent
+    /* c8 ignore start */
+    // roots can't be created or removed, here for ts grumples
+    if (!p) return
+    /* c8 ignore stop */
+    p.#type &= ~LSTAT_CALLED
+    const c = p.children()
+    if (!p.calledReaddir()) return
+    const i = c.indexOf(this)
+    // not found if this Path object has fallen out of the cache, and been
+    // replaced by a new one.
+    if (i === -1) return
+    if (exists && i >= c.provisional) {
+      c.splice(i, 1)
+      c.unshift(this)
+      c.provisional++
+    } else if (!exists && i < c.provisional) {
+      c.splice(i, 1)
+      c.push(this)
+      c.provisional--
+    }
+  }
+
+  /**
+   * Internal method to describe this Path object in a snapshot, called by
+   * {@link PathScurryBase#toSnapshot}
+   *
+   * @internal
+   */
+  [toSnapshotEntry](
+    parent: number,
+    listed: boolean,
+    index: Map<PathBase, number>
+  ): SnapshotEntry {
+    // a listing can only be checked when it's restored if we know what
+    // the dir's mtime was when it was read.
+    const pending = this.#snapshotMtimeMs !== undefined
+    if (this.#type & READDIR_CALLED && !(this.#type & LSTAT_CALLED)) {
+      if (!pending) this.lstatSync()
+    }
+    const t = this.#type
+    let type = t & IFMT
+    if (listed) type |= LISTED
+    if (
+      t & READDIR_CALLED &&
+      (t & LSTAT_CALLED || pending) &&
+      this.canReaddir()
+    ) {
+      type |= READDIR_CALLED
+    }
+    const entry: SnapshotEntry = [parent, this.name, type]
+    const stats =
+      this.#mtimeMs === undefined
+        ? 0
+        : ([
+            // bigints don't survive JSON, or fit in a float
+            String(this.#dev),
+            this.#mode,
+            this.#nlink,
+            this.#uid,
+            this.#gid,
+            this.#rdev,
+            this.#blksize,
+            String(this.#ino),
+            this.#size,
+            this.#blocks,
+            this.#atimeMs,
+            this.#mtimeMs,
+            this.#ctimeMs,
+            this.#birthtimeMs,
+            ...(this.#mtimeNs === undefined
+              ? []
+              : [String(this.#ctimeNs), String(this.#mtimeNs)]),
+          ] as SnapshotStats)
+    const link = (this.#linkTarget && index.get(this.#linkTarget)) ?? -1
+    const real = (this.#realpath && index.get(this.#realpath)) ?? -1
+    // leave off anything at the end that isn't known
+    if (real !== -1) entry.push(stats, link, real)
+    else if (link !== -1) entry.push(stats, link)
+    else if (stats) entry.push(stats)
+    return entry
+  }
+
+  /**
+   * Internal method to restore the information in a snapshot to this Path
+   * object, called by {@link PathScurryBase.fromSnapshot}
+   *
+   * @internal
+   */
+  [fromSnapshotEntry](
+    [, , type, stats, link = -1, real = -1]: SnapshotEntry,
+    paths: PathBase[]
+  ): void {
+    // only the type is kept, in the same way as invalidate(), since a
+    // file may have become a directory since the snapshot was taken.
+    this.#type = type & IFMT
+    if (stats) {
+      let dev: string
+      let ino: string
+      let ctimeNs: string | undefined
+      let mtimeNs: string | undefined
+      ;[
+        dev,
+        this.#mode,
+        this.#nlink,
+        this.#uid,
+        this.#gid,
+        this.#rdev,
+        this.#blksize,
+        ino,
+        this.#size,
+        this.#blocks,
+        this.#atimeMs,
+        this.#mtimeMs,
+        this.#ctimeMs,
+        this.#birthtimeMs,
+        ctimeNs,
+        mtimeNs,
+      ] = stats
+      // rounded the same way as in fs.Stats
+      this.#atime = new Date(Math.round(this.#atimeMs as number))
+      this.#mtime = new Date(Math.round(this.#mtimeMs as number))
+      this.#ctime = new Date(Math.round(this.#ctimeMs as number))
+      this.#birthtime = new Date(Math.round(this.#birthtimeMs as number))
+      if (this.#bigint) {
+        this.#dev = BigInt(dev)
+        this.#ino = BigInt(ino)
+        this.#ctimeNs =
+          ctimeNs === undefined
+            ? msToNs(this.#ctimeMs as number)
+            : BigInt(ctimeNs)
+        this.#mtimeNs =
+          mtimeNs === undefined
+            ? msToNs(this.#mtimeMs as number)
+            : BigInt(mtimeNs)
+      } else {
+        this.#dev = Number(dev)
+        this.#ino = Number(ino)
+      }
+      if (type & READDIR_CALLED) {
+        this.#type |= READDIR_CALLED
+        this.#snapshotMtimeMs = this.#mtimeMs
+      }
+    }
+    if (link !== -1) this.#linkTarget = paths[link]
+    if (real !== -1) this.#realpath = paths[real]
+    // entries from the listing go at the front of the children, in the
+    // same way as they would if the parent had been read.
+    const p = this.parent
+    if (type & LISTED && p && p.#type & READDIR_CALLED) {
+      const c = p.children()
+      const i = c.indexOf(this, c.provisional)
+      if (i !== c.provisional) {
+        c.splice(i, 1)
+        c.splice(c.provisional, 0, this)
+      }
+      c.provisional++
+    }
+  }
+
+  /**
+   * Internal method to mark this Path object as the scurry cwd,
+   * called by {@link PathScurry#chdir}
+   *
+   * @internal
+   */
+  [setAsCwd](oldCwd: PathBase): void {
+    if (oldCwd === this) return
+
+    const changed = new Set<PathBase>([])
+    let rp = []
+    let p: PathBase = this
+    while (p && p.parent) {
+      changed.add(p)
+      p.#relative = rp.join(this.sep)
+      p.#relativePosix = rp.join('/')
+      p = p.parent
+      rp.push('..')
+    }
+    // now un-memoize parents of old cwd
+    p = oldCwd
+    while (p && p.parent && !changed.has(p)) {
+      p.#relative = undefined
+      p.#relativePosix = undefined
+      p = p.parent
+    }
+  }
+}
+
+/**
+ * Path class used on win32 systems
+ *
+ * Uses `'\\'` as the path separator for returned paths, either `'\\'` or `'/'`
+ * as the path separator for parsing paths.
+ */
+export class PathWin32 extends PathBase {
+  /**
+   * Separator for generating path strings.
+   */
+  sep: '\\' = '\\'
+  /**
+   * Separator for parsing path strings.
+   */
+  splitSep: RegExp = eitherSep
+
+  /**
+   * Do not create new Path objects directly.  They should always be accessed
+   * via the PathScurry class or other methods on the Path class.
+   *
+   * @internal
+   */
+  constructor(
+    name: string,
+    type: number = UNKNOWN,
+    root: PathBase | undefined,
+    roots: { [k: string]: PathBase },
+    nocase: boolean,
+    children: ChildrenCache,
+    opts: PathOpts
+  ) {
+    super(name, type, root, roots, nocase, children, opts)
+  }
+
+  /**
+   * @internal
+   */
+  newChild(name: string, type: number = UNKNOWN, opts: PathOpts = {}) {
+    return new PathWin32(
+      name,
+      type,
+      this.root,
+      this.roots,
+      this.nocase,
+      this.childrenCache(),
+      opts
+    )
+  }
+
+  /**
+   * @internal
+   */
+  getRootString(path: string): string {
+    return win32.parse(path).root
+  }
+
+  /**
+   * @internal
+   */
+  getRoot(rootPath: string): PathBase {
+    rootPath = uncToDrive(rootPath.toUpperCase())
+    if (rootPath === this.root.name) {
+      return this.root
+    }
+    // ok, not that one, check if it matches another we know about
+    for (const [compare, root] of Object.entries(this.roots)) {
+      if (this.sameRoot(rootPath, compare)) {
+        return (this.roots[rootPath] = root)
+      }
+    }
+    // otherwise, have to create a new one.
+    return (this.roots[rootPath] = new PathScurryWin32(
+      rootPath,
+      this
+    ).root)
+  }
+
+  /**
+   * @internal
+   */
+  sameRoot(rootPath: string, compare: string = this.root.name): boolean {
+    // windows can (rarely) have case-sensitive filesystem, but
+    // UNC and drive letters are always case-insensitive, and canonically
+    // represented uppercase.
+    rootPath = rootPath
+      .toUpperCase()
+      .replace(/\//g, '\\')
+      .replace(uncDriveRegexp, '$1\\')
+    return rootPath === compare
+  }
+}
+
+/**
+ * Path class used on all posix systems.
+ *
+ * Uses `'/'` as the path separator.
+ */
+export class PathPosix extends PathBase {
+  /**
+   * separator for parsing path strings
+   */
+  splitSep: '/' = '/'
+  /**
+   * separator for generating path strings
+   */
+  sep: '/' = '/'
+
+  /**
+   * Do not create new Path objects directly.  They should always be accessed
+   * via the PathScurry class or other methods on the Path class.
+   *
+   * @internal
+   */
+  constructor(
+    name: string,
+    type: number = UNKNOWN,
+    root: PathBase | undefined,
+    roots: { [k: string]: PathBase },
+    nocase: boolean,
+    children: ChildrenCache,
+    opts: PathOpts
+  ) {
+    super(name, type, root, roots, nocase, children, opts)
+  }
+
+  /**
+   * @internal
+   */
+  getRootString(path: string): string {
+    return path.startsWith('/') ? '/' : ''
+  }
+
+  /**
+   * @internal
+   */
+  getRoot(_rootPath: string): PathBase {
+    return this.root
+  }
+
+  /**
+   * @internal
+   */
+  newChild(name: string, type: number = UNKNOWN, opts: PathOpts = {}) {
+    return new PathPosix(
+      name,
+      type,
+      this.root,
+      this.roots,
+      this.nocase,
+      this.childrenCache(),
+      opts
+    )
+  }
+}
+
+/**
+ * Options that may be provided to the PathScurry constructor
+ */
+export interface PathScurryOpts {
+  /**
+   * perform case-insensitive path matching. Default based on platform
+   * subclass.
+   */
+  nocase?: boolean
+  /**
+   * Number of Path entries to keep in the cache of Path child references.
+   *
+   * Setting this higher than 65536 will dramatically increase the data
+   * consumption and construction time overhead of each PathScurry.
+   *
+   * Setting this value to 256 or lower will significantly reduce the data
+   * consumption and construction time overhead, but may also reduce resolve()
+   * and readdir() performance on large filesystems.
+   *
+   * Default `16384`.
+   */
+  childrenCacheSize?: number
+  /**
+   * An object that overrides the built-in functions from the fs and
+   * fs/promises modules.
+   *
+   * See {@link FSOption}
+   */
+  fs?: FSOption
+  /**
+   * Call lstat with `{ bigint: true }`, so that the `dev` and `ino` of
+   * each Path are bigints, and `mtimeNs` and `ctimeNs` are filled in with
+   * nanosecond precision, to tell apart changes made within the same
+   * millisecond.
+   *
+   * If the `fs` option does not return bigint stats, then the nanosecond
+   * times are worked out from the millisecond ones.
+   *
+   * @default false
+   */
+  bigint?: boolean
+  /**
+   * Confine symbolic links to a directory, so that nothing outside of it
+   * can be reached through them.  Set to `true` to use the `cwd`, or to a
+   * path or `file://` URL, which is resolved against the `cwd`.
+   *
+   * The {@link PathBase.readlink} and {@link PathBase.realpath} methods
+   * (and their sync and cached forms) return `undefined` for links that
+   * lead outside of the jail, so walks with `follow: true` do not follow
+   * them.  Entries outside of the jail can still be resolved, but are
+   * flagged by {@link PathBase.escapesJail}.
+   *
+   * @default false
+   */
+  jail?: boolean | URL | string
+}
+
+/**
+ * A copy of the entries cached by a {@link PathScurryBase}, as returned
+ * by {@link PathScurryBase#toSnapshot}, which can be serialized with
+ * `JSON.stringify()`, and restored with {@link PathScurryBase.fromSnapshot}.
+ *
+ * The format of the entries may change between versions, so they should
+ * be treated as opaque.
+ */
+export interface PathScurrySnapshot {
+  version: 1
+  /**
+   * the full path of the cwd of the PathScurry that it was taken from
+   */
+  cwd: string
+  entries: SnapshotEntry[]
+}
+
+/**
+ * A single entry in a {@link PathScurrySnapshot}.  Parents always come
+ * before their children, which refer to them by index.  Roots have a
+ * parent of `-1`.
+ *
+ * @internal
+ */
+export type SnapshotEntry = [
+  parent: number,
+  name: string,
+  type: number,
+  stats?: SnapshotStats | 0,
+  linkTarget?: number,
+  realpath?: number
+]
+
+/**
+ * The stat fields of a {@link SnapshotEntry}.  Fields that may be bigints
+ * are saved as decimal strings, and the nanosecond times are only
+ * present if they were known.
+ *
+ * @internal
+ */
+export type SnapshotStats = [
+  dev: string,
+  mode: number,
+  nlink: number,
+  uid: number,
+  gid: number,
+  rdev: number,
+  blksize: number,
+  ino: string,
+  size: number,
+  blocks: number,
+  atimeMs: number,
+  mtimeMs: number,
+  ctimeMs: number,
+  birthtimeMs: number,
+  ctimeNs?: string,
+  mtimeNs?: string
+]
+
+/**
+ * The base class for all PathScurry classes, providing the interface for path
+ * resolution and filesystem operations.
+ *
+ * Typically, you should *not* instantiate this class directly, but rather one
+ * of the platform-specific classes, or the exported {@link PathScurry} which
+ * defaults to the current platform.
+ */
+export abstract class PathScurryBase {
+  /**
+   * The root Path entry for the current working directory of this Scurry
+   */
+  root: PathBase
+  /**
+   * The string path for the root of this Scurry's current working directory
+   */
+  rootPath: string
+  /**
+   * A collection of all roots encountered, referenced by rootPath
+   */
+  roots: { [k: string]: PathBase }
+  /**
+   * The Path entry corresponding to this PathScurry's current working directory.
+   */
+  cwd: PathBase
+  #resolveCache: ResolveCache
+  #resolvePosixCache: ResolveCache
+  #children: ChildrenCache
+  /**
+   * Perform path comparisons case-insensitively.
+   *
+   * Defaults true on Darwin and Windows systems, false elsewhere.
+   */
+  nocase: boolean
+
+  /**
+   * The path separator used for parsing paths
+   *
+   * `'/'` on Posix systems, either `'/'` or `'\\'` on Windows
+   */
+  abstract sep: string | RegExp
+
+  #fs: FSValue
+  #context: PathContext = {}
+  #watcher?: PathWatcher
+
+  /**
+   * This class should not be instantiated directly.
+   *
+   * Use PathScurryWin32, PathScurryDarwin, PathScurryPosix, or PathScurry
+   *
+   * @internal
+   */
+  constructor(
+    cwd: URL | string = process.cwd(),
+    pathImpl: typeof win32 | typeof posix,
+    sep: string | RegExp,
+    {
+      nocase,
+      childrenCacheSize = 16 * 1024,
+      fs = defaultFS,
+      bigint = false,
+      jail = false,
+    }: PathScurryOpts = {}
+  ) {
+    this.#fs = fsFromOption(fs)
+    if (cwd instanceof URL || cwd.startsWith('file://')) {
+      cwd = fileURLToPath(cwd)
+    }
+    // resolve and split root, and then add to the store.
+    // this is the only time we call path.resolve()
+    const cwdPath = pathImpl.resolve(cwd)
+    this.roots = Object.create(null)
+    this.rootPath = this.parseRootPath(cwdPath)
+    this.#resolveCache = new ResolveCache()
+    this.#resolvePosixCache = new ResolveCache()
+    this.#children = new ChildrenCache(childrenCacheSize)
+
+    const split = cwdPath.substring(this.rootPath.length).split(sep)
+    // resolve('/') leaves '', splits to [''], we don't want that.
+    if (split.length === 1 && !split[0]) {
+      split.pop()
+    }
+    /* c8 ignore start */
+    if (nocase === undefined) {
+      throw new TypeError(
+        'must provide nocase setting to PathScurryBase ctor'
+      )
+    }
+    /* c8 ignore stop */
+    this.nocase = nocase
+    this.root = this.newRoot(this.#fs, bigint, this.#context)
+    this.roots[this.rootPath] = this.root
+    let prev: PathBase = this.root
+    let len = split.length - 1
+    const joinSep = pathImpl.sep
+    let abs = this.rootPath
+    let sawFirst = false
+    for (const part of split) {
+      const l = len--
+      prev = prev.child(part, {
+        relative: new Array(l).fill('..').join(joinSep),
+        relativePosix: new Array(l).fill('..').join('/'),
+        fullpath: (abs += (sawFirst ? '' : joinSep) + part),
+      })
+      sawFirst = true
+    }
+    this.cwd = prev
+    if (jail) {
+      this.#context.jail =
+        jail === true
+          ? this.cwd
+          : this.cwd.resolve(
+              jail instanceof URL || jail.startsWith('file://')
+                ? fileURLToPath(jail)
+                : jail
+            )
+    }
+  }
+
+  /**
+   * Get the depth of a provided path, string, or the cwd
+   */
+  depth(path: Path | string = this.cwd): number {
+    if (typeof path === 'string') {
+      path = this.cwd.resolve(path)
+    }
+    return path.depth()
+  }
+
+  /**
+   * Parse the root portion of a path string
+   *
+   * @internal
+   */
+  abstract parseRootPath(dir: string): string
+  /**
+   * create a new Path to use as root during construction.
+   *
+   * @internal
+   */
+  abstract newRoot(
+    fs: FSValue,
+    bigint?: boolean,
+    context?: PathContext
+  ): PathBase
+  /**
+   * Determine whether a given path string is absolute
+   */
+  abstract isAbsolute(p: string): boolean
+
+  /**
+   * Return the cache of child entries.  Exposed so subclasses can create
+   * child Path objects in a platform-specific way.
+   *
+   * @internal
+   */
+  childrenCache() {
+    return this.#children
+  }
+
+  /**
+   * Resolve one or more path strings to a resolved string
+   *
+   * Same interface as require('path').resolve.
+   *
+   * Much faster than path.resolve() when called multiple times for the same
+   * path, because the resolved Path objects are cached.  Much slower
+   * otherwise.
+   */
+  resolve(...paths: string[]): string {
+    // first figure out the minimum number of paths we have to test
+    // we always start at cwd, but any absolutes will bump the start
+    let r = ''
+    for (let i = paths.length - 1; i >= 0; i--) {
+      const p = paths[i]
+      if (!p || p === '.') continue
+      r = r ? `${p}/${r}` : p
+      if (this.isAbsolute(p)) {
+        break
+      }
+    }
+    const cached = this.#resolveCache.get(r)
+    if (cached !== undefined) {
+      return cached
+    }
+    const result = this.cwd.resolve(r).fullpath()
+    this.#resolveCache.set(r, result)
+    return result
+  }
+
+  /**
+   * Resolve one or more path strings to a resolved string, returning
+   * the posix path.  Identical to .resolve() on posix systems, but on
+   * windows will return a forward-slash separated UNC path.
+   *
+   * Same interface as require('path').resolve.
+   *
+   * Much faster than path.resolve() when called multiple times for the same
+   * path, because the resolved Path objects are cached.  Much slower
+   * otherwise.
+   */
+  resolvePosix(...paths: string[]): string {
+    // first figure out the minimum number of paths we have to test
+    // we always start at cwd, but any absolutes will bump the start
+    let r = ''
+    for (let i = paths.length - 1; i >= 0; i--) {
+      const p = paths[i]
+      if (!p || p === '.') continue
+      r = r ? `${p}/${r}` : p
+      if (this.isAbsolute(p)) {
+        break
+      }
+    }
+    const cached = this.#resolvePosixCache.get(r)
+    if (cached !== undefined) {
+      return cached
+    }
+    const result = this.cwd.resolve(r).fullpathPosix()
+    this.#resolvePosixCache.set(r, result)
+    return result
+  }
+
+  /**
+   * find the relative path from the cwd to the supplied path string or entry
+   */
+  relative(entry: PathBase | string = this.cwd): string {
+    if (typeof entry === 'string') {
+      entry = this.cwd.resolve(entry)
+    }
+    return entry.relative()
+  }
+
+  /**
+   * find the relative path from the cwd to the supplied path string or
+   * entry, using / as the path delimiter, even on Windows.
+   */
+  relativePosix(entry: PathBase | string = this.cwd): string {
+    if (typeof entry === 'string') {
+      entry = this.cwd.resolve(entry)
+    }
+    return entry.relativePosix()
+  }
+
+  /**
+   * Return the basename for the provided string or Path object
+   */
+  basename(entry: PathBase | string = this.cwd): string {
+    if (typeof entry === 'string') {
+      entry = this.cwd.resolve(entry)
+    }
+    return entry.name
+  }
+
+  /**
+   * Return the dirname for the provided string or Path object
+   */
+  dirname(entry: PathBase | string = this.cwd): string {
+    if (typeof entry === 'string') {
+      entry = this.cwd.resolve(entry)
+    }
+    return (entry.parent || entry).fullpath()
+  }
+
+  /**
+   * Return an array of known child entries.
+   *
+   * First argument may be either a string, or a Path object.
+   *
    * If the Path cannot or does not contain any children, then an empty array
    * is returned.
    *
-   * Results are cached, and thus may be out of date if the filesystem is
-   * mutated.
+   * Results are cached, and thus may be out of date if the filesystem is
+   * mutated.
+   *
+   * Unlike `fs.readdir()`, the `withFileTypes` option defaults to `true`. Set
+   * `{ withFileTypes: false }` to return strings.
+   */
+
+  readdir(): Promise<PathBase[]>
+  readdir(opts: { withFileTypes: true }): Promise<PathBase[]>
+  readdir(opts: { withFileTypes: false }): Promise<string[]>
+  readdir(opts: { withFileTypes: boolean }): Promise<PathBase[] | string[]>
+  readdir(entry: PathBase | string): Promise<PathBase[]>
+  readdir(
+    entry: PathBase | string,
+    opts: { withFileTypes: true }
+  ): Promise<PathBase[]>
+  readdir(
+    entry: PathBase | string,
+    opts: { withFileTypes: false }
+  ): Promise<string[]>
+  readdir(
+    entry: PathBase | string,
+    opts: { withFileTypes: boolean }
+  ): Promise<PathBase[] | string[]>
+  async readdir(
+    entry: PathBase | string | { withFileTypes: boolean } = this.cwd,
+    opts: { withFileTypes: boolean } = {
+      withFileTypes: true,
+    }
+  ): Promise<PathBase[] | string[]> {
+    if (typeof entry === 'string') {
+      entry = this.cwd.resolve(entry)
+    } else if (!(entry instanceof PathBase)) {
+      opts = entry
+      entry = this.cwd
+    }
+    const { withFileTypes } = opts
+    if (!entry.canReaddir()) {
+      return []
+    } else {
+      const p = await entry.readdir()
+      return withFileTypes ? p : p.map(e => e.name)
+    }
+  }
+
+  /**
+   * synchronous {@link PathScurryBase.readdir}
+   */
+  readdirSync(): PathBase[]
+  readdirSync(opts: { withFileTypes: true }): PathBase[]
+  readdirSync(opts: { withFileTypes: false }): string[]
+  readdirSync(opts: { withFileTypes: boolean }): PathBase[] | string[]
+  readdirSync(entry: PathBase | string): PathBase[]
+  readdirSync(
+    entry: PathBase | string,
+    opts: { withFileTypes: true }
+  ): PathBase[]
+  readdirSync(
+    entry: PathBase | string,
+    opts: { withFileTypes: false }
+  ): string[]
+  readdirSync(
+    entry: PathBase | string,
+    opts: { withFileTypes: boolean }
+  ): PathBase[] | string[]
+  readdirSync(
+    entry: PathBase | string | { withFileTypes: boolean } = this.cwd,
+    opts: { withFileTypes: boolean } = {
+      withFileTypes: true,
+    }
+  ): PathBase[] | string[] {
+    if (typeof entry === 'string') {
+      entry = this.cwd.resolve(entry)
+    } else if (!(entry instanceof PathBase)) {
+      opts = entry
+      entry = this.cwd
+    }
+    const { withFileTypes = true } = opts
+    if (!entry.canReaddir()) {
+      return []
+    } else if (withFileTypes) {
+      return entry.readdirSync()
+    } else {
+      return entry.readdirSync().map(e => e.name)
+    }
+  }
+
+  /**
+   * Call lstat() on the string or Path object, and update all known
+   * information that can be determined.
+   *
+   * Note that unlike `fs.lstat()`, the returned value does not contain some
+   * information, such as `mode`, `dev`, `nlink`, and `ino`.  If that
+   * information is required, you will need to call `fs.lstat` yourself.
+   *
+   * If the Path refers to a nonexistent file, or if the lstat call fails for
+   * any reason, `undefined` is returned.  Otherwise the updated Path object is
+   * returned.
+   *
+   * Results are cached, and thus may be out of date if the filesystem is
+   * mutated.
+   */
+  async lstat(
+    entry: string | PathBase = this.cwd
+  ): Promise<PathBase | undefined> {
+    if (typeof entry === 'string') {
+      entry = this.cwd.resolve(entry)
+    }
+    return entry.lstat()
+  }
+
+  /**
+   * synchronous {@link PathScurryBase.lstat}
+   */
+  lstatSync(entry: string | PathBase = this.cwd): PathBase | undefined {
+    if (typeof entry === 'string') {
+      entry = this.cwd.resolve(entry)
+    }
+    return entry.lstatSync()
+  }
+
+  /**
+   * Call stat() on the string or Path object, following symbolic links,
+   * and return the `fs.Stats` of the entry that it refers to.
+   *
+   * The result is cached separately from the link's own stat fields, so
+   * the Path object's `size`, `mtime`, and so on still describe the link
+   * itself after this is called.
+   *
+   * If the Path does not exist, is a dangling or looping link, or the stat
+   * call fails for any other reason, `undefined` is returned.
+   *
+   * Results are cached, and thus may be out of date if the filesystem is
+   * mutated.
+   */
+  async stat(
+    entry: string | PathBase = this.cwd
+  ): Promise<Stats | undefined> {
+    if (typeof entry === 'string') {
+      entry = this.cwd.resolve(entry)
+    }
+    return entry.stat()
+  }
+
+  /**
+   * synchronous {@link PathScurryBase.stat}
+   */
+  statSync(entry: string | PathBase = this.cwd): Stats | undefined {
+    if (typeof entry === 'string') {
+      entry = this.cwd.resolve(entry)
+    }
+    return entry.statSync()
+  }
+
+  /**
+   * Add up the disk usage of the string or Path object, and everything
+   * beneath it.  See {@link PathBase.du}.
+   *
+   * The totals for every directory are cached, so later calls for it or
+   * any of its subdirectories return right away, until they are
+   * invalidated.
+   */
+  async du(
+    entry: string | PathBase = this.cwd,
+    opts: DuOptions = {}
+  ): Promise<DiskUsage | undefined> {
+    if (typeof entry === 'string') {
+      entry = this.cwd.resolve(entry)
+    }
+    return entry.du(opts)
+  }
+
+  /**
+   * synchronous {@link PathScurryBase.du}
+   */
+  duSync(
+    entry: string | PathBase = this.cwd,
+    opts: DuOptions = {}
+  ): DiskUsage | undefined {
+    if (typeof entry === 'string') {
+      entry = this.cwd.resolve(entry)
+    }
+    return entry.duSync(opts)
+  }
+
+  /**
+   * Return all of the known hard links to the string or Path object,
+   * including itself.  See {@link PathBase.hardLinks}.
+   */
+  hardLinks(entry: string | PathBase = this.cwd): PathBase[] {
+    if (typeof entry === 'string') {
+      entry = this.cwd.resolve(entry)
+    }
+    return entry.hardLinks()
+  }
+
+  /**
+   * Create a directory at the string or Path object, and update the cache
+   * to match.  See {@link PathBase.mkdir}.
+   */
+  async mkdir(entry: string | PathBase): Promise<PathBase | undefined> {
+    if (typeof entry === 'string') {
+      entry = this.cwd.resolve(entry)
+    }
+    return entry.mkdir()
+  }
+
+  /**
+   * synchronous {@link PathScurryBase.mkdir}
+   */
+  mkdirSync(entry: string | PathBase): PathBase | undefined {
+    if (typeof entry === 'string') {
+      entry = this.cwd.resolve(entry)
+    }
+    return entry.mkdirSync()
+  }
+
+  /**
+   * Write the data to a file at the string or Path object, and update the
+   * cache to match.  See {@link PathBase.writeFile}.
+   */
+  async writeFile(
+    entry: string | PathBase,
+    data: string | Uint8Array
+  ): Promise<PathBase | undefined> {
+    if (typeof entry === 'string') {
+      entry = this.cwd.resolve(entry)
+    }
+    return entry.writeFile(data)
+  }
+
+  /**
+   * synchronous {@link PathScurryBase.writeFile}
+   */
+  writeFileSync(
+    entry: string | PathBase,
+    data: string | Uint8Array
+  ): PathBase | undefined {
+    if (typeof entry === 'string') {
+      entry = this.cwd.resolve(entry)
+    }
+    return entry.writeFileSync(data)
+  }
+
+  /**
+   * Remove the file or symbolic link at the string or Path object, and
+   * update the cache to match.  See {@link PathBase.unlink}.
+   */
+  async unlink(entry: string | PathBase): Promise<boolean> {
+    if (typeof entry === 'string') {
+      entry = this.cwd.resolve(entry)
+    }
+    return entry.unlink()
+  }
+
+  /**
+   * synchronous {@link PathScurryBase.unlink}
+   */
+  unlinkSync(entry: string | PathBase): boolean {
+    if (typeof entry === 'string') {
+      entry = this.cwd.resolve(entry)
+    }
+    return entry.unlinkSync()
+  }
+
+  /**
+   * Remove the empty directory at the string or Path object, and update
+   * the cache to match.  See {@link PathBase.rmdir}.
+   */
+  async rmdir(entry: string | PathBase): Promise<boolean> {
+    if (typeof entry === 'string') {
+      entry = this.cwd.resolve(entry)
+    }
+    return entry.rmdir()
+  }
+
+  /**
+   * synchronous {@link PathScurryBase.rmdir}
+   */
+  rmdirSync(entry: string | PathBase): boolean {
+    if (typeof entry === 'string') {
+      entry = this.cwd.resolve(entry)
+    }
+    return entry.rmdirSync()
+  }
+
+  /**
+   * Move the string or Path object to the destination, and update the
+   * cache to match.  Strings are resolved against the cwd.  See
+   * {@link PathBase.rename}.
+   */
+  async rename(
+    entry: string | PathBase,
+    dest: string | PathBase
+  ): Promise<PathBase | undefined> {
+    if (typeof entry === 'string') {
+      entry = this.cwd.resolve(entry)
+    }
+    if (typeof dest === 'string') {
+      dest = this.cwd.resolve(dest)
+    }
+    return entry.rename(dest)
+  }
+
+  /**
+   * synchronous {@link PathScurryBase.rename}
+   */
+  renameSync(
+    entry: string | PathBase,
+    dest: string | PathBase
+  ): PathBase | undefined {
+    if (typeof entry === 'string') {
+      entry = this.cwd.resolve(entry)
+    }
+    if (typeof dest === 'string') {
+      dest = this.cwd.resolve(dest)
+    }
+    return entry.renameSync(dest)
+  }
+
+  /**
+   * Create a symbolic link at the string or Path object, pointing at the
+   * target, in the same order as `fs.symlink(target, path)`, and update
+   * the cache to match.  See {@link PathBase.symlink}.
+   */
+  async symlink(
+    target: string,
+    entry: string | PathBase
+  ): Promise<PathBase | undefined> {
+    if (typeof entry === 'string') {
+      entry = this.cwd.resolve(entry)
+    }
+    return entry.symlink(target)
+  }
+
+  /**
+   * synchronous {@link PathScurryBase.symlink}
+   */
+  symlinkSync(
+    target: string,
+    entry: string | PathBase
+  ): PathBase | undefined {
+    if (typeof entry === 'string') {
+      entry = this.cwd.resolve(entry)
+    }
+    return entry.symlinkSync(target)
+  }
+
+  /**
+   * Copy the contents of the file at the string or Path object to the
+   * destination, and update the cache to match.  See
+   * {@link PathBase.copyFile}.
+   */
+  async copyFile(
+    entry: string | PathBase,
+    dest: string | PathBase
+  ): Promise<PathBase | undefined> {
+    if (typeof entry === 'string') {
+      entry = this.cwd.resolve(entry)
+    }
+    if (typeof dest === 'string') {
+      dest = this.cwd.resolve(dest)
+    }
+    return entry.copyFile(dest)
+  }
+
+  /**
+   * synchronous {@link PathScurryBase.copyFile}
+   */
+  copyFileSync(
+    entry: string | PathBase,
+    dest: string | PathBase
+  ): PathBase | undefined {
+    if (typeof entry === 'string') {
+      entry = this.cwd.resolve(entry)
+    }
+    if (typeof dest === 'string') {
+      dest = this.cwd.resolve(dest)
+    }
+    return entry.copyFileSync(dest)
+  }
+
+  /**
+   * Change the permissions of the string or Path object.  See
+   * {@link PathBase.chmod}.
+   */
+  async chmod(
+    entry: string | PathBase,
+    mode: number
+  ): Promise<PathBase | undefined> {
+    if (typeof entry === 'string') {
+      entry = this.cwd.resolve(entry)
+    }
+    return entry.chmod(mode)
+  }
+
+  /**
+   * synchronous {@link PathScurryBase.chmod}
+   */
+  chmodSync(entry: string | PathBase, mode: number): PathBase | undefined {
+    if (typeof entry === 'string') {
+      entry = this.cwd.resolve(entry)
+    }
+    return entry.chmodSync(mode)
+  }
+
+  /**
+   * Set the access and modification times of the string or Path object.
+   * See {@link PathBase.utimes}.
+   */
+  async utimes(
+    entry: string | PathBase,
+    atime: number | Date,
+    mtime: number | Date
+  ): Promise<PathBase | undefined> {
+    if (typeof entry === 'string') {
+      entry = this.cwd.resolve(entry)
+    }
+    return entry.utimes(atime, mtime)
+  }
+
+  /**
+   * synchronous {@link PathScurryBase.utimes}
+   */
+  utimesSync(
+    entry: string | PathBase,
+    atime: number | Date,
+    mtime: number | Date
+  ): PathBase | undefined {
+    if (typeof entry === 'string') {
+      entry = this.cwd.resolve(entry)
+    }
+    return entry.utimesSync(atime, mtime)
+  }
+
+  /**
+   * Copy the string or Path object to the destination, like `cp -R`, and
+   * update the cache to match.  The source is walked with the
+   * {@link WalkOptions} provided, directories are created as needed,
+   * files are copied, and symbolic links are created with the same
+   * targets, or copied from what they point to with the `dereference`
+   * option.
+   *
+   * Links to entries within the source point at the same entries within
+   * the destination, and links to anything else are made absolute.
+   * Existing files and links at the destination are replaced, and
+   * existing directories are copied into.
    *
-   * Unlike `fs.readdir()`, the `withFileTypes` option defaults to `true`. Set
-   * `{ withFileTypes: false }` to return strings.
+   * Returns the entries at the destination that were created or written,
+   * in the order that they were.  With the `sync` option, entries that are
+   * already up to date are left out.
+   *
+   * If anything cannot be copied, then the promise is rejected with the
+   * error.
    */
+  async copy(
+    src: string | PathBase,
+    dest: string | PathBase,
+    opts: CopyOptions = {}
+  ): Promise<PathBase[]> {
+    if (typeof src === 'string') {
+      src = this.cwd.resolve(src)
+    }
+    if (typeof dest === 'string') {
+      dest = this.cwd.resolve(dest)
+    }
+    const top = dest
+    const errorOf = (e: PathBase) =>
+      e.lastError() ??
+      cacheError(e, 'copy', 'ENOENT', 'no such file or directory')
+    const {
+      dereference = false,
+      sync = false,
+      preserve = true,
+      maxDepth = Infinity,
+      minDepth = 0,
+      concurrency = 64,
+    } = opts
+    const run = promiseLimiter(Math.max(1, concurrency))
+    const copied: PathBase[] = []
+    // the dirs at the destination, and the stats to give them once
+    // everything has been copied into them.
+    const dirs: [PathBase, CopyStats][] = []
+    const made = new Map<PathBase, Promise<void>>()
+    const mkdirp = (d: PathBase) => {
+      let p = made.get(d)
+      if (!p) {
+        made.set(d, (p = makeDir(d)))
+      }
+      return p
+    }
+    const makeDir = async (d: PathBase) => {
+      // the parent of the destination has to exist already
+      if (d !== top) await mkdirp(d.parent as PathBase)
+      if (!d.lstatCached()) await run(() => d.lstat())
+      if (d.isDirectory()) return
+      if (!(await run(() => d.mkdir()))) throw errorOf(d)
+      copied.push(d)
+    }
+    // whatever is at the destination, if anything
+    const existing = async (d: PathBase) => {
+      if (d !== top) await mkdirp(d.parent as PathBase)
+      return d.lstatCached() ?? (await run(() => d.lstat()))
+    }
+    const setStats = async (d: PathBase, st: CopyStats) => {
+      if (
+        !(await run(() => d.chmod(Number(st.mode) & 0o7777))) ||
+        !(await run(() =>
+          d.utimes(Number(st.atimeMs) / 1000, Number(st.mtimeMs) / 1000)
+        ))
+      ) {
+        throw errorOf(d)
+      }
+    }
 
-  readdir(): Promise<PathBase[]>
-  readdir(opts: { withFileTypes: true }): Promise<PathBase[]>
-  readdir(opts: { withFileTypes: false }): Promise<string[]>
-  readdir(opts: { withFileTypes: boolean }): Promise<PathBase[] | string[]>
-  readdir(entry: PathBase | string): Promise<PathBase[]>
-  readdir(
-    entry: PathBase | string,
-    opts: { withFileTypes: true }
-  ): Promise<PathBase[]>
-  readdir(
-    entry: PathBase | string,
-    opts: { withFileTypes: false }
-  ): Promise<string[]>
-  readdir(
-    entry: PathBase | string,
-    opts: { withFileTypes: boolean }
-  ): Promise<PathBase[] | string[]>
-  async readdir(
-    entry: PathBase | string | { withFileTypes: boolean } = this.cwd,
-    opts: { withFileTypes: boolean } = {
-      withFileTypes: true,
+    const copyFile = async (e: PathBase, d: PathBase, st: CopyStats) => {
+      const cur = await existing(d)
+      if (sync && cur?.isFile() && sameFile(cur, st)) return
+      if (cur?.isSymbolicLink() && !(await run(() => d.unlink()))) {
+        throw errorOf(d)
+      }
+      if (!(await run(() => e.copyFile(d)))) throw errorOf(e)
+      copied.push(d)
+      if (preserve) await setStats(d, st)
     }
-  ): Promise<PathBase[] | string[]> {
+
+    const copyLink = async (
+      e: PathBase,
+      d: PathBase,
+      from: PathBase,
+      to: PathBase
+    ) => {
+      const t = await run(() => e.readlink())
+      if (!t) {
+        // can't be read, or leads out of the jail
+        const er = e.lastError()
+        if (er) throw er
+        return
+      }
+      const target = isWithin(t, from)
+        ? pathBetween(
+            d.parent as PathBase,
+            to.resolve(pathBetween(from, t))
+          )
+        : t.fullpath()
+      const cur = await existing(d)
+      if (cur) {
+        const linked =
+          cur.isSymbolicLink() &&
+          (d.readlinkCached() ?? (await run(() => d.readlink())))
+        if (sync && linked === (d.parent as PathBase).resolve(target)) {
+          return
+        }
+        if (!(await run(() => d.unlink()))) throw errorOf(d)
+      }
+      if (!(await run(() => d.symlink(target)))) throw errorOf(d)
+      copied.push(d)
+    }
+
+    const copyEntry = async (
+      e: PathBase,
+      d: PathBase,
+      from: PathBase,
+      to: PathBase,
+      chain: PathBase[],
+      depth: number
+    ): Promise<void> => {
+      if (e.isDirectory()) {
+        await mkdirp(d)
+        dirs.push([d, e])
+      } else if (!e.isSymbolicLink()) {
+        await copyFile(e, d, e)
+      } else if (!dereference) {
+        await copyLink(e, d, from, to)
+      } else {
+        const st = await run(() => e.stat())
+        if (!st) throw errorOf(e)
+        if (!st.isDirectory()) return copyFile(e, d, st)
+        const r = (await run(() => e.realpath())) as PathBase
+        const p = (await run(() =>
+          (e.parent as PathBase).realpath()
+        )) as PathBase
+        if (chain.includes(r) || isWithin(p, r)) {
+          return copyLink(e, d, from, to)
+        }
+        await copyTree(r, d, [...chain, r], depth)
+      }
+    }
+
+    const copyTree = async (
+      from: PathBase,
+      to: PathBase,
+      chain: PathBase[],
+      depth: number
+    ) => {
+      const entries = (await this.walk(from, {
+        ...opts,
+        withFileTypes: true,
+        follow: false,
+        stat: true,
+        maxDepth: maxDepth - depth,
+        minDepth: minDepth - depth,
+      })) as PathBase[]
+      await Promise.all(
+        entries.map(e =>
+          copyEntry(
+            e,
+            to.resolve(pathBetween(from, e)),
+            from,
+            to,
+            chain,
+            depth + e.depth() - from.depth()
+          )
+        )
+      )
+    }
+
+    const start = src
+    if (!(await run(() => start.lstat()))) throw errorOf(start)
+    // a dangling link can still be copied, as long as it isn't followed
+    const real = await run(() => start.realpath())
+    await copyTree(start, top, real ? [real] : [], 0)
+    // set the modes and times of dirs from the bottom up, now that
+    // nothing else is going to be added to them.
+    if (preserve) {
+      for (const [d, st] of dirs.reverse()) await setStats(d, st)
+    }
+    return copied
+  }
+
+  /**
+   * Synchronous {@link PathScurryBase.copy}
+   */
+  copySync(
+    src: string | PathBase,
+    dest: string | PathBase,
+    opts: CopyOptions = {}
+  ): PathBase[] {
+    if (typeof src === 'string') {
+      src = this.cwd.resolve(src)
+    }
+    if (typeof dest === 'string') {
+      dest = this.cwd.resolve(dest)
+    }
+    const top = dest
+    const errorOf = (e: PathBase) =>
+      e.lastError() ??
+      cacheError(e, 'copy', 'ENOENT', 'no such file or directory')
+    const {
+      dereference = false,
+      sync = false,
+      preserve = true,
+      maxDepth = Infinity,
+      minDepth = 0,
+    } = opts
+    const copied: PathBase[] = []
+    const dirs: [PathBase, CopyStats][] = []
+    const made = new Set<PathBase>()
+    const mkdirp = (d: PathBase) => {
+      if (made.has(d)) return
+      made.add(d)
+      if (d !== top) mkdirp(d.parent as PathBase)
+      if (!d.lstatCached()) d.lstatSync()
+      if (d.isDirectory()) return
+      if (!d.mkdirSync()) throw errorOf(d)
+      copied.push(d)
+    }
+    const existing = (d: PathBase) => {
+      if (d !== top) mkdirp(d.parent as PathBase)
+      return d.lstatCached() ?? d.lstatSync()
+    }
+    const setStats = (d: PathBase, st: CopyStats) => {
+      if (
+        !d.chmodSync(Number(st.mode) & 0o7777) ||
+        !d.utimesSync(Number(st.atimeMs) / 1000, Number(st.mtimeMs) / 1000)
+      ) {
+        throw errorOf(d)
+      }
+    }
+
+    const copyFile = (e: PathBase, d: PathBase, st: CopyStats) => {
+      const cur = existing(d)
+      if (sync && cur?.isFile() && sameFile(cur, st)) return
+      if (cur?.isSymbolicLink() && !d.unlinkSync()) throw errorOf(d)
+      if (!e.copyFileSync(d)) throw errorOf(e)
+      copied.push(d)
+      if (preserve) setStats(d, st)
+    }
+
+    const copyLink = (
+      e: PathBase,
+      d: PathBase,
+      from: PathBase,
+      to: PathBase
+    ) => {
+      const t = e.readlinkSync()
+      if (!t) {
+        const er = e.lastError()
+        if (er) throw er
+        return
+      }
+      const target = isWithin(t, from)
+        ? pathBetween(
+            d.parent as PathBase,
+            to.resolve(pathBetween(from, t))
+          )
+        : t.fullpath()
+      const cur = existing(d)
+      if (cur) {
+        const linked =
+          cur.isSymbolicLink() && (d.readlinkCached() ?? d.readlinkSync())
+        if (sync && linked === (d.parent as PathBase).resolve(target)) {
+          return
+        }
+        if (!d.unlinkSync()) throw errorOf(d)
+      }
+      if (!d.symlinkSync(target)) throw errorOf(d)
+      copied.push(d)
+    }
+
+    const copyEntry = (
+      e: PathBase,
+      d: PathBase,
+      from: PathBase,
+      to: PathBase,
+      chain: PathBase[],
+      depth: number
+    ): void => {
+      if (e.isDirectory()) {
+        mkdirp(d)
+        dirs.push([d, e])
+      } else if (!e.isSymbolicLink()) {
+        copyFile(e, d, e)
+      } else if (!dereference) {
+        copyLink(e, d, from, to)
+      } else {
+        const st = e.statSync()
+        if (!st) throw errorOf(e)
+        if (!st.isDirectory()) return copyFile(e, d, st)
+        const r = e.realpathSync() as PathBase
+        const p = (e.parent as PathBase).realpathSync() as PathBase
+        if (chain.includes(r) || isWithin(p, r)) {
+          return copyLink(e, d, from, to)
+        }
+        copyTree(r, d, [...chain, r], depth)
+      }
+    }
+
+    const copyTree = (
+      from: PathBase,
+      to: PathBase,
+      chain: PathBase[],
+      depth: number
+    ) => {
+      const entries = this.walkSync(from, {
+        ...opts,
+        withFileTypes: true,
+        follow: false,
+        stat: true,
+        maxDepth: maxDepth - depth,
+        minDepth: minDepth - depth,
+      })
+      for (const e of entries) {
+        copyEntry(
+          e,
+          to.resolve(pathBetween(from, e)),
+          from,
+          to,
+          chain,
+          depth + e.depth() - from.depth()
+        )
+      }
+    }
+
+    if (!src.lstatSync()) throw errorOf(src)
+    const real = src.realpathSync()
+    copyTree(src, dest, real ? [real] : [], 0)
+    if (preserve) {
+      for (const [d, st] of dirs.reverse()) setStats(d, st)
+    }
+    return copied
+  }
+
+  /**
+   * Remove the string or Path object, like `fs.rm()`, and with the
+   * `recursive` option, everything beneath it, like `rm -r`.  Directories
+   * are read from the cache where their contents are known, and emptied
+   * from the bottom up, without following symbolic links.  Everything
+   * that is removed is known not to exist in the cache afterwards.
+   *
+   * Returns the entries that were removed, or with `dryRun`, that would
+   * have been, in the order that they were removed.  Entries that are
+   * already gone by the time they are removed are left out.
+   *
+   * If an entry cannot be removed, then the promise is rejected with the
+   * error, once any removals that are already under way have finished.
+   * See {@link RmOptions} for the errors that are retried.
+   */
+  async rm(
+    entry: string | PathBase = this.cwd,
+    opts: RmOptions = {}
+  ): Promise<PathBase[]> {
     if (typeof entry === 'string') {
       entry = this.cwd.resolve(entry)
-    } else if (!(entry instanceof PathBase)) {
-      opts = entry
-      entry = this.cwd
     }
-    const { withFileTypes } = opts
-    if (!entry.canReaddir()) {
-      return []
-    } else {
-      const p = await entry.readdir()
-      return withFileTypes ? p : p.map(e => e.name)
+    const {
+      recursive = false,
+      force = false,
+      filter,
+      dryRun = false,
+      concurrency = 64,
+      maxRetries = 10,
+      retryDelay = 100,
+    } = opts
+    const run = promiseLimiter(Math.max(1, concurrency))
+    const removed: PathBase[] = []
+    // already gone is as good as removed, except for the entry itself,
+    // unless the force option is set.
+    const gone = (e: PathBase) => {
+      if (!e.isENOENT() || (e === entry && !force)) {
+        throw (
+          e.lastError() ??
+          cacheError(e, 'rm', 'ENOENT', 'no such file or directory')
+        )
+      }
+      return true
+    }
+    // resolves true if the entry is gone, or false if it's kept
+    const remove = async (e: PathBase, tries = 0): Promise<boolean> => {
+      if (e.isUnknown() && !(await run(() => e.lstat()))) return gone(e)
+      // links are never followed, so there are no cycles to look out for
+      const dir = e.isDirectory()
+      if (dir && !recursive)
+        throw cacheError(e, 'rm', 'EISDIR', 'is a directory')
+      if (dir) {
+        const entries = await run(() => e.readdir())
+        if (!e.calledReaddir()) return gone(e)
+        // let the removals that are under way finish before failing, so
+        // that nothing is still being removed once the promise rejects
+        const settled = await Promise.allSettled(
+          entries.map(c => remove(c))
+        )
+        let kept = false
+        for (const r of settled) {
+          if (r.status === 'rejected') throw r.reason
+          if (!r.value) kept = true
+        }
+        if (kept) return false
+      }
+      if (filter && !(await filter(e))) return false
+      if (dryRun) {
+        removed.push(e)
+        return true
+      }
+      if (await run(() => (dir ? e.rmdir() : e.unlink()))) {
+        removed.push(e)
+        return true
+      }
+      if (tries >= maxRetries || !rmRetry(e, dir)) return gone(e)
+      await sleep(retryDelay * ++tries)
+      e.invalidate()
+      return remove(e, tries)
     }
+    await remove(entry)
+    return removed
   }
 
   /**
-   * synchronous {@link PathScurryBase.readdir}
+   * Synchronous {@link PathScurryBase.rm}
    */
-  readdirSync(): PathBase[]
-  readdirSync(opts: { withFileTypes: true }): PathBase[]
-  readdirSync(opts: { withFileTypes: false }): string[]
-  readdirSync(opts: { withFileTypes: boolean }): PathBase[] | string[]
-  readdirSync(entry: PathBase | string): PathBase[]
-  readdirSync(
-    entry: PathBase | string,
-    opts: { withFileTypes: true }
-  ): PathBase[]
-  readdirSync(
-    entry: PathBase | string,
-    opts: { withFileTypes: false }
-  ): string[]
-  readdirSync(
-    entry: PathBase | string,
-    opts: { withFileTypes: boolean }
-  ): PathBase[] | string[]
-  readdirSync(
-    entry: PathBase | string | { withFileTypes: boolean } = this.cwd,
-    opts: { withFileTypes: boolean } = {
-      withFileTypes: true,
+  rmSync(
+    entry: string | PathBase = this.cwd,
+    opts: RmOptions = {}
+  ): PathBase[] {
+    if (typeof entry === 'string') {
+      entry = this.cwd.resolve(entry)
     }
-  ): PathBase[] | string[] {
+    const {
+      recursive = false,
+      force = false,
+      dryRun = false,
+      maxRetries = 10,
+    } = opts
+    const filter = syncPredicate(opts.filter)
+    const removed: PathBase[] = []
+    const gone = (e: PathBase) => {
+      if (!e.isENOENT() || (e === entry && !force)) {
+        throw (
+          e.lastError() ??
+          cacheError(e, 'rm', 'ENOENT', 'no such file or directory')
+        )
+      }
+      return true
+    }
+    const remove = (e: PathBase, tries = 0): boolean => {
+      if (e.isUnknown() && !e.lstatSync()) return gone(e)
+      const dir = e.isDirectory()
+      if (dir && !recursive)
+        throw cacheError(e, 'rm', 'EISDIR', 'is a directory')
+      if (dir) {
+        const entries = e.readdirSync()
+        if (!e.calledReaddir()) return gone(e)
+        // remove them all, even if some are kept
+        const kept = entries.map(c => remove(c))
+        if (kept.includes(false)) return false
+      }
+      if (filter && !filter(e)) return false
+      if (dryRun) {
+        removed.push(e)
+        return true
+      }
+      if (dir ? e.rmdirSync() : e.unlinkSync()) {
+        removed.push(e)
+        return true
+      }
+      if (tries >= maxRetries || !rmRetry(e, dir)) return gone(e)
+      e.invalidate()
+      return remove(e, tries + 1)
+    }
+    remove(entry)
+    return removed
+  }
+
+  /**
+   * Compare two trees, and return what has been added, removed, modified,
+   * or changed into a different type of entry in the second one, sorted
+   * by path.  Each side may be a string or Path object, or a snapshot
+   * returned by {@link PathScurryBase#toSnapshot}, in which case its cwd
+   * is compared without reading the filesystem.
+   *
+   * Children are matched by name in the same way as
+   * {@link PathBase.isNamed}, so that names that only differ in case are
+   * the same entry when `nocase` is set.  The contents of directories
+   * that are only on one side are not listed separately, and neither are
+   * those of directories whose listing is not in a snapshot.
+   *
+   * Files are the same if their size and mtime are, or with the `hash`
+   * option, their contents.  Symbolic links are the same if they point at
+   * the same entry, relative to the root when it is within it.  Entries
+   * in a snapshot that were never lstat'ed are only compared by type.
+   *
+   * If the roots or any of the directories in them cannot be read, then
+   * the promise is rejected with the error.
+   */
+  async diff(
+    a: string | PathBase | PathScurrySnapshot,
+    b: string | PathBase | PathScurrySnapshot,
+    opts: DiffOptions = {}
+  ): Promise<DiffEntry[]> {
+    const { hash = false, concurrency = 64 } = opts
+    const run = promiseLimiter(Math.max(1, concurrency))
+    const [ra, liveA] = this.#diffRoot(a)
+    const [rb, liveB] = this.#diffRoot(b)
+    const found: DiffEntry[] = []
+    const key = (n: string) =>
+      this.nocase ? normalizeNocase(n) : normalize(n)
+
+    const stat = async (e: PathBase, live: boolean) => {
+      if (
+        live &&
+        (e.isENOENT() ||
+          (!e.lstatCached() && !(await run(() => e.lstat()))))
+      ) {
+        throw (
+          e.lastError() ??
+          cacheError(e, 'diff', 'ENOENT', 'no such file or directory')
+        )
+      }
+    }
+    const list = async (d: PathBase, live: boolean) => {
+      if (!live) return d.calledReaddir() ? d.readdirCached() : undefined
+      const entries = await run(() => d.readdir())
+      if (!d.calledReaddir()) {
+        throw (
+          d.lastError() ??
+          cacheError(d, 'diff', 'ENOTDIR', 'not a directory')
+        )
+      }
+      return entries
+    }
+    const target = async (e: PathBase, live: boolean, root: PathBase) =>
+      diffLinkTarget(
+        live ? await run(() => e.readlink()) : e.readlinkCached(),
+        root
+      )
+    const digest = (e: PathBase) =>
+      run(() => hashFile(this.#fs, e.fullpath()))
+
+    const same = async (x: PathBase, y: PathBase) => {
+      if (x.isSymbolicLink()) {
+        const tx = await target(x, liveA, ra)
+        const ty = await target(y, liveB, rb)
+        if (tx && ty) return tx === ty
+      }
+      if (x.mtimeMs === undefined || y.mtimeMs === undefined) return true
+      if (hash && liveA && liveB && x.isFile()) {
+        return x.size === y.size && (await digest(x)) === (await digest(y))
+      }
+      return sameFile(x, y)
+    }
+
+    const compare = async (x: PathBase, y: PathBase): Promise<void> => {
+      await Promise.all([stat(x, liveA), stat(y, liveB)])
+      const path = pathBetween(ra, x)
+      if (!sameKind(x, y)) {
+        found.push({ type: 'type-changed', path, a: x, b: y })
+      } else if (x.isDirectory()) {
+        const [lx, ly] = await Promise.all([
+          list(x, liveA),
+          list(y, liveB),
+        ])
+        if (!lx || !ly) return
+        const added = new Map(ly.map(c => [key(c.name), c]))
+        await Promise.all(
+          lx.map(c => {
+            const d = added.get(key(c.name))
+            if (!d) {
+              found.push({
+                type: 'removed',
+                path: pathBetween(ra, c),
+                a: c,
+              })
+              return
+            }
+            added.delete(key(c.name))
+            return compare(c, d)
+          })
+        )
+        for (const d of added.values()) {
+          found.push({ type: 'added', path: pathBetween(rb, d), b: d })
+        }
+      } else if (!(await same(x, y))) {
+        found.push({ type: 'modified', path, a: x, b: y })
+      }
+    }
+
+    await compare(ra, rb)
+    return found.sort((x, y) => compareStrings(x.path, y.path))
+  }
+
+  /**
+   * Synchronous {@link PathScurryBase.diff}
+   */
+  diffSync(
+    a: string | PathBase | PathScurrySnapshot,
+    b: string | PathBase | PathScurrySnapshot,
+    opts: DiffOptions = {}
+  ): DiffEntry[] {
+    const { hash = false } = opts
+    const [ra, liveA] = this.#diffRoot(a)
+    const [rb, liveB] = this.#diffRoot(b)
+    const found: DiffEntry[] = []
+    const key = (n: string) =>
+      this.nocase ? normalizeNocase(n) : normalize(n)
+
+    const stat = (e: PathBase, live: boolean) => {
+      if (live && (e.isENOENT() || (!e.lstatCached() && !e.lstatSync()))) {
+        throw (
+          e.lastError() ??
+          cacheError(e, 'diff', 'ENOENT', 'no such file or directory')
+        )
+      }
+    }
+    const list = (d: PathBase, live: boolean) => {
+      if (!live) return d.calledReaddir() ? d.readdirCached() : undefined
+      const entries = d.readdirSync()
+      if (!d.calledReaddir()) {
+        throw (
+          d.lastError() ??
+          cacheError(d, 'diff', 'ENOTDIR', 'not a directory')
+        )
+      }
+      return entries
+    }
+    const target = (e: PathBase, live: boolean, root: PathBase) =>
+      diffLinkTarget(live ? e.readlinkSync() : e.readlinkCached(), root)
+    const digest = (e: PathBase) => hashFileSync(this.#fs, e.fullpath())
+
+    const same = (x: PathBase, y: PathBase) => {
+      if (x.isSymbolicLink()) {
+        const tx = target(x, liveA, ra)
+        const ty = target(y, liveB, rb)
+        if (tx && ty) return tx === ty
+      }
+      if (x.mtimeMs === undefined || y.mtimeMs === undefined) return true
+      if (hash && liveA && liveB && x.isFile()) {
+        return x.size === y.size && digest(x) === digest(y)
+      }
+      return sameFile(x, y)
+    }
+
+    const compare = (x: PathBase, y: PathBase): void => {
+      stat(x, liveA)
+      stat(y, liveB)
+      const path = pathBetween(ra, x)
+      if (!sameKind(x, y)) {
+        found.push({ type: 'type-changed', path, a: x, b: y })
+      } else if (x.isDirectory()) {
+        const lx = list(x, liveA)
+        const ly = list(y, liveB)
+        if (!lx || !ly) return
+        const added = new Map(ly.map(c => [key(c.name), c]))
+        for (const c of lx) {
+          const d = added.get(key(c.name))
+          if (!d) {
+            found.push({ type: 'removed', path: pathBetween(ra, c), a: c })
+            continue
+          }
+          added.delete(key(c.name))
+          compare(c, d)
+        }
+        for (const d of added.values()) {
+          found.push({ type: 'added', path: pathBetween(rb, d), b: d })
+        }
+      } else if (!same(x, y)) {
+        found.push({ type: 'modified', path, a: x, b: y })
+      }
+    }
+
+    compare(ra, rb)
+    return found.sort((x, y) => compareStrings(x.path, y.path))
+  }
+
+  // the root to compare for one side of a diff, and whether it is on the
+  // filesystem, rather than restored from a snapshot.
+  #diffRoot(
+    side: string | PathBase | PathScurrySnapshot
+  ): [PathBase, boolean] {
+    if (typeof side === 'string') return [this.cwd.resolve(side), true]
+    if (side instanceof PathBase) return [side, true]
+    const ps = (this.constructor as typeof PathScurry).fromSnapshot(side, {
+      nocase: this.nocase,
+    })
+    return [ps.cwd, false]
+  }
+
+  /**
+   * Forget what has been read from the filesystem about the string or Path
+   * object, so that the next operation on it goes back to the filesystem.
+   * If `recursive` is set, then everything beneath it is forgotten as well.
+   *
+   * See {@link PathBase.invalidate}
+   */
+  invalidate(
+    entry: string | PathBase = this.cwd,
+    opts: { recursive?: boolean } = {}
+  ): void {
     if (typeof entry === 'string') {
       entry = this.cwd.resolve(entry)
-    } else if (!(entry instanceof PathBase)) {
-      opts = entry
-      entry = this.cwd
-    }
-    const { withFileTypes = true } = opts
-    if (!entry.canReaddir()) {
-      return []
-    } else if (withFileTypes) {
-      return entry.readdirSync()
-    } else {
-      return entry.readdirSync().map(e => e.name)
     }
+    entry.invalidate(opts)
   }
 
   /**
-   * Call lstat() on the string or Path object, and update all known
-   * information that can be determined.
-   *
-   * Note that unlike `fs.lstat()`, the returned value does not contain some
-   * information, such as `mode`, `dev`, `nlink`, and `ino`.  If that
-   * information is required, you will need to call `fs.lstat` yourself.
+   * Start watching every directory that has been, or will be, successfully
+   * read, using `fs.watch()`, and keep the cached entries up to date as
+   * they change.  Returns a {@link PathWatcher}, which emits `'add'`,
+   * `'change'`, and `'unlink'` events with the affected Path objects.
    *
-   * If the Path refers to a nonexistent file, or if the lstat call fails for
-   * any reason, `undefined` is returned.  Otherwise the updated Path object is
-   * returned.
+   * Only one watcher is active at a time, so if this is called again
+   * before the watcher is closed, then the same one is returned.
+   */
+  watch(opts: PathWatcherOptions = {}): PathWatcher {
+    if (this.#watcher && !this.#watcher.closed) return this.#watcher
+    return (this.#watcher = new PathWatcher(
+      this.#children,
+      this.#context,
+      (path, options, listener) => this.#fs.watch(path, options, listener),
+      opts
+    ))
+  }
+
+  /**
+   * Return a copy of everything that is known about the cached entries:
+   * their names, types, stat fields, link targets, and realpaths, and the
+   * listings of directories that have been read.  This can be saved with
+   * `JSON.stringify()`, and later restored with
+   * {@link PathScurryBase.fromSnapshot} to avoid having to read the same
+   * information from the filesystem again.
    *
-   * Results are cached, and thus may be out of date if the filesystem is
-   * mutated.
+   * Directories that have been read, but not lstat'ed, are lstat'ed so
+   * that their mtime is known.
    */
-  async lstat(
-    entry: string | PathBase = this.cwd
-  ): Promise<PathBase | undefined> {
-    if (typeof entry === 'string') {
-      entry = this.cwd.resolve(entry)
+  toSnapshot(): PathScurrySnapshot {
+    const entries: SnapshotEntry[] = []
+    const paths: [PathBase, number, boolean][] = []
+    const index = new Map<PathBase, number>()
+    const add = (p: PathBase, parent: number, listed: boolean) => {
+      index.set(p, paths.length)
+      paths.push([p, parent, listed])
     }
-    return entry.lstat()
+    // the same root can be found by more than one name on windows
+    for (const root of new Set(Object.values(this.roots))) {
+      add(root, -1, false)
+    }
+    // index everything first, so that links can refer forward
+    for (let i = 0; i < paths.length; i++) {
+      const [p] = paths[i]
+      const children = this.#children.peek(p)
+      if (!children) continue
+      for (const [n, c] of children.entries()) {
+        add(c, i, p.calledReaddir() && n < children.provisional)
+      }
+    }
+    for (const [p, parent, listed] of paths) {
+      entries.push(p[toSnapshotEntry](parent, listed, index))
+    }
+    return { version: 1, cwd: this.cwd.fullpath(), entries }
   }
 
   /**
-   * synchronous {@link PathScurryBase.lstat}
+   * Create a PathScurry whose cache is filled with the entries from a
+   * snapshot returned by {@link PathScurryBase#toSnapshot}.  The cwd is the
+   * same as that of the PathScurry that it was taken from.
+   *
+   * Restored directory listings are not trusted blindly.  The first time
+   * that one is read, the directory is lstat'ed, and the listing is only
+   * used if the directory's mtime has not changed.  Otherwise, it is read
+   * again.  Stat fields and realpaths are restored as they were.
    */
-  lstatSync(entry: string | PathBase = this.cwd): PathBase | undefined {
-    if (typeof entry === 'string') {
-      entry = this.cwd.resolve(entry)
+  static fromSnapshot<
+    T extends new (
+      cwd?: URL | string,
+      opts?: PathScurryOpts
+    ) => PathScurryBase
+  >(
+    this: T,
+    snapshot: PathScurrySnapshot,
+    opts: PathScurryOpts = {}
+  ): InstanceType<T> {
+    if (snapshot.version !== 1) {
+      throw new TypeError(
+        `unsupported snapshot version: ${snapshot.version}`
+      )
     }
-    return entry.lstatSync()
+    const ps = new this(snapshot.cwd, opts) as InstanceType<T>
+    const paths: PathBase[] = []
+    for (const [parent, name] of snapshot.entries) {
+      paths.push(
+        parent === -1 ? ps.cwd.resolve(name) : paths[parent].child(name)
+      )
+    }
+    for (const [i, entry] of snapshot.entries.entries()) {
+      paths[i][fromSnapshotEntry](entry, paths)
+    }
+    return ps
   }
 
   /**
@@ -2092,64 +5238,159 @@ export abstract class PathScurryBase {
       opts = entry
       entry = this.cwd
     }
+    // results come back in whatever order the readdirs complete, so
+    // the stream has to take care of putting them in order.
+    const { sort, traversal = 'breadth-first' } = opts
+    if (sort || traversal !== 'breadth-first') {
+      return this.stream(entry, opts).collect() as Promise<
+        PathBase[] | string[]
+      >
+    }
+    const failed = entryFailure(opts)
+    if (opts.oneFileSystem) {
+      opts = oneFileSystem(entry, opts, false, failed)
+    }
+    if (opts.dedupeHardLinks) {
+      opts = dedupeHardLinks(opts, false, failed)
+    }
     const {
       withFileTypes = true,
       follow = false,
       filter,
       walkFilter,
+      maxDepth = Infinity,
+      minDepth = 0,
+      signal,
+      concurrency = 64,
     } = opts
     const results: (string | PathBase)[] = []
-    if (!filter || filter(entry)) {
-      results.push(withFileTypes ? entry : entry.fullpath())
-    }
     const dirs = new Set<PathBase>()
+    const limit = limiter(Math.max(1, concurrency))
+    const stat = opts.stat ? statEntry(limit, failed) : undefined
+    const failure = readdirFailure(opts)
+    const match = walkMatcher(opts, this.nocase, entry, this.#fs)
     const walk = (
       dir: PathBase,
-      cb: (er?: NodeJS.ErrnoException) => void
+      depth: number,
+      cb: (er?: unknown) => void
     ) => {
+      // don't start any new readdirs once aborted
+      if (signal?.aborted) return cb()
       dirs.add(dir)
-      dir.readdirCB((er, entries) => {
-        /* c8 ignore start */
-        if (er) {
-          return cb(er)
-        }
-        /* c8 ignore stop */
-        let len = entries.length
-        if (!len) return cb()
-        const next = () => {
-          if (--len === 0) {
-            cb()
-          }
-        }
-        for (const e of entries) {
-          if (!filter || filter(e)) {
-            results.push(withFileTypes ? e : e.fullpath())
-          }
-          if (follow && e.isSymbolicLink()) {
-            e.realpath()
-              .then(r => (r?.isUnknown() ? r.lstat() : r))
-              .then(r =>
-                r?.shouldWalk(dirs, walkFilter) ? walk(r, next) : next()
+      limit(done =>
+        dir.readdirCB(
+          (_, entries) =>
+            match.load(dir, entries, () => {
+              done()
+              const er = failure(dir)
+              if (er) return cb(er)
+              if (!entries.length) return cb()
+              // depth of the entries in this dir, relative to the walk
+              // start
+              const d = depth + 1
+              const states = entries.map(e => match.child(dir, e))
+              // ask about all of the entries at once, so that async
+              // filters can run in parallel, but add them to the results
+              // in the order that they were read.
+              settle(
+                entries.map((e, i) =>
+                  thenStat(
+                    d >= minDepth &&
+                      states[i].included &&
+                      (!filter || filter(e)),
+                    e,
+                    stat
+                  )
+                ),
+                include => {
+                  let len = entries.length
+                  let ended = false
+                  const next = (er?: unknown) => {
+                    if (ended) return
+                    if (er) {
+                      ended = true
+                      cb(er)
+                    } else if (--len === 0) {
+                      cb()
+                    }
+                  }
+                  entries.forEach((e, i) => {
+                    if (include[i]) {
+                      results.push(withFileTypes ? e : e.fullpath())
+                    }
+                    if (d >= maxDepth || !states[i].walkable) {
+                      next()
+                    } else if (follow && e.isSymbolicLink()) {
+                      limit(done =>
+                        followLink(e, failed).then(
+                          r => {
+                            done()
+                            walkIf(r, d, states[i], next)
+                          },
+                          er => {
+                            done()
+                            next(er)
+                          }
+                        )
+                      )
+                    } else {
+                      walkIf(e, d, states[i], next)
+                    }
+                  })
+                },
+                cb
               )
-          } else {
-            if (e.shouldWalk(dirs, walkFilter)) {
-              walk(e, next)
-            } else {
-              next()
-            }
-          }
-        }
-      }, true) // zalgooooooo
+            }),
+          true // zalgooooooo
+        )
+      )
+    }
+    // claim the dir before asking the walkFilter, so that it can't be
+    // walked twice if it is reached by another path in the meantime.
+    const walkIf = (
+      dir: PathBase | undefined,
+      depth: number,
+      m: WalkState,
+      cb: (er?: unknown) => void
+    ) => {
+      if (!dir?.shouldWalk(dirs)) return cb()
+      dirs.add(dir)
+      match.enter(dir, m)
+      settle(
+        [!walkFilter || walkFilter(dir)],
+        ([ok]) => (ok ? walk(dir, depth, cb) : cb()),
+        cb
+      )
     }
 
     const start = entry
     return new Promise<PathBase[] | string[]>((res, rej) => {
-      walk(start, er => {
-        /* c8 ignore start */
-        if (er) return rej(er)
-        /* c8 ignore stop */
-        res(results as PathBase[] | string[])
-      })
+      if (signal?.aborted) return rej(signal.reason)
+      const onAbort = () => rej(signal?.reason)
+      settle(
+        [
+          thenStat(
+            minDepth <= 0 &&
+              match.start.included &&
+              (!filter || filter(start)),
+            start,
+            stat
+          ),
+        ],
+        ([ok]) => {
+          if (ok) results.push(withFileTypes ? start : start.fullpath())
+          if (maxDepth <= 0 || !match.start.walkable) {
+            return res(results as PathBase[] | string[])
+          }
+          signal?.addEventListener('abort', onAbort, { once: true })
+          walk(start, 0, er => {
+            signal?.removeEventListener('abort', onAbort)
+            if (er) return rej(er)
+            res(results as PathBase[] | string[])
+          })
+        },
+        rej
+      )
     })
   }
 
@@ -2190,30 +5431,73 @@ export abstract class PathScurryBase {
       opts = entry
       entry = this.cwd
     }
+    const { signal, traversal = 'breadth-first' } = opts
+    if (signal?.aborted) throw signal.reason
+    if (traversal === 'depth-first') {
+      const results = [...this.iterateSync(entry, opts)]
+      if (signal?.aborted) throw signal.reason
+      return results as string[] | PathBase[]
+    }
+    const failed = entryFailure(opts)
+    if (opts.oneFileSystem) {
+      opts = oneFileSystem(entry, opts, true, failed)
+    }
+    if (opts.dedupeHardLinks) {
+      opts = dedupeHardLinks(opts, true, failed)
+    }
     const {
       withFileTypes = true,
       follow = false,
-      filter,
-      walkFilter,
+      maxDepth = Infinity,
+      minDepth = 0,
+      sort,
     } = opts
+    const filter = syncPredicate(opts.filter)
+    const walkFilter = syncPredicate(opts.walkFilter)
+    const stat = opts.stat && statEntrySync(failed)
+    const compare = sort && getComparator(sort)
+    const match = walkMatcher(opts, this.nocase, entry, this.#fs)
     const results: (string | PathBase)[] = []
-    if (!filter || filter(entry)) {
+    if (
+      minDepth <= 0 &&
+      match.start.included &&
+      (!filter || filter(entry)) &&
+      (!stat || stat(entry))
+    ) {
       results.push(withFileTypes ? entry : entry.fullpath())
     }
-    const dirs = new Set<PathBase>([entry])
+    const failure = readdirFailure(opts)
+    const dirs = new Set<PathBase>(
+      maxDepth > 0 && match.start.walkable ? [entry] : []
+    )
+    const depths = new Map<PathBase, number>([[entry, 0]])
     for (const dir of dirs) {
+      if (signal?.aborted) throw signal.reason
       const entries = dir.readdirSync()
+      const er = failure(dir)
+      if (er) throw er
+      match.loadSync(dir, entries)
+      if (compare) entries.sort(compare)
+      const d = (depths.get(dir) as number) + 1
       for (const e of entries) {
-        if (!filter || filter(e)) {
+        const m = match.child(dir, e)
+        if (
+          d >= minDepth &&
+          m.included &&
+          (!filter || filter(e)) &&
+          (!stat || stat(e))
+        ) {
           results.push(withFileTypes ? e : e.fullpath())
         }
+        if (d >= maxDepth || !m.walkable) continue
         let r: PathBase | undefined = e
         if (e.isSymbolicLink()) {
-          if (!(follow && (r = e.realpathSync()))) continue
-          if (r.isUnknown()) r.lstatSync()
+          if (!(follow && (r = followLinkSync(e, failed)))) continue
         }
         if (r.shouldWalk(dirs, walkFilter)) {
           dirs.add(r)
+          depths.set(r, d)
+          match.enter(r, m)
         }
       }
     }
@@ -2275,7 +5559,21 @@ export abstract class PathScurryBase {
       options = entry
       entry = this.cwd
     }
-    return this.stream(entry, options)[Symbol.asyncIterator]()
+    const stream = this.stream(entry, options)
+    // the iterator only listens for errors while waiting for an entry, so
+    // hold on to any that happen in between, and it'll get them next time.
+    stream.on('error', () => {})
+    const it = stream[Symbol.asyncIterator]()
+    const { signal } = options
+    if (!signal) return it
+    // an aborted walk just ends the iteration, rather than throwing
+    return (async function* () {
+      try {
+        yield* it
+      } catch (er) {
+        if (!signal.aborted) throw er
+      }
+    })()
   }
 
   /**
@@ -2318,29 +5616,120 @@ export abstract class PathScurryBase {
       opts = entry
       entry = this.cwd
     }
+    const failed = entryFailure(opts)
+    if (opts.oneFileSystem) {
+      opts = oneFileSystem(entry, opts, true, failed)
+    }
+    if (opts.dedupeHardLinks) {
+      opts = dedupeHardLinks(opts, true, failed)
+    }
     const {
       withFileTypes = true,
       follow = false,
-      filter,
-      walkFilter,
+      maxDepth = Infinity,
+      minDepth = 0,
+      signal,
+      sort,
+      traversal = 'breadth-first',
     } = opts
-    if (!filter || filter(entry)) {
+    const filter = syncPredicate(opts.filter)
+    const walkFilter = syncPredicate(opts.walkFilter)
+    const stat = opts.stat && statEntrySync(failed)
+    if (signal?.aborted) return
+    const compare = sort && getComparator(sort)
+    const match = walkMatcher(opts, this.nocase, entry, this.#fs)
+    if (
+      minDepth <= 0 &&
+      match.start.included &&
+      (!filter || filter(entry)) &&
+      (!stat || stat(entry))
+    ) {
       yield withFileTypes ? entry : entry.fullpath()
     }
-    const dirs = new Set<PathBase>([entry])
+    const dirs = new Set<PathBase>(
+      maxDepth > 0 && match.start.walkable ? [entry] : []
+    )
+    const failure = readdirFailure(opts)
+
+    if (traversal === 'depth-first') {
+      // the listings of the dirs currently being worked through, so that
+      // each entry can be followed immediately by its own contents.
+      const stack: {
+        dir: PathBase
+        entries: PathBase[]
+        i: number
+        d: number
+      }[] = []
+      const read = (dir: PathBase, d: number) => {
+        const entries = dir.readdirSync()
+        const er = failure(dir)
+        if (er) throw er
+        match.loadSync(dir, entries)
+        if (compare) entries.sort(compare)
+        stack.push({ dir, entries, i: 0, d })
+      }
+      if (dirs.size) read(entry, 1)
+      while (stack.length) {
+        if (signal?.aborted) return
+        const top = stack[stack.length - 1]
+        const { dir, entries, d } = top
+        const e = entries[top.i++]
+        if (!e) {
+          stack.pop()
+          continue
+        }
+        const m = match.child(dir, e)
+        if (
+          d >= minDepth &&
+          m.included &&
+          (!filter || filter(e)) &&
+          (!stat || stat(e))
+        ) {
+          yield withFileTypes ? e : e.fullpath()
+        }
+        if (d >= maxDepth || !m.walkable) continue
+        let r: PathBase | undefined = e
+        if (e.isSymbolicLink()) {
+          if (!(follow && (r = followLinkSync(e, failed)))) continue
+        }
+        if (r.shouldWalk(dirs, walkFilter)) {
+          dirs.add(r)
+          match.enter(r, m)
+          read(r, d + 1)
+        }
+      }
+      return
+    }
+
+    const depths = new Map<PathBase, number>([[entry, 0]])
     for (const dir of dirs) {
+      if (signal?.aborted) return
       const entries = dir.readdirSync()
+      const er = failure(dir)
+      if (er) throw er
+      match.loadSync(dir, entries)
+      if (compare) entries.sort(compare)
+      const d = (depths.get(dir) as number) + 1
       for (const e of entries) {
-        if (!filter || filter(e)) {
+        const m = match.child(dir, e)
+        if (
+          d >= minDepth &&
+          m.included &&
+          (!filter || filter(e)) &&
+          (!stat || stat(e))
+        ) {
           yield withFileTypes ? e : e.fullpath()
+          if (signal?.aborted) return
         }
+        if (d >= maxDepth || !m.walkable) continue
         let r: PathBase | undefined = e
         if (e.isSymbolicLink()) {
-          if (!(follow && (r = e.realpathSync()))) continue
-          if (r.isUnknown()) r.lstatSync()
+          if (!(follow && (r = followLinkSync(e, failed)))) continue
         }
         if (r.shouldWalk(dirs, walkFilter)) {
           dirs.add(r)
+          depths.set(r, d)
+          match.enter(r, m)
         }
       }
     }
@@ -2381,89 +5770,247 @@ export abstract class PathScurryBase {
       opts = entry
       entry = this.cwd
     }
+    const failed = entryFailure(opts)
+    if (opts.oneFileSystem) {
+      opts = oneFileSystem(entry, opts, false, failed)
+    }
+    if (opts.dedupeHardLinks) {
+      opts = dedupeHardLinks(opts, false, failed)
+    }
     const {
       withFileTypes = true,
       follow = false,
       filter,
       walkFilter,
+      maxDepth = Infinity,
+      minDepth = 0,
+      signal,
+      sort,
+      traversal = 'breadth-first',
+      concurrency = 64,
     } = opts
-    const results = new Minipass<string | PathBase>({ objectMode: true })
-    if (!filter || filter(entry)) {
-      results.write(withFileTypes ? entry : entry.fullpath())
-    }
-    const dirs = new Set<PathBase>()
-    const queue: PathBase[] = [entry]
-    let processing = 0
-    const process = () => {
-      let paused = false
-      while (!paused) {
-        const dir = queue.shift()
-        if (!dir) {
-          if (processing === 0) results.end()
-          return
-        }
-
-        processing++
-        dirs.add(dir)
-
-        const onReaddir = (
-          er: null | NodeJS.ErrnoException,
-          entries: PathBase[],
-          didRealpaths: boolean = false
-        ) => {
-          /* c8 ignore start */
-          if (er) return results.emit('error', er)
-          /* c8 ignore stop */
-          if (follow && !didRealpaths) {
-            const promises: Promise<PathBase | undefined>[] = []
-            for (const e of entries) {
-              if (e.isSymbolicLink()) {
-                promises.push(
-                  e
-                    .realpath()
-                    .then((r: PathBase | undefined) =>
-                      r?.isUnknown() ? r.lstat() : r
+    const start = entry
+    const results = new Minipass<string | PathBase>({
+      objectMode: true,
+      signal,
+    })
+    const fail = (er: unknown) => results.emit('error', er)
+    const compare = sort && getComparator(sort)
+    // when the order matters, only one directory is read at a time
+    const ordered = !!sort
+    const dirs = new Set<PathBase>([start])
+    const limit = limiter(Math.max(1, concurrency))
+    const stat = opts.stat ? statEntry(limit, failed) : undefined
+    const failure = readdirFailure(opts)
+    const match = walkMatcher(opts, this.nocase, start, this.#fs)
+
+    // read the dir, and do the realpaths of any symlinks in it if we're
+    // going to need them to decide whether to walk them.  Then ask the
+    // filters about all of the entries, so that async ones can run in
+    // parallel, and call cb with their results in order.
+    const read = (
+      dir: PathBase,
+      d: number,
+      cb: (
+        entries: PathBase[],
+        include: boolean[],
+        walk: boolean[]
+      ) => void
+    ) => {
+      const test = (entries: PathBase[]) => {
+        const states = entries.map(e => match.child(dir, e))
+        settle(
+          entries.map((e, i) =>
+            thenStat(
+              d >= minDepth &&
+                states[i].included &&
+                (!filter || filter(e)),
+              e,
+              stat
+            )
+          ),
+          include =>
+            settle(
+              entries.map((e, i) => {
+                if (d >= maxDepth || !states[i].walkable) return false
+                const r = (follow && e.realpathCached()) || e
+                return r.shouldWalk(dirs) && (!walkFilter || walkFilter(r))
+              }),
+              walk => {
+                if (!results.aborted) cb(entries, include, walk)
+              },
+              fail
+            ),
+          fail
+        )
+      }
+      limit(done =>
+        dir.readdirCB(
+          (_, entries) =>
+            match.load(dir, entries, () => {
+              done()
+              if (results.aborted) return
+              const er = failure(dir)
+              if (er) return fail(er)
+              // don't sort in place, the array is shared with other
+              // callers
+              if (compare) entries = entries.slice().sort(compare)
+              if (!follow || d >= maxDepth) return test(entries)
+              const promises: Promise<PathBase | undefined>[] = []
+              for (const e of entries) {
+                if (e.isSymbolicLink()) {
+                  promises.push(
+                    new Promise((res, rej) =>
+                      limit(done =>
+                        followLink(e, failed).then(
+                          r => {
+                            done()
+                            res(r)
+                          },
+                          er => {
+                            done()
+                            rej(er)
+                          }
+                        )
+                      )
                     )
-                )
+                  )
+                }
               }
+              if (!promises.length) return test(entries)
+              Promise.all(promises).then(() => {
+                if (!results.aborted) test(entries)
+              }, fail)
+            }),
+          true
+        )
+      )
+    }
+
+    const depthFirst = () => {
+      // the listings of the dirs currently being worked through, so that
+      // each entry can be followed immediately by its own contents.
+      const stack: {
+        dir: PathBase
+        entries: PathBase[]
+        include: boolean[]
+        walk: boolean[]
+        i: number
+        d: number
+      }[] = []
+      const process = () => {
+        let paused = false
+        while (!paused && !results.aborted) {
+          const top = stack[stack.length - 1]
+          if (!top) return results.end()
+          const { dir, entries, include, walk, d } = top
+          const i = top.i++
+          const e = entries[i]
+          if (!e) {
+            stack.pop()
+            continue
+          }
+          if (include[i]) {
+            if (!results.write(withFileTypes ? e : e.fullpath())) {
+              paused = true
             }
-            if (promises.length) {
-              Promise.all(promises).then(() =>
-                onReaddir(null, entries, true)
-              )
-              return
-            }
+          }
+          const r = (follow && e.realpathCached()) || e
+          if (!walk[i] || dirs.has(r)) continue
+          dirs.add(r)
+          match.enter(r, match.child(dir, e))
+          // zalgo containment
+          let sync = true
+          let reading = true
+          read(r, d + 1, (entries, include, walk) => {
+            stack.push({ dir: r, entries, include, walk, i: 0, d: d + 1 })
+            reading = false
+            if (sync) return
+            if (paused && !results.flowing) results.once('drain', process)
+            else process()
+          })
+          sync = false
+          if (reading) return
+        }
+        if (paused && !results.flowing) results.once('drain', process)
+      }
+      if (maxDepth > 0 && match.start.walkable) {
+        read(start, 1, (entries, include, walk) => {
+          stack.push({ dir: start, entries, include, walk, i: 0, d: 1 })
+          process()
+        })
+      } else {
+        results.end()
+      }
+    }
+
+    const breadthFirst = () => {
+      const queue: PathBase[] =
+        maxDepth > 0 && match.start.walkable ? [start] : []
+      const depths = new Map<PathBase, number>([[start, 0]])
+      let processing = 0
+      const process = () => {
+        let paused = false
+        while (!paused && !results.aborted && !(ordered && processing)) {
+          const dir = queue.shift()
+          if (!dir) {
+            if (processing === 0) results.end()
+            return
           }
 
-          for (const e of entries) {
-            if (e && (!filter || filter(e))) {
-              if (!results.write(withFileTypes ? e : e.fullpath())) {
-                paused = true
+          processing++
+          const d = (depths.get(dir) as number) + 1
+
+          // zalgo containment
+          let sync = true
+          read(dir, d, (entries, include, walk) => {
+            for (const [i, e] of entries.entries()) {
+              if (include[i]) {
+                if (!results.write(withFileTypes ? e : e.fullpath())) {
+                  paused = true
+                }
               }
             }
-          }
 
-          processing--
-          for (const e of entries) {
-            const r = e.realpathCached() || e
-            if (r.shouldWalk(dirs, walkFilter)) {
-              queue.push(r)
+            processing--
+            for (const [i, e] of entries.entries()) {
+              const r = (follow && e.realpathCached()) || e
+              if (walk[i] && !dirs.has(r)) {
+                dirs.add(r)
+                queue.push(r)
+                depths.set(r, d)
+                match.enter(r, match.child(dir, e))
+              }
             }
-          }
-          if (paused && !results.flowing) {
-            results.once('drain', process)
-          } else if (!sync) {
-            process()
-          }
+            if (paused && !results.flowing) {
+              results.once('drain', process)
+            } else if (!sync) {
+              process()
+            }
+          })
+          sync = false
         }
-
-        // zalgo containment
-        let sync = true
-        dir.readdirCB(onReaddir, true)
-        sync = false
       }
+      process()
     }
-    process()
+
+    settle(
+      [
+        thenStat(
+          minDepth <= 0 &&
+            match.start.included &&
+            (!filter || filter(start)),
+          start,
+          stat
+        ),
+      ],
+      ([ok]) => {
+        if (ok) results.write(withFileTypes ? start : start.fullpath())
+        if (traversal === 'depth-first') depthFirst()
+        else breadthFirst()
+      },
+      fail
+    )
     return results as Minipass<string> | Minipass<PathBase>
   }
 
@@ -2505,53 +6052,131 @@ export abstract class PathScurryBase {
       opts = entry
       entry = this.cwd
     }
+    const { onError, signal, traversal = 'breadth-first' } = opts
+    const results = new Minipass<string | PathBase>({
+      objectMode: true,
+      signal,
+    })
+    // note the failures that are reported, so that they can be told apart
+    // from errors that should just be thrown, like those from the filters.
+    let reported: unknown
+    opts = {
+      ...opts,
+      onError: (er, e) => {
+        reported = er
+        onError?.(er, e)
+      },
+    }
+    const guard = (fn: () => void) => () => {
+      try {
+        fn()
+      } catch (er) {
+        if (er !== reported) throw er
+        results.emit('error', er)
+      }
+    }
+
+    if (traversal === 'depth-first') {
+      const it = this.iterateSync(entry, opts)
+      const process = guard(() => {
+        while (!results.aborted) {
+          const { done, value } = it.next()
+          if (done) return results.end()
+          if (!results.write(value) && !results.flowing) {
+            return results.once('drain', process)
+          }
+        }
+      })
+      process()
+      return results as Minipass<string> | Minipass<PathBase>
+    }
+
+    const failed = entryFailure(opts)
+    if (opts.oneFileSystem) {
+      opts = oneFileSystem(entry, opts, true, failed)
+    }
+    if (opts.dedupeHardLinks) {
+      opts = dedupeHardLinks(opts, true, failed)
+    }
     const {
       withFileTypes = true,
       follow = false,
-      filter,
-      walkFilter,
+      maxDepth = Infinity,
+      minDepth = 0,
+      sort,
     } = opts
-    const results = new Minipass<string | PathBase>({ objectMode: true })
-    const dirs = new Set<PathBase>()
-    if (!filter || filter(entry)) {
-      results.write(withFileTypes ? entry : entry.fullpath())
-    }
-    const queue: PathBase[] = [entry]
+    const filter = syncPredicate(opts.filter)
+    const walkFilter = syncPredicate(opts.walkFilter)
+    const stat = opts.stat && statEntrySync(failed)
+    const compare = sort && getComparator(sort)
+    const failure = readdirFailure(opts)
+    const match = walkMatcher(opts, this.nocase, entry, this.#fs)
+    const dirs = new Set<PathBase>([entry])
+    const queue: PathBase[] =
+      maxDepth > 0 && match.start.walkable ? [entry] : []
+    const depths = new Map<PathBase, number>([[entry, 0]])
     let processing = 0
-    const process = () => {
+    const walkQueue = () => {
       let paused = false
-      while (!paused) {
+      while (!paused && !results.aborted) {
         const dir = queue.shift()
         if (!dir) {
           if (processing === 0) results.end()
           return
         }
         processing++
-        dirs.add(dir)
+        const d = (depths.get(dir) as number) + 1
 
         const entries = dir.readdirSync()
-        for (const e of entries) {
-          if (!filter || filter(e)) {
+        const er = failure(dir)
+        if (er) return results.emit('error', er)
+        match.loadSync(dir, entries)
+        if (compare) entries.sort(compare)
+        const states = entries.map(e => match.child(dir, e))
+        for (const [i, e] of entries.entries()) {
+          if (
+            d >= minDepth &&
+            states[i].included &&
+            (!filter || filter(e)) &&
+            (!stat || stat(e))
+          ) {
             if (!results.write(withFileTypes ? e : e.fullpath())) {
               paused = true
             }
           }
         }
         processing--
-        for (const e of entries) {
-          let r: PathBase | undefined = e
-          if (e.isSymbolicLink()) {
-            if (!(follow && (r = e.realpathSync()))) continue
-            if (r.isUnknown()) r.lstatSync()
-          }
-          if (r.shouldWalk(dirs, walkFilter)) {
-            queue.push(r)
+        if (d < maxDepth) {
+          for (const [i, e] of entries.entries()) {
+            if (!states[i].walkable) continue
+            let r: PathBase | undefined = e
+            if (e.isSymbolicLink()) {
+              if (!(follow && (r = followLinkSync(e, failed)))) continue
+            }
+            if (r.shouldWalk(dirs, walkFilter)) {
+              dirs.add(r)
+              queue.push(r)
+              depths.set(r, d)
+              match.enter(r, states[i])
+            }
           }
         }
       }
       if (paused && !results.flowing) results.once('drain', process)
     }
-    process()
+    const process = guard(walkQueue)
+    const start = entry
+    guard(() => {
+      if (
+        minDepth <= 0 &&
+        match.start.included &&
+        (!filter || filter(start)) &&
+        (!stat || stat(start))
+      ) {
+        results.write(withFileTypes ? start : start.fullpath())
+      }
+      walkQueue()
+    })()
     return results as Minipass<string> | Minipass<PathBase>
   }
 
@@ -2587,6 +6212,50 @@ export interface WalkOptions {
    */
   follow?: boolean
 
+  /**
+   * Do not traverse directories that are on a different device (that is,
+   * with a different `dev`) than the starting entry of the walk, like
+   * `find -xdev`, so that walking `/` does not go into `/proc`, `/sys`, or
+   * other mounted filesystems.  The directories where other filesystems
+   * are mounted are still included in the results, but not read.
+   *
+   * Directories that have not already been the subject of a successful
+   * lstat are lstat'ed before being traversed.  With {@link follow}, the
+   * device of a symbolic link's target is checked.
+   *
+   * @default false
+   */
+  oneFileSystem?: boolean
+
+  /**
+   * Only emit one of the entries for each file, so that files with more
+   * than one hard link (that is, with the same `dev` and `ino`) are not
+   * counted more than once.  In synchronous walks, it is the first one
+   * found.  In async walks, entries are lstat'ed in parallel, so which of
+   * the links is emitted is not defined.
+   *
+   * Entries that pass all of the other filters are lstat'ed, unless they
+   * already have been, to find their `dev`, `ino`, and `nlink`.  Entries
+   * that can't be lstat'ed are always emitted.
+   *
+   * @default false
+   */
+  dedupeHardLinks?: boolean
+
+  /**
+   * Call `lstat()` on every entry before it is emitted, so that its
+   * `size`, `mtime`, `mode`, and other stat fields are filled in.  Entries
+   * that have already been the subject of a successful lstat are not
+   * stat'ed again, and entries that no longer exist are not emitted.
+   *
+   * Only entries that pass all of the other options and filters are
+   * stat'ed.  In the asynchronous walk methods, these count against the
+   * {@link concurrency} limit.
+   *
+   * @default false
+   */
+  stat?: boolean
+
   /**
    * Only return entries where the provided function returns true.
    *
@@ -2594,12 +6263,15 @@ export interface WalkOptions {
    * not pass the filter, though it will prevent directories themselves from
    * being included in the result set.  See {@link walkFilter}
    *
-   * Asynchronous functions are not supported here.
+   * May return a Promise when used with the asynchronous walk methods,
+   * in which case results are still returned in the same order as they
+   * would be if the function were synchronous.  Synchronous walks will
+   * throw a `TypeError` if a Promise is returned.
    *
    * By default, if no filter is provided, all entries and traversed
    * directories are included.
    */
-  filter?: (entry: PathBase) => boolean
+  filter?: WalkPredicate
 
   /**
    * Only traverse directories (and in the case of {@link follow} being set to
@@ -2610,11 +6282,184 @@ export interface WalkOptions {
    * even if they do not pass the supplied filter function.  See {@link filter}
    * to do that.
    *
-   * Asynchronous functions are not supported here.
+   * As with {@link filter}, this may return a Promise when used with the
+   * asynchronous walk methods, but not with the synchronous ones.
+   */
+  walkFilter?: WalkPredicate
+
+  /**
+   * Only return entries whose path, relative to the starting entry of the
+   * walk, matches one of these glob patterns.
+   *
+   * Patterns always use `/` as the path separator.  `*`, `?`, `[...]`,
+   * `{a,b}` and `**` are supported, and wildcards match names starting
+   * with a `.`.  Names are compared in the same way as
+   * {@link PathBase.isNamed}, so matching is unicode-normalized and, if
+   * the PathScurry is case-insensitive, case-insensitive.
+   *
+   * Directories that cannot contain any matching entries are not walked.
+   * Applied before the {@link filter} and {@link walkFilter} functions,
+   * which are only called for entries that pass.  Note that for symbolic
+   * links that are followed, it is the path through the link that is
+   * matched, not the path of its target.
+   */
+  include?: string | string[]
+
+  /**
+   * Do not return entries whose path, relative to the starting entry of the
+   * walk, matches any of these glob patterns, and do not walk directories
+   * that do.  Uses the same syntax as {@link include}.
+   */
+  exclude?: string | string[]
+
+  /**
+   * Read `.gitignore`-style files in each directory as the walk descends
+   * into it, and skip the entries that they ignore.  Ignored directories
+   * are not walked.  If set to `true`, then `.gitignore` and `.ignore`
+   * files are read, or an array of file names may be provided instead.
+   * When several are found in the same directory, the rules in the ones
+   * that come later in the list take precedence.
+   *
+   * Rules work as they do in git, including `!` negation, and rules in
+   * ignore files deeper in the tree override those above them.  Only
+   * ignore files within the walk are read, so rules in the parents of
+   * the starting entry do not apply, and the starting entry itself is
+   * never ignored.  An ignore file that cannot be read is treated as if
+   * it were empty.
+   *
+   * See {@link Ignores} for the details of the syntax.
+   */
+  ignoreFiles?: boolean | string[]
+
+  /**
+   * Do not traverse directories deeper than this many levels below the
+   * starting entry of the walk. The starting entry is at depth `0`, its
+   * children at depth `1`, and so on. Entries deeper than `maxDepth` are
+   * never read or returned.
+   *
+   * Note that this is measured from the walk's starting entry, not from the
+   * filesystem root, so it is *not* the same as {@link PathBase.depth}.
+   * @default Infinity
+   */
+  maxDepth?: number
+
+  /**
+   * Do not return entries shallower than this many levels below the starting
+   * entry of the walk. Directories above this depth are still traversed,
+   * they are just not included in the results.
+   *
+   * Measured the same way as {@link maxDepth}.
+   * @default 0
+   */
+  minDepth?: number
+
+  /**
+   * An AbortSignal which will cancel the walk when aborted.
+   *
+   * No new directories are read once the signal is aborted. The
+   * {@link PathScurryBase.walk} promise rejects with the signal's reason,
+   * and {@link PathScurryBase.walkSync} throws it. Streams are destroyed
+   * with the signal's reason as an `'error'` event. The
+   * {@link PathScurryBase.iterate} and {@link PathScurryBase.iterateSync}
+   * generators simply return.
    */
-  walkFilter?: (entry: PathBase) => boolean
+  signal?: AbortSignal
+
+  /**
+   * The maximum number of filesystem operations (`readdir`, and the
+   * `realpath` and `lstat` calls made when {@link follow} is set) that a
+   * single asynchronous walk will have in flight at any one time. The rest
+   * are queued until a slot frees up.
+   *
+   * Raising this may speed up walks on slow or networked filesystems, but
+   * setting it too high can result in `EMFILE` errors on very large trees.
+   *
+   * Has no effect on synchronous walks, which only ever perform one
+   * operation at a time.
+   * @default 64
+   */
+  concurrency?: number
+
+  /**
+   * Called with the error and the directory whenever a directory can't be
+   * read during the walk, for example because of an `EACCES` or `EIO`
+   * error.  The same error is available afterwards from
+   * {@link PathBase.lastError}.
+   *
+   * Also called with the entry when an lstat or realpath that the walk
+   * needs fails, such as a looping symlink (`ELOOP`) with {@link follow},
+   * or an entry that can't be lstat'ed for {@link stat}.  Entries and
+   * link targets that just don't exist are skipped without an error.
+   */
+  onError?: (er: NodeJS.ErrnoException, entry: PathBase) => void
+
+  /**
+   * What to do when a directory can't be read, or an entry can't be
+   * lstat'ed or resolved, as described for {@link onError}.
+   *
+   * `'ignore'` treats a directory as if it were empty, and an entry as if
+   * it didn't exist, and carries on with the rest of the walk.  `'throw'`
+   * ends the walk with the error, in the same way as an abort
+   * {@link signal}: the {@link PathScurryBase.walk} promise rejects,
+   * {@link PathScurryBase.walkSync} and the iterators throw, and streams
+   * emit it as an `'error'` event.
+   *
+   * {@link onError} is called either way.
+   * @default 'ignore'
+   */
+  errors?: 'ignore' | 'throw'
+
+  /**
+   * Sort the entries of each directory before they are returned or
+   * traversed, so that walks produce the same results in the same order
+   * every time, regardless of the order in which the filesystem returns
+   * entries or async operations complete.
+   *
+   * May be `'name'` to sort by {@link PathBase.name}, `'name-nocase'` to
+   * sort case-insensitively, or a comparison function as would be passed
+   * to `Array.prototype.sort()`.
+   *
+   * Note that this means {@link PathScurryBase.stream} and
+   * {@link PathScurryBase.iterate} will only read one directory at a time,
+   * and {@link PathScurryBase.walk} is implemented on top of the stream.
+   *
+   * By default, entries are not sorted.
+   */
+  sort?: WalkSort
+
+  /**
+   * The order in which to traverse the directory tree.
+   *
+   * `'breadth-first'` returns all of the entries in a directory, and
+   * then the contents of each of its subdirectories in turn.
+   *
+   * `'depth-first'` returns each entry followed immediately by its own
+   * contents, before moving on to its next sibling. Depth-first async
+   * walks only read one directory at a time.
+   *
+   * Note that the async {@link PathScurryBase.walk} and
+   * {@link PathScurryBase.stream} methods do not return entries in a
+   * stable order unless {@link sort} is also set, or traversal is
+   * `'depth-first'`.
+   * @default 'breadth-first'
+   */
+  traversal?: 'breadth-first' | 'depth-first'
 }
 
+/**
+ * A filter or walkFilter function, which may return a promise in async
+ * walks
+ */
+export type WalkPredicate = (entry: PathBase) => boolean | Promise<boolean>
+
+/**
+ * The {@link WalkOptions.sort} option
+ */
+export type WalkSort =
+  | 'name'
+  | 'name-nocase'
+  | ((a: PathBase, b: PathBase) => number)
+
 export type WalkOptionsWithFileTypesUnset = WalkOptions & {
   withFileTypes?: undefined
 }
@@ -2662,7 +6507,7 @@ export class PathScurryWin32 extends PathScurryBase {
   /**
    * @internal
    */
-  newRoot(fs: FSValue) {
+  newRoot(fs: FSValue, bigint?: boolean, context?: PathContext) {
     return new PathWin32(
       this.rootPath,
       IFDIR,
@@ -2670,7 +6515,7 @@ export class PathScurryWin32 extends PathScurryBase {
       this.roots,
       this.nocase,
       this.childrenCache(),
-      { fs }
+      { fs, bigint, context }
     )
   }
 
@@ -2715,7 +6560,7 @@ export class PathScurryPosix extends PathScurryBase {
   /**
    * @internal
    */
-  newRoot(fs: FSValue) {
+  newRoot(fs: FSValue, bigint?: boolean, context?: PathContext) {
     return new PathPosix(
       this.rootPath,
       IFDIR,
@@ -2723,7 +6568,7 @@ export class PathScurryPosix extends PathScurryBase {
       this.roots,
       this.nocase,
       this.childrenCache(),
-      { fs }
+      { fs, bigint, context }
     )
   }
 
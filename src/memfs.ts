@@ -0,0 +1,552 @@
+// An in-memory filesystem, for use as the fs option to a PathScurry.
+//
+// The tree is built once from a plain object, and after that is only
+// changed by the mkdir, writeFile, unlink, rmdir, rename, symlink,
+// copyFile, chmod, and utimes methods.  Every path is looked up from the
+// root, following symlinks along the way as the real filesystem would, so
+// that links to dirs, links to links, cycles, and links that go nowhere
+// all behave as they would on disk.  Stats are made up, but are the same
+// every time for the same tree, apart from the modes and times that have
+// been set.
+
+import type { Stats } from 'fs'
+import type { FSOption } from './index.js'
+
+/**
+ * A symbolic link in a {@link memfs} tree, created with
+ * {@link memfs.symlink}
+ */
+export class MemFSSymlink {
+  target: string
+  /**
+   * @internal
+   */
+  constructor(target: string) {
+    this.target = target
+  }
+}
+
+/**
+ * An entry in a {@link memfs} tree whose fs operations fail, created with
+ * {@link memfs.error}
+ */
+export class MemFSError {
+  code: string
+  entry?: MemFSEntry
+  /**
+   * @internal
+   */
+  constructor(code: string, entry?: MemFSEntry) {
+    this.code = code
+    this.entry = entry
+  }
+}
+
+/**
+ * An entry in a {@link memfs} tree.  Strings are the contents of files,
+ * and objects are directories.
+ */
+export type MemFSEntry = string | MemFSDir | MemFSSymlink | MemFSError
+
+/**
+ * A directory in a {@link memfs} tree, mapping names to entries
+ */
+export interface MemFSDir {
+  [name: string]: MemFSEntry
+}
+
+type NodeType = 'dir' | 'file' | 'symlink'
+
+interface Node {
+  type: NodeType
+  ino: number
+  children: Map<string, Node>
+  content: string
+  target: string
+  // permission bits, and times in ms
+  mode: number
+  atimeMs: number
+  mtimeMs: number
+  // the code that operations on this entry fail with, and whether an
+  // lstat of the entry itself still works.
+  error?: string
+  lstatOK?: boolean
+}
+
+const typeModes: { [k in NodeType]: number } = {
+  dir: 0o040000,
+  file: 0o100000,
+  symlink: 0o120000,
+}
+
+const defaultModes: { [k in NodeType]: number } = {
+  dir: 0o755,
+  file: 0o644,
+  symlink: 0o777,
+}
+
+class MemFSType {
+  #type: NodeType
+  constructor(type: NodeType) {
+    this.#type = type
+  }
+  isFile() {
+    return this.#type === 'file'
+  }
+  isDirectory() {
+    return this.#type === 'dir'
+  }
+  isSymbolicLink() {
+    return this.#type === 'symlink'
+  }
+  isBlockDevice() {
+    return false
+  }
+  isCharacterDevice() {
+    return false
+  }
+  isFIFO() {
+    return false
+  }
+  isSocket() {
+    return false
+  }
+}
+
+class MemFSDirent extends MemFSType {
+  name: string
+  constructor(name: string, type: NodeType) {
+    super(type)
+    this.name = name
+  }
+}
+
+class MemFSStats extends MemFSType implements Stats {
+  dev = 1
+  ino: number
+  mode: number
+  nlink = 1
+  uid = 0
+  gid = 0
+  rdev = 0
+  size: number
+  blksize = 4096
+  blocks: number
+  atimeMs: number
+  mtimeMs: number
+  ctimeMs = 0
+  birthtimeMs = 0
+  atime: Date
+  mtime: Date
+  ctime = new Date(0)
+  birthtime = new Date(0)
+  constructor(node: Node) {
+    super(node.type)
+    this.ino = node.ino
+    this.mode = typeModes[node.type] | node.mode
+    this.atimeMs = node.atimeMs
+    this.mtimeMs = node.mtimeMs
+    this.atime = new Date(node.atimeMs)
+    this.mtime = new Date(node.mtimeMs)
+    this.size =
+      node.type === 'dir'
+        ? 4096
+        : Buffer.byteLength(
+            node.type === 'file' ? node.content : node.target
+          )
+    this.blocks = Math.ceil(this.size / 512)
+  }
+}
+
+const fsError = (code: string, syscall: string, path: string) =>
+  Object.assign(new Error(`${code}: ${syscall} '${path}'`), {
+    code,
+    syscall,
+    path,
+  })
+
+// windows paths are treated as if they were on the only root there is
+const split = (path: string) =>
+  path
+    .replace(/\\/g, '/')
+    .replace(/^[a-z]:/i, '')
+    .split('/')
+
+const build = (entry: MemFSEntry, ino: { n: number }): Node => {
+  if (entry instanceof MemFSError) {
+    const node =
+      entry.entry === undefined ? build('', ino) : build(entry.entry, ino)
+    node.error = entry.code
+    node.lstatOK = entry.entry !== undefined
+    return node
+  }
+  const node: Node = {
+    type: 'file',
+    ino: ++ino.n,
+    children: new Map(),
+    content: '',
+    target: '',
+    mode: defaultModes.file,
+    atimeMs: 0,
+    mtimeMs: 0,
+  }
+  if (typeof entry === 'string') {
+    node.content = entry
+  } else if (entry instanceof MemFSSymlink) {
+    node.type = 'symlink'
+    node.mode = defaultModes.symlink
+    node.target = entry.target
+  } else {
+    node.type = 'dir'
+    node.mode = defaultModes.dir
+    for (const [name, child] of Object.entries(entry)) {
+      node.children.set(name, build(child, ino))
+    }
+  }
+  return node
+}
+
+/**
+ * Create an in-memory filesystem from a tree of plain objects, for use as
+ * the `fs` option to a PathScurry, so that it can be used without touching
+ * the real filesystem.
+ *
+ * Strings in the tree are files with that content, and objects are
+ * directories.  Symbolic links are created with {@link memfs.symlink}, and
+ * entries that fail with an error with {@link memfs.error}.  Paths are
+ * posix paths from the root of the tree.
+ *
+ * Watching is not supported, so `fs.watch()` calls fail with an `ENOSYS`
+ * error, and {@link PathScurryBase.watch} does not watch anything.
+ *
+ * ```ts
+ * const pw = new PathScurry('/', {
+ *   fs: memfs({
+ *     a: { b: 'file contents' },
+ *     link: memfs.symlink('a/b'),
+ *     loop: memfs.symlink('loop'),
+ *     secret: memfs.error('EACCES', {}),
+ *   }),
+ * })
+ * ```
+ */
+export const memfs = (tree: MemFSDir): FSOption => {
+  const ino = { n: 0 }
+  const root = build(tree, ino)
+
+  // find the entry at a path, following symlinks along the way, and at
+  // the end as well if follow is set.  Returns the entry and its path.
+  const lookup = (
+    path: string,
+    syscall: string,
+    follow: boolean
+  ): [Node, string] => {
+    let parts = split(path)
+    let stack: [string, Node][] = [['', root]]
+    let links = 0
+    while (parts.length) {
+      const name = parts.shift() as string
+      if (!name || name === '.') continue
+      if (name === '..') {
+        if (stack.length > 1) stack.pop()
+        continue
+      }
+      const node = stack[stack.length - 1][1].children.get(name)
+      if (!node) throw fsError('ENOENT', syscall, path)
+      const last = parts.every(p => !p || p === '.')
+      const resolve = node.type === 'symlink' && (follow || !last)
+      if (node.error && (!node.lstatOK || !last || resolve)) {
+        throw fsError(node.error, syscall, path)
+      }
+      if (resolve) {
+        if (++links > 40) throw fsError('ELOOP', syscall, path)
+        const target = split(node.target)
+        if (!target[0]) stack = [stack[0]]
+        parts = [...target, ...parts]
+        continue
+      }
+      if (!last && node.type !== 'dir') {
+        throw fsError('ENOTDIR', syscall, path)
+      }
+      stack.push([name, node])
+    }
+    const node = stack[stack.length - 1][1]
+    return [
+      node,
+      '/' +
+        stack
+          .slice(1)
+          .map(([name]) => name)
+          .join('/'),
+    ]
+  }
+
+  // fail if the entry can be lstat'ed, but not otherwise used
+  const usable = (node: Node, syscall: string, path: string) => {
+    if (node.error) throw fsError(node.error, syscall, path)
+    return node
+  }
+
+  // find the dir that an entry is to be created in or removed from, and
+  // the name of the entry in it.  The entry itself is not followed.
+  const parentOf = (path: string, syscall: string): [Node, string] => {
+    const parts = split(path).filter(p => p && p !== '.')
+    const name = parts.pop()
+    if (!name || name === '..') throw fsError('EBUSY', syscall, path)
+    const dir = usable(
+      lookup(parts.join('/'), syscall, true)[0],
+      syscall,
+      path
+    )
+    if (dir.type !== 'dir') throw fsError('ENOTDIR', syscall, path)
+    return [dir, name]
+  }
+
+  const mkdirSync = (path: string) => {
+    const [dir, name] = parentOf(path, 'mkdir')
+    if (dir.children.has(name)) throw fsError('EEXIST', 'mkdir', path)
+    dir.children.set(name, build({}, ino))
+  }
+
+  const write = (path: string, content: string, syscall: string) => {
+    const [dir, name] = parentOf(path, syscall)
+    if (!dir.children.has(name)) {
+      const node = build(content, ino)
+      dir.children.set(name, node)
+      return node
+    }
+    // existing files are written through links, as they are on disk
+    const node = usable(lookup(path, syscall, true)[0], syscall, path)
+    if (node.type === 'dir') throw fsError('EISDIR', syscall, path)
+    node.content = content
+    return node
+  }
+
+  const writeFileSync = (path: string, data: string | Uint8Array) => {
+    write(path, Buffer.from(data).toString(), 'open')
+  }
+
+  const unlinkSync = (path: string) => {
+    const [dir, name] = parentOf(path, 'unlink')
+    const node = dir.children.get(name)
+    if (!node) throw fsError('ENOENT', 'unlink', path)
+    if (node.type === 'dir') throw fsError('EISDIR', 'unlink', path)
+    dir.children.delete(name)
+  }
+
+  const rmdirSync = (path: string) => {
+    const [dir, name] = parentOf(path, 'rmdir')
+    const node = dir.children.get(name)
+    if (!node) throw fsError('ENOENT', 'rmdir', path)
+    if (node.type !== 'dir') throw fsError('ENOTDIR', 'rmdir', path)
+    if (node.children.size) throw fsError('ENOTEMPTY', 'rmdir', path)
+    dir.children.delete(name)
+  }
+
+  const contains = (dir: Node, node: Node): boolean =>
+    dir === node || [...dir.children.values()].some(c => contains(c, node))
+
+  const renameSync = (from: string, to: string) => {
+    const [fromDir, fromName] = parentOf(from, 'rename')
+    const node = fromDir.children.get(fromName)
+    if (!node) throw fsError('ENOENT', 'rename', from)
+    const [toDir, toName] = parentOf(to, 'rename')
+    const existing = toDir.children.get(toName)
+    if (existing === node) return
+    if (node.type === 'dir') {
+      if (contains(node, toDir)) throw fsError('EINVAL', 'rename', from)
+      if (existing && existing.type !== 'dir') {
+        throw fsError('ENOTDIR', 'rename', from)
+      }
+      if (existing?.children.size) {
+        throw fsError('ENOTEMPTY', 'rename', from)
+      }
+    } else if (existing?.type === 'dir') {
+      throw fsError('EISDIR', 'rename', from)
+    }
+    fromDir.children.delete(fromName)
+    toDir.children.set(toName, node)
+  }
+
+  const symlinkSync = (target: string, path: string) => {
+    const [dir, name] = parentOf(path, 'symlink')
+    if (dir.children.has(name)) throw fsError('EEXIST', 'symlink', path)
+    dir.children.set(name, build(new MemFSSymlink(target), ino))
+  }
+
+  // the copy gets the mode of the original, as it does with libuv
+  const copyFileSync = (src: string, dest: string) => {
+    const from = usable(lookup(src, 'copyfile', true)[0], 'copyfile', src)
+    if (from.type === 'dir') throw fsError('EISDIR', 'copyfile', src)
+    write(dest, from.content, 'copyfile').mode = from.mode
+  }
+
+  const chmodSync = (path: string, mode: number) => {
+    const node = usable(lookup(path, 'chmod', true)[0], 'chmod', path)
+    node.mode = mode & 0o7777
+  }
+
+  // numbers are in seconds, as they are for fs.utimes()
+  const ms = (t: number | Date) =>
+    typeof t === 'number' ? t * 1000 : t.getTime()
+  const utimesSync = (
+    path: string,
+    atime: number | Date,
+    mtime: number | Date
+  ) => {
+    const node = usable(lookup(path, 'utime', true)[0], 'utime', path)
+    node.atimeMs = ms(atime)
+    node.mtimeMs = ms(mtime)
+  }
+
+  const lstatSync = (path: string) =>
+    new MemFSStats(lookup(path, 'lstat', false)[0])
+
+  const statSync = (path: string) =>
+    new MemFSStats(lookup(path, 'stat', true)[0])
+
+  const readdirSync = (path: string) => {
+    const node = usable(lookup(path, 'scandir', true)[0], 'scandir', path)
+    if (node.type !== 'dir') throw fsError('ENOTDIR', 'scandir', path)
+    return [...node.children].map(
+      ([name, child]) => new MemFSDirent(name, child.type)
+    )
+  }
+
+  const readFileSync = (path: string) => {
+    const node = usable(lookup(path, 'open', true)[0], 'open', path)
+    if (node.type === 'dir') throw fsError('EISDIR', 'read', path)
+    return node.content
+  }
+
+  // the contents of open files, by descriptor, as they were when the file
+  // was opened
+  const fds = new Map<number, Buffer>()
+  let nextFd = 3
+
+  const openSync = (path: string) => {
+    const content = Buffer.from(readFileSync(path))
+    const fd = nextFd++
+    fds.set(fd, content)
+    return fd
+  }
+
+  const contentOf = (fd: number, syscall: string) => {
+    const content = fds.get(fd)
+    if (!content) throw fsError('EBADF', syscall, String(fd))
+    return content
+  }
+
+  const readSync = (
+    fd: number,
+    buffer: Buffer,
+    offset: number,
+    length: number,
+    position: number
+  ) => {
+    const content = contentOf(fd, 'read')
+    const start = Math.min(position, content.length)
+    return content.copy(buffer, offset, start, start + length)
+  }
+
+  const closeSync = (fd: number) => {
+    contentOf(fd, 'close')
+    fds.delete(fd)
+  }
+
+  const readlinkSync = (path: string) => {
+    const node = usable(
+      lookup(path, 'readlink', false)[0],
+      'readlink',
+      path
+    )
+    if (node.type !== 'symlink') throw fsError('EINVAL', 'readlink', path)
+    return node.target
+  }
+
+  const realpathSync = (path: string) => {
+    const [node, real] = lookup(path, 'realpath', true)
+    usable(node, 'realpath', path)
+    return real
+  }
+
+  return {
+    lstatSync,
+    readdir: (path, _, cb) =>
+      queueMicrotask(() => {
+        let entries: MemFSDirent[]
+        try {
+          entries = readdirSync(path)
+        } catch (er) {
+          return cb(er as NodeJS.ErrnoException)
+        }
+        cb(null, entries)
+      }),
+    readdirSync,
+    readFileSync,
+    readlinkSync,
+    realpathSync,
+    statSync,
+    mkdirSync,
+    writeFileSync,
+    unlinkSync,
+    rmdirSync,
+    renameSync,
+    symlinkSync,
+    copyFileSync,
+    chmodSync,
+    utimesSync,
+    openSync,
+    readSync,
+    closeSync,
+    // there are no real directories to watch
+    watch: path => {
+      throw fsError('ENOSYS', 'watch', path)
+    },
+    promises: {
+      lstat: async path => lstatSync(path),
+      readdir: async path => readdirSync(path),
+      readFile: async path => readFileSync(path),
+      readlink: async path => readlinkSync(path),
+      realpath: async path => realpathSync(path),
+      stat: async path => statSync(path),
+      mkdir: async path => mkdirSync(path),
+      writeFile: async (path, data) => writeFileSync(path, data),
+      unlink: async path => unlinkSync(path),
+      rmdir: async path => rmdirSync(path),
+      rename: async (from, to) => renameSync(from, to),
+      symlink: async (target, path) => symlinkSync(target, path),
+      copyFile: async (src, dest) => copyFileSync(src, dest),
+      chmod: async (path, mode) => chmodSync(path, mode),
+      utimes: async (path, atime, mtime) => utimesSync(path, atime, mtime),
+      open: async path => {
+        const fd = openSync(path)
+        return {
+          read: async (buffer, offset, length, position) => ({
+            bytesRead: readSync(fd, buffer, offset, length, position),
+          }),
+          close: async () => closeSync(fd),
+        }
+      },
+    },
+  }
+}
+
+/**
+ * A symbolic link in a {@link memfs} tree, pointing at the target path,
+ * which is relative to the directory that the link is in, unless it is
+ * absolute.
+ */
+memfs.symlink = (target: string) => new MemFSSymlink(target)
+
+/**
+ * An entry in a {@link memfs} tree whose fs operations fail with the
+ * error code.
+ *
+ * If the entry is provided, then lstat works as it would for that entry,
+ * but reading it, or anything beneath it, fails.  For example,
+ * `memfs.error('EACCES', { a: '' })` is a directory that can't be read.
+ * Otherwise, even lstat fails.
+ */
+memfs.error = (code: string, entry?: MemFSEntry) =>
+  new MemFSError(code, entry)
@@ -0,0 +1,270 @@
+// Glob pattern matching for the WalkOptions include and exclude options.
+//
+// Patterns are compiled once, into a list of path segments, and matched
+// against walk entries one segment at a time, as the walk descends into
+// each directory.  That way, a directory can be pruned as soon as it's
+// clear that nothing inside it could possibly match.
+
+import type { PathBase } from './index.js'
+
+const GLOBSTAR = Symbol('globstar')
+type Segment = string | RegExp | typeof GLOBSTAR
+
+// a position within one of the compiled patterns, as [pattern, segment]
+type Position = [number, number]
+
+// normalize unicode names the same way that PathBase.isNamed does
+export const normalize = (s: string, nocase: boolean) =>
+  nocase ? s.toLowerCase().normalize('NFKD') : s.normalize('NFKD')
+
+// expand the first top-level {a,b} set in the pattern, and then the rest
+const expandBraces = (pattern: string): string[] => {
+  let start = -1
+  let depth = 0
+  const commas: number[] = []
+  for (let i = 0; i < pattern.length; i++) {
+    const c = pattern.charAt(i)
+    if (c === '\\') {
+      i++
+    } else if (c === '{') {
+      if (depth++ === 0) start = i
+    } else if (c === '}' && depth > 0) {
+      if (--depth === 0) {
+        if (!commas.length) {
+          // not a set, just a literal {...}
+          start = -1
+          continue
+        }
+        const pre = pattern.substring(0, start)
+        const post = pattern.substring(i + 1)
+        const parts: string[] = []
+        let last = start + 1
+        for (const comma of commas) {
+          parts.push(pattern.substring(last, comma))
+          last = comma + 1
+        }
+        parts.push(pattern.substring(last, i))
+        return parts.flatMap(p => expandBraces(pre + p + post))
+      }
+    } else if (c === ',' && depth === 1) {
+      commas.push(i)
+    }
+  }
+  return [pattern]
+}
+
+const escapeRegExp = (s: string) =>
+  s.replace(/[\\^$.*+?()[\]{}|/]/g, '\\$&')
+
+// convert a single path segment of a glob pattern to the source of a
+// regular expression.  Wildcards never match a `/`.  If the segment has
+// no wildcards in it, then the unescaped literal string is returned too.
+export const globSegment = (
+  seg: string
+): { source: string; literal?: string } => {
+  let source = ''
+  let literal = ''
+  let magic = false
+  for (let i = 0; i < seg.length; i++) {
+    const c = seg.charAt(i)
+    if (c === '\\' && i < seg.length - 1) {
+      const n = seg.charAt(++i)
+      literal += n
+      source += escapeRegExp(n)
+    } else if (c === '*') {
+      magic = true
+      source += '[^/]*'
+    } else if (c === '?') {
+      magic = true
+      source += '[^/]'
+    } else if (c === '[' && seg.indexOf(']', i + 2) !== -1) {
+      magic = true
+      const end = seg.indexOf(']', i + 2)
+      let cls = seg.substring(i + 1, end)
+      const negate = cls.startsWith('!') || cls.startsWith('^')
+      if (negate) cls = cls.substring(1)
+      source += `[${negate ? '^/' : ''}${cls.replace(/[\\\]^]/g, '\\$&')}]`
+      i = end
+    } else {
+      literal += c
+      source += escapeRegExp(c)
+    }
+  }
+  return magic ? { source } : { source, literal }
+}
+
+// compile a single path segment of a pattern
+const compileSegment = (seg: string, nocase: boolean): Segment => {
+  if (seg === '**') return GLOBSTAR
+  const { source, literal } = globSegment(seg)
+  return literal === undefined
+    ? new RegExp(`^${normalize(source, nocase)}$`, 'u')
+    : normalize(literal, nocase)
+}
+
+const compile = (pattern: string, nocase: boolean): Segment[] => {
+  const segs: Segment[] = []
+  for (const s of pattern.split('/')) {
+    // skip empty and ./ segments, and collapse **/** to **
+    if (!s || s === '.') continue
+    const seg = compileSegment(s, nocase)
+    if (seg === GLOBSTAR && segs[segs.length - 1] === GLOBSTAR) continue
+    segs.push(seg)
+  }
+  return segs
+}
+
+const compileAll = (
+  patterns: string | string[] | undefined,
+  nocase: boolean
+): Segment[][] =>
+  (typeof patterns === 'string' ? [patterns] : patterns || [])
+    .flatMap(expandBraces)
+    .map(p => compile(p, nocase))
+
+/**
+ * The result of matching an entry against a {@link Pattern}.
+ */
+export interface MatchState {
+  /**
+   * True if the entry is matched by the include patterns (or there are
+   * none), and not matched by any of the exclude patterns.
+   */
+  included: boolean
+  /**
+   * True if it's possible for anything within the entry to be included,
+   * so it is worth walking if it is a directory.
+   */
+  walkable: boolean
+  /** @internal */
+  include?: Position[]
+  /** @internal */
+  exclude: Position[]
+}
+
+// the state of everything within an entry that can't be walked
+const NONE: MatchState = {
+  included: false,
+  walkable: false,
+  include: [],
+  exclude: [],
+}
+
+/**
+ * A compiled set of include and exclude glob patterns, as provided to the
+ * `include` and `exclude` walk options.
+ *
+ * Patterns are relative to the starting entry of the walk, and always use
+ * `/` as the path separator, even on Windows.  `*`, `?`, `[...]` character
+ * classes, `{a,b}` sets, and `**` (which matches any number of path
+ * segments, including none) are supported, and any character can be
+ * escaped with a `\`.  Wildcards match names starting with a `.`.
+ *
+ * Names are compared in the same way as {@link PathBase.isNamed}, so
+ * matching is unicode-normalized, and case-insensitive if the PathScurry
+ * is.
+ */
+export class Pattern {
+  #include?: Segment[][]
+  #exclude: Segment[][]
+  #nocase: boolean
+
+  constructor(
+    include: string | string[] | undefined,
+    exclude: string | string[] | undefined,
+    nocase: boolean
+  ) {
+    this.#nocase = nocase
+    this.#include =
+      include === undefined ? undefined : compileAll(include, nocase)
+    this.#exclude = compileAll(exclude, nocase)
+  }
+
+  #state(
+    include: Position[] | undefined,
+    exclude: Position[]
+  ): MatchState {
+    const inc = this.#include || []
+    const exc = this.#exclude
+    const excluded = exclude.some(([p, i]) => i === exc[p].length)
+    return {
+      included:
+        !excluded &&
+        (!include || include.some(([p, i]) => i === inc[p].length)),
+      walkable:
+        !excluded &&
+        (!include || include.some(([p, i]) => i < inc[p].length)),
+      include,
+      exclude,
+    }
+  }
+
+  // add a position, and any that are implied by it by skipping over a **
+  #add(
+    pats: Segment[][],
+    positions: Position[],
+    seen: Set<string>,
+    p: number,
+    i: number
+  ) {
+    const key = `${p}:${i}`
+    if (seen.has(key)) return
+    seen.add(key)
+    positions.push([p, i])
+    if (pats[p][i] === GLOBSTAR) {
+      this.#add(pats, positions, seen, p, i + 1)
+    }
+  }
+
+  #step(pats: Segment[][], positions: Position[], entry: PathBase) {
+    const next: Position[] = []
+    const seen = new Set<string>()
+    let name: string | undefined
+    for (const [p, i] of positions) {
+      const seg = pats[p][i]
+      if (seg === undefined) continue
+      if (seg === GLOBSTAR) {
+        this.#add(pats, next, seen, p, i)
+      } else if (typeof seg === 'string') {
+        if (entry.isNamed(seg)) this.#add(pats, next, seen, p, i + 1)
+      } else {
+        name ??= normalize(entry.name, this.#nocase)
+        if (seg.test(name)) this.#add(pats, next, seen, p, i + 1)
+      }
+    }
+    return next
+  }
+
+  #initial(pats: Segment[][]) {
+    const positions: Position[] = []
+    const seen = new Set<string>()
+    for (let p = 0; p < pats.length; p++) {
+      this.#add(pats, positions, seen, p, 0)
+    }
+    return positions
+  }
+
+  /**
+   * The state of the starting entry of the walk, which is matched as if
+   * it were the empty path.
+   */
+  start(): MatchState {
+    return this.#state(
+      this.#include && this.#initial(this.#include),
+      this.#initial(this.#exclude)
+    )
+  }
+
+  /**
+   * The state of an entry found in a directory with the given state.
+   */
+  step(state: MatchState, entry: PathBase): MatchState {
+    // nothing within an entry that can't be walked can be included
+    if (!state.walkable) return NONE
+    return this.#state(
+      state.include &&
+        this.#step(this.#include as Segment[][], state.include, entry),
+      this.#step(this.#exclude, state.exclude, entry)
+    )
+  }
+}
@@ -0,0 +1,434 @@
+// Recording of filesystem calls, and replaying them later without the
+// filesystem that they were recorded from.
+//
+// Each call is recorded with its result, or the code and message of the
+// error that it failed with, in a form that can be saved as JSON.  When
+// replaying, the results for each method and path are returned in the
+// order that they were recorded, and the last one is repeated once they
+// run out, so that the same walk can be replayed any number of times.
+
+import type { BigIntStats, Dirent, Stats } from 'fs'
+import type { FSOption, FSValue } from './index.js'
+import { fsFromOption } from './index.js'
+
+/**
+ * The fs methods that are recorded by {@link recordfs}
+ */
+export type FSTraceMethod =
+  | 'lstat'
+  | 'readdir'
+  | 'readFile'
+  | 'readlink'
+  | 'realpath'
+  | 'stat'
+
+/**
+ * The type of a recorded entry
+ */
+export type FSTraceType =
+  | 'file'
+  | 'dir'
+  | 'symlink'
+  | 'block'
+  | 'char'
+  | 'fifo'
+  | 'socket'
+  | 'unknown'
+
+/**
+ * The fields of a recorded lstat or stat result
+ */
+export interface FSTraceStats {
+  type: FSTraceType
+  dev: number
+  ino: number
+  mode: number
+  nlink: number
+  uid: number
+  gid: number
+  rdev: number
+  size: number
+  blksize: number
+  blocks: number
+  atimeMs: number
+  mtimeMs: number
+  ctimeMs: number
+  birthtimeMs: number
+}
+
+/**
+ * A single recorded fs call.  Exactly one of `result` and `error` is set.
+ */
+export interface FSTraceCall {
+  method: FSTraceMethod
+  path: string
+  /**
+   * readdir results are [name, type] pairs.  readFile, readlink and
+   * realpath results are strings.
+   */
+  result?: FSTraceStats | [string, FSTraceType][] | string
+  error?: { code?: string; message: string }
+}
+
+/**
+ * A recording of fs calls, made by {@link recordfs}, and played back by
+ * {@link replayfs}.  It is a plain object, so it can be saved with
+ * `JSON.stringify()`.
+ */
+export interface FSTrace {
+  version: 1
+  calls: FSTraceCall[]
+}
+
+const typeOf = (s: Dirent | Stats | BigIntStats): FSTraceType =>
+  s.isFile()
+    ? 'file'
+    : s.isDirectory()
+    ? 'dir'
+    : s.isSymbolicLink()
+    ? 'symlink'
+    : s.isBlockDevice()
+    ? 'block'
+    : s.isCharacterDevice()
+    ? 'char'
+    : s.isFIFO()
+    ? 'fifo'
+    : s.isSocket()
+    ? 'socket'
+    : 'unknown'
+
+// bigint stats are saved as numbers, since JSON has no bigints
+const traceStats = (st: Stats | BigIntStats): FSTraceStats => ({
+  type: typeOf(st),
+  dev: Number(st.dev),
+  ino: Number(st.ino),
+  mode: Number(st.mode),
+  nlink: Number(st.nlink),
+  uid: Number(st.uid),
+  gid: Number(st.gid),
+  rdev: Number(st.rdev),
+  size: Number(st.size),
+  blksize: Number(st.blksize),
+  blocks: Number(st.blocks),
+  atimeMs: Number(st.atimeMs),
+  mtimeMs: Number(st.mtimeMs),
+  ctimeMs: Number(st.ctimeMs),
+  birthtimeMs: Number(st.birthtimeMs),
+})
+
+class TraceType {
+  #type: FSTraceType
+  constructor(type: FSTraceType) {
+    this.#type = type
+  }
+  isFile() {
+    return this.#type === 'file'
+  }
+  isDirectory() {
+    return this.#type === 'dir'
+  }
+  isSymbolicLink() {
+    return this.#type === 'symlink'
+  }
+  isBlockDevice() {
+    return this.#type === 'block'
+  }
+  isCharacterDevice() {
+    return this.#type === 'char'
+  }
+  isFIFO() {
+    return this.#type === 'fifo'
+  }
+  isSocket() {
+    return this.#type === 'socket'
+  }
+}
+
+class TraceDirent extends TraceType {
+  name: string
+  constructor(name: string, type: FSTraceType) {
+    super(type)
+    this.name = name
+  }
+}
+
+class TraceStats extends TraceType implements Stats {
+  dev: number
+  ino: number
+  mode: number
+  nlink: number
+  uid: number
+  gid: number
+  rdev: number
+  size: number
+  blksize: number
+  blocks: number
+  atimeMs: number
+  mtimeMs: number
+  ctimeMs: number
+  birthtimeMs: number
+  atime: Date
+  mtime: Date
+  ctime: Date
+  birthtime: Date
+  constructor(st: FSTraceStats) {
+    super(st.type)
+    this.dev = st.dev
+    this.ino = st.ino
+    this.mode = st.mode
+    this.nlink = st.nlink
+    this.uid = st.uid
+    this.gid = st.gid
+    this.rdev = st.rdev
+    this.size = st.size
+    this.blksize = st.blksize
+    this.blocks = st.blocks
+    this.atimeMs = st.atimeMs
+    this.mtimeMs = st.mtimeMs
+    this.ctimeMs = st.ctimeMs
+    this.birthtimeMs = st.birthtimeMs
+    // rounded the same way as in fs.Stats
+    this.atime = new Date(Math.round(st.atimeMs))
+    this.mtime = new Date(Math.round(st.mtimeMs))
+    this.ctime = new Date(Math.round(st.ctimeMs))
+    this.birthtime = new Date(Math.round(st.birthtimeMs))
+  }
+}
+
+/**
+ * Wrap an {@link FSOption} (or the default fs, if undefined), so that
+ * every lstat, stat, readdir, readFile, readlink, and realpath call, and
+ * its result, is added to the trace.  The trace can then be saved with
+ * `JSON.stringify()`, and played back with {@link replayfs}.
+ *
+ * ```ts
+ * const trace: FSTrace = { version: 1, calls: [] }
+ * const pw = new PathScurry(dir, { fs: recordfs(undefined, trace) })
+ * pw.walkSync()
+ * writeFileSync('trace.json', JSON.stringify(trace))
+ * ```
+ */
+export const recordfs = (
+  fsOption: FSOption | undefined,
+  trace: FSTrace
+): FSOption => {
+  const fs = fsFromOption(fsOption)
+
+  const ok = <T>(
+    method: FSTraceMethod,
+    path: string,
+    result: T,
+    save: (result: T) => FSTraceCall['result']
+  ) => {
+    trace.calls.push({ method, path, result: save(result) })
+    return result
+  }
+
+  const fail = (method: FSTraceMethod, path: string, er: unknown) => {
+    const { code, message } = er as NodeJS.ErrnoException
+    trace.calls.push({ method, path, error: { code, message } })
+    return er
+  }
+
+  const sync =
+    <T>(
+      method: FSTraceMethod,
+      fn: (path: string) => T,
+      save: (result: T) => FSTraceCall['result']
+    ) =>
+    (path: string): T => {
+      let result: T
+      try {
+        result = fn(path)
+      } catch (er) {
+        throw fail(method, path, er)
+      }
+      return ok(method, path, result, save)
+    }
+
+  const async =
+    <T>(
+      method: FSTraceMethod,
+      fn: (path: string) => Promise<T>,
+      save: (result: T) => FSTraceCall['result']
+    ) =>
+    (path: string): Promise<T> =>
+      fn(path).then(
+        result => ok(method, path, result, save),
+        er => {
+          throw fail(method, path, er)
+        }
+      )
+
+  const str = (s: string) => s
+  const entries = (entries: Dirent[]): [string, FSTraceType][] =>
+    entries.map(e => [e.name, typeOf(e)])
+
+  return {
+    ...fs,
+    lstatSync: ((path: string, options: { bigint: boolean }) =>
+      sync(
+        'lstat',
+        p => fs.lstatSync(p, options),
+        traceStats
+      )(path)) as FSValue['lstatSync'],
+    readdir: (path, options, cb) =>
+      fs.readdir(path, options, (er, result) => {
+        if (er) return cb(fail('readdir', path, er) as typeof er)
+        cb(null, ok('readdir', path, result as Dirent[], entries))
+      }),
+    readdirSync: sync(
+      'readdir',
+      p => fs.readdirSync(p, { withFileTypes: true }),
+      entries
+    ),
+    readFileSync: sync('readFile', p => fs.readFileSync(p, 'utf8'), str),
+    readlinkSync: sync('readlink', p => fs.readlinkSync(p), str),
+    realpathSync: sync('realpath', p => fs.realpathSync(p), str),
+    statSync: sync('stat', p => fs.statSync(p), traceStats),
+    promises: {
+      ...fs.promises,
+      lstat: ((path: string, options: { bigint: boolean }) =>
+        async(
+          'lstat',
+          p => fs.promises.lstat(p, options),
+          traceStats
+        )(path)) as FSValue['promises']['lstat'],
+      readdir: async(
+        'readdir',
+        p => fs.promises.readdir(p, { withFileTypes: true }),
+        entries
+      ),
+      readFile: async(
+        'readFile',
+        p => fs.promises.readFile(p, 'utf8'),
+        str
+      ),
+      readlink: async('readlink', p => fs.promises.readlink(p), str),
+      realpath: async('realpath', p => fs.promises.realpath(p), str),
+      stat: async('stat', p => fs.promises.stat(p), traceStats),
+    },
+  }
+}
+
+/**
+ * Create an {@link FSOption} that serves everything from a trace made by
+ * {@link recordfs}, without touching the filesystem at all.
+ *
+ * The results for each method and path are returned in the order that
+ * they were recorded, and the last one is repeated once they run out.
+ * Calls that are not in the trace fail with an `ENOTRECORDED` error.  As
+ * with any other fs error, PathScurry treats this as a failure, which can
+ * be seen with {@link PathBase.lastErrorCode}, or the `onError` walk
+ * option.  `fs.watch()` calls, opening files to read them a chunk at a
+ * time, and calls that would change the filesystem, such as
+ * {@link PathBase.mkdir}, fail in the same way.
+ */
+export const replayfs = (trace: FSTrace): FSOption => {
+  if (trace.version !== 1) {
+    throw new TypeError(`unsupported trace version: ${trace.version}`)
+  }
+  const recorded = new Map<string, FSTraceCall[]>()
+  for (const call of trace.calls) {
+    const key = `${call.method} ${call.path}`
+    const calls = recorded.get(key)
+    if (calls) calls.push(call)
+    else recorded.set(key, [call])
+  }
+
+  const notRecorded = (syscall: string, path: string) =>
+    Object.assign(new Error(`ENOTRECORDED: ${syscall} '${path}'`), {
+      code: 'ENOTRECORDED',
+      syscall,
+      path,
+    })
+
+  const replay = (method: FSTraceMethod, path: string) => {
+    const calls = recorded.get(`${method} ${path}`)
+    if (!calls) throw notRecorded(method, path)
+    const call =
+      calls.length > 1 ? (calls.shift() as FSTraceCall) : calls[0]
+    if (call.error) {
+      const { code, message } = call.error
+      throw Object.assign(new Error(message), { code, path })
+    }
+    return call.result
+  }
+
+  const stats = (method: 'lstat' | 'stat') => (path: string) =>
+    new TraceStats(replay(method, path) as FSTraceStats)
+  const lstatSync = stats('lstat')
+  const statSync = stats('stat')
+  const readdirSync = (path: string) =>
+    (replay('readdir', path) as [string, FSTraceType][]).map(
+      ([name, type]) => new TraceDirent(name, type)
+    )
+  const str = (method: FSTraceMethod) => (path: string) =>
+    replay(method, path) as string
+  // there is no filesystem to change
+  const readOnly = (syscall: string) => (path: string) => {
+    throw notRecorded(syscall, path)
+  }
+  const mkdirSync = readOnly('mkdir')
+  const writeFileSync = readOnly('open')
+  const unlinkSync = readOnly('unlink')
+  const rmdirSync = readOnly('rmdir')
+  const renameSync = readOnly('rename')
+  const symlinkSync = readOnly('symlink')
+  const copyFileSync = readOnly('copyfile')
+  const chmodSync = readOnly('chmod')
+  const utimesSync = readOnly('utime')
+  // only the results of calls are recorded, so there are no contents to
+  // read a chunk at a time
+  const openSync = readOnly('open')
+
+  return {
+    lstatSync,
+    readdir: (path, _, cb) =>
+      queueMicrotask(() => {
+        let entries: TraceDirent[]
+        try {
+          entries = readdirSync(path)
+        } catch (er) {
+          return cb(er as NodeJS.ErrnoException)
+        }
+        cb(null, entries)
+      }),
+    readdirSync,
+    readFileSync: str('readFile'),
+    readlinkSync: str('readlink'),
+    realpathSync: str('realpath'),
+    statSync,
+    mkdirSync,
+    writeFileSync,
+    unlinkSync,
+    rmdirSync,
+    renameSync,
+    symlinkSync: (_, path) => symlinkSync(path),
+    copyFileSync: src => copyFileSync(src),
+    chmodSync: path => chmodSync(path),
+    utimesSync: path => utimesSync(path),
+    openSync: path => openSync(path),
+    promises: {
+      lstat: async path => lstatSync(path),
+      readdir: async path => readdirSync(path),
+      readFile: async path => str('readFile')(path),
+      readlink: async path => str('readlink')(path),
+      realpath: async path => str('realpath')(path),
+      stat: async path => statSync(path),
+      mkdir: async path => mkdirSync(path),
+      writeFile: async path => writeFileSync(path),
+      unlink: async path => unlinkSync(path),
+      rmdir: async path => rmdirSync(path),
+      rename: async path => renameSync(path),
+      symlink: async (_, path) => symlinkSync(path),
+      copyFile: async src => copyFileSync(src),
+      chmod: async path => chmodSync(path),
+      utimes: async path => utimesSync(path),
+      open: async path => openSync(path),
+    },
+    watch: path => {
+      throw notRecorded('watch', path)
+    },
+  }
+}
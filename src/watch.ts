@@ -0,0 +1,207 @@
+// Keep a PathScurry's cache up to date with fs.watch.
+//
+// Every directory that has been successfully read is watched.  When a
+// change is reported in one, the entries that it names are invalidated,
+// and the directory is read again, so that the new listing can be
+// compared with the old one to tell which entries were added, removed,
+// or changed in place.  Changes in the same directory are handled one at
+// a time, and any that come in while it is being read are batched up for
+// the next pass.
+
+import { EventEmitter } from 'events'
+import type { FSWatcher } from 'fs'
+import type { ChildrenCache, PathBase, PathContext } from './index.js'
+
+/**
+ * The signature of the `fs.watch()` method used by a {@link PathWatcher}
+ */
+export type WatchFn = (
+  path: string,
+  options: { persistent: boolean },
+  listener: (eventType: string, filename: string | null) => void
+) => FSWatcher
+
+/**
+ * Options that may be provided to {@link PathScurryBase.watch}
+ */
+export interface PathWatcherOptions {
+  /**
+   * Keep the process running for as long as the watcher is open, as with
+   * the `persistent` option to `fs.watch()`.
+   *
+   * @default true
+   */
+  persistent?: boolean
+}
+
+// true if the entry is dir, or somewhere beneath it
+const within = (entry: PathBase, dir: PathBase) => {
+  for (let p: PathBase | undefined = entry; p; p = p.parent) {
+    if (p === dir) return true
+  }
+  return false
+}
+
+export interface PathWatcher {
+  /**
+   * Emitted when an entry is found in a watched directory, that was not
+   * there when it was last read.
+   */
+  on(event: 'add', listener: (entry: PathBase) => void): this
+  /**
+   * Emitted when an entry that was in a watched directory is changed in
+   * place, or replaced by another one with the same name.
+   */
+  on(event: 'change', listener: (entry: PathBase) => void): this
+  /**
+   * Emitted when an entry is no longer in the watched directory that it
+   * was in.
+   */
+  on(event: 'unlink', listener: (entry: PathBase) => void): this
+  once(
+    event: 'add' | 'change' | 'unlink',
+    listener: (entry: PathBase) => void
+  ): this
+  off(
+    event: 'add' | 'change' | 'unlink',
+    listener: (entry: PathBase) => void
+  ): this
+  emit(event: 'add' | 'change' | 'unlink', entry: PathBase): boolean
+}
+
+/**
+ * Watches the directories that a PathScurry has read, keeping its cached
+ * entries up to date as they change, and emitting `'add'`, `'change'`, and
+ * `'unlink'` events with the affected {@link PathBase} objects.
+ *
+ * Created by {@link PathScurryBase.watch}.
+ */
+export class PathWatcher extends EventEmitter {
+  #context: PathContext
+  #watch: WatchFn
+  #persistent: boolean
+  #watchers = new Map<PathBase, FSWatcher>()
+  // names that have changed in each dir since it was last read.  An
+  // empty set means that it changed, but fs.watch didn't say what.
+  #pending = new Map<PathBase, Set<string>>()
+  #syncing = new Set<PathBase>()
+
+  /**
+   * True once {@link PathWatcher.close} has been called
+   */
+  closed: boolean = false
+
+  /**
+   * Do not create PathWatcher objects directly.  Use
+   * {@link PathScurryBase.watch} instead.
+   *
+   * @internal
+   */
+  constructor(
+    children: ChildrenCache,
+    context: PathContext,
+    watch: WatchFn,
+    { persistent = true }: PathWatcherOptions = {}
+  ) {
+    super()
+    this.#context = context
+    this.#watch = watch
+    this.#persistent = persistent
+    for (const dir of children.keys()) {
+      if (dir.calledReaddir()) this.#add(dir)
+    }
+    context.onReaddir = dir => this.#add(dir)
+  }
+
+  /**
+   * The directories that are currently being watched
+   */
+  watched(): PathBase[] {
+    return [...this.#watchers.keys()]
+  }
+
+  #add(dir: PathBase) {
+    if (this.#watchers.has(dir)) return
+    let w: FSWatcher
+    try {
+      w = this.#watch(
+        dir.fullpath(),
+        { persistent: this.#persistent },
+        (_, filename) => this.#changed(dir, filename)
+      )
+    } catch {
+      // gone already, or can't be watched
+      return
+    }
+    // usually means that the dir has been removed
+    w.on('error', () => this.#remove(dir))
+    this.#watchers.set(dir, w)
+  }
+
+  // stop watching the dir, and everything beneath it
+  #remove(dir: PathBase) {
+    for (const [d, w] of this.#watchers) {
+      if (within(d, dir)) {
+        w.close()
+        this.#watchers.delete(d)
+        this.#pending.delete(d)
+      }
+    }
+  }
+
+  #changed(dir: PathBase, filename: string | null) {
+    let names = this.#pending.get(dir)
+    if (!names) {
+      names = new Set()
+      this.#pending.set(dir, names)
+    }
+    if (filename) names.add(filename)
+    if (!this.#syncing.has(dir)) this.#sync(dir)
+  }
+
+  async #sync(dir: PathBase) {
+    this.#syncing.add(dir)
+    let names: Set<string> | undefined
+    while ((names = this.#pending.get(dir))) {
+      this.#pending.delete(dir)
+      const before = new Set(dir.readdirCached())
+      const changed: PathBase[] = []
+      for (const name of names) {
+        const c = dir.child(name)
+        c.invalidate({ recursive: true })
+        changed.push(c)
+      }
+      dir.invalidate()
+      const after = await dir.readdir()
+      if (this.closed) break
+      for (const e of before) {
+        if (!after.includes(e)) {
+          this.#remove(e)
+          this.emit('unlink', e)
+        }
+      }
+      for (const e of after) {
+        if (!before.has(e)) this.emit('add', e)
+      }
+      for (const c of changed) {
+        if (before.has(c) && after.includes(c)) this.emit('change', c)
+      }
+      // the dir itself is gone, or can't be read any more
+      if (!dir.calledReaddir()) this.#remove(dir)
+    }
+    this.#syncing.delete(dir)
+  }
+
+  /**
+   * Stop watching all directories.  Cached entries are no longer kept up to
+   * date, and no more events are emitted.
+   */
+  close() {
+    if (this.closed) return
+    this.closed = true
+    this.#context.onReaddir = undefined
+    for (const w of this.#watchers.values()) w.close()
+    this.#watchers.clear()
+    this.#pending.clear()
+  }
+}
@@ -0,0 +1,177 @@
+import { lstatSync } from 'fs'
+import t from 'tap'
+import { faultfs, memfs, PathBase, PathScurryPosix } from '../'
+
+const tree = () =>
+  memfs({
+    a: { b: '', c: { d: '' }, e: '' },
+    link: memfs.symlink('a/c'),
+  })
+
+const names = (entries: PathBase[]) => entries.map(e => e.name)
+
+const codeOf = (fn: () => any) => {
+  try {
+    fn()
+  } catch (er) {
+    return (er as NodeJS.ErrnoException).code
+  }
+  throw new Error('did not throw')
+}
+
+t.test('errors by path and method', async t => {
+  const ps = new PathScurryPosix('/', {
+    fs: faultfs(tree(), [
+      { path: '/a/b', method: 'lstat', code: 'EACCES' },
+      { path: '/a/c', method: 'readdir', code: 'ENOTDIR' },
+      { path: /link$/, method: ['readlink', 'realpath'], code: 'ELOOP' },
+      { path: '/a/e', method: 'stat', code: 'EIO' },
+    ]),
+  })
+  t.equal(ps.lstatSync('a/b'), undefined)
+  t.equal(ps.cwd.resolve('a/b').lastErrorCode(), 'EACCES')
+  t.equal(await ps.lstat('a/e'), ps.cwd.resolve('a/e'))
+  t.strictSame(await ps.readdir('a/c'), [])
+  t.equal(ps.cwd.resolve('a/c').isENOENT(), false)
+  t.equal(ps.cwd.resolve('a/c/d').isENOENT(), true)
+  t.equal(ps.readlinkSync('link'), undefined)
+  t.equal(await ps.realpath('link'), undefined)
+  t.equal(ps.cwd.resolve('link').lastErrorCode(), 'ELOOP')
+  t.equal(ps.statSync('a/e'), undefined)
+  t.equal(ps.cwd.resolve('a/e').lastErrorCode(), 'EIO')
+  t.equal((await ps.stat('a'))?.isDirectory(), true)
+  t.equal(await ps.cwd.resolve('a/b').lstat(), undefined)
+  t.match(ps.cwd.resolve('a/b').lastError(), {
+    message: `EACCES: injected fault, lstat '/a/b'`,
+    syscall: 'lstat',
+    path: '/a/b',
+  })
+})
+
+t.test('call counts', async t => {
+  const fs = faultfs(tree(), [
+    { path: '/a', method: 'readdir', code: 'EMFILE', times: 1 },
+    { path: '/a/c', code: 'EIO', after: 1, times: 2 },
+    // counts calls, even though the one above comes first
+    { path: '/a/*', method: 'lstat', code: 'EPERM', after: 3 },
+    { path: '/link/**', method: 'readFile', code: 'EISDIR' },
+  ])
+  const ps = new PathScurryPosix('/', { fs })
+  t.strictSame(ps.readdirSync('a'), [])
+  t.equal(ps.cwd.resolve('a').lastErrorCode(), 'EMFILE')
+  ps.invalidate('a')
+  t.strictSame(names(ps.readdirSync('a')).sort(), ['b', 'c', 'e'])
+
+  const lstat = (p: string) => codeOf(() => fs.lstatSync?.(p)) as string
+  t.equal(fs.lstatSync?.('/a/c').isDirectory(), true)
+  t.equal(lstat('/a/c'), 'EIO')
+  t.equal(lstat('/a/c'), 'EIO')
+  t.equal(lstat('/a/c'), 'EPERM')
+  t.equal(lstat('/a/b'), 'EPERM')
+  t.equal(fs.lstatSync?.('/a').isDirectory(), true)
+  t.equal(
+    codeOf(() => fs.readFileSync?.('/link/d', 'utf8')),
+    'EISDIR'
+  )
+  t.equal(fs.readFileSync?.('/a/b', 'utf8'), '')
+})
+
+t.test('partial readdir results', async t => {
+  const ps = new PathScurryPosix('/', {
+    fs: faultfs(tree(), [{ path: '**/a', entries: 1 }]),
+  })
+  const e = ps.cwd.resolve('a/e')
+  t.strictSame(names(ps.readdirSync('a')), ['b'])
+  // entries that are left out look like they don't exist
+  t.equal(e.isENOENT(), true)
+  ps.invalidate('a')
+  t.strictSame(names(await ps.readdir('a')), ['b'])
+  ps.invalidate('a')
+  const a = ps.cwd.resolve('a')
+  t.strictSame(
+    await new Promise<string[]>(res =>
+      a.readdirCB((_, entries) => res(names(entries)))
+    ),
+    ['b']
+  )
+  t.strictSame(names(ps.readdirSync('a/c')), ['d'])
+})
+
+t.test('latency', async t => {
+  const ps = new PathScurryPosix('/', {
+    fs: faultfs(tree(), [
+      { path: '/a', method: 'readdir', delay: 50, code: 'EMFILE' },
+      { delay: 50 },
+    ]),
+  })
+  const slow = async (fn: () => Promise<any>) => {
+    const start = Date.now()
+    await fn()
+    t.ok(Date.now() - start >= 45, 'delayed')
+  }
+  await slow(() => ps.lstat('a'))
+  await slow(() => ps.readdir('a/c'))
+  await slow(
+    () => new Promise(res => ps.cwd.resolve('link').readdirCB(res, true))
+  )
+  await slow(async () => t.strictSame(await ps.readdir('a'), []))
+  t.equal(ps.cwd.resolve('a').lastErrorCode(), 'EMFILE')
+  await slow(
+    () => new Promise(res => ps.cwd.resolve('a').readdirCB(res, true))
+  )
+  // no delay for sync methods
+  const start = Date.now()
+  ps.invalidate('a/c')
+  ps.readdirSync('a/c')
+  t.ok(Date.now() - start < 45, 'not delayed')
+})
+
+t.test('wrapping the default fs', async t => {
+  const td = t.testdir({
+    a: { '.gitignore': 'b\n', b: '', c: '' },
+    link: t.fixture('symlink', 'a'),
+  })
+  const fs = faultfs(undefined, [
+    { path: '**/a/.gitignore', code: 'EACCES', times: 2 },
+  ])
+  const ps = new PathScurryPosix(td, { fs })
+  const walked = (entries: string[]) =>
+    entries.map(e => e.substring(td.length + 1)).sort()
+  // can't read the ignore file, so nothing is ignored
+  const opts = { withFileTypes: false, ignoreFiles: true } as const
+  t.strictSame(walked(ps.walkSync('a', opts)), [
+    'a',
+    'a/.gitignore',
+    'a/b',
+    'a/c',
+  ])
+  ps.invalidate('a', { recursive: true })
+  t.strictSame(walked(await ps.walk('a', opts)), [
+    'a',
+    'a/.gitignore',
+    'a/b',
+    'a/c',
+  ])
+  // works once the fault has been used up
+  ps.invalidate('a', { recursive: true })
+  t.strictSame(walked(await ps.walk('a', opts)), [
+    'a',
+    'a/.gitignore',
+    'a/c',
+  ])
+  t.equal(fs.readFileSync?.(td + '/a/.gitignore', 'utf8'), 'b\n')
+  t.equal(await ps.realpath('link'), ps.resolve('a'))
+  t.equal(ps.readlinkSync('link'), ps.resolve('a'))
+  t.equal((await ps.lstat('a'))?.isDirectory(), true)
+})
+
+t.test('bigint stats are passed through', async t => {
+  const td = t.testdir({ a: '', b: '' })
+  const ps = new PathScurryPosix(td, {
+    fs: faultfs(undefined, []),
+    bigint: true,
+  })
+  const { mtimeNs } = lstatSync(td + '/a', { bigint: true })
+  t.equal(ps.lstatSync('a')?.mtimeNs, mtimeNs)
+  t.equal(typeof (await ps.lstat('b'))?.ino, 'bigint')
+})
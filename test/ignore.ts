@@ -0,0 +1,131 @@
+import t from 'tap'
+import { PathScurryPosix } from '../'
+import { Ignores } from '../dist/cjs/ignore.js'
+
+// apply the ignore files, given as { 'dir/path': content }, to a path,
+// returning the ignored state of each entry along the way.
+const states = (files: { [dir: string]: string }, path: string) => {
+  const ps = new PathScurryPosix('/x')
+  const ignores = new Ignores(false)
+  const names = path.split('/').filter(n => n)
+  let entry = ps.cwd
+  let state = ignores.start()
+  const found = [state.ignored]
+  for (const [i, name] of names.entries()) {
+    const dir = names.slice(0, i).join('/')
+    if (files[dir] !== undefined) state = ignores.add(state, files[dir])
+    // everything but the last entry is a dir
+    const isDir = i < names.length - 1
+    entry = entry.child(name)
+    ;(entry as any).isDirectory = () => isDir
+    state = ignores.step(state, entry)
+    found.push(state.ignored)
+  }
+  return found
+}
+
+const ignored = (
+  rules: string,
+  path: string,
+  isDir = false,
+  nocase = false
+) => {
+  const ps = new PathScurryPosix('/x', { nocase })
+  const ignores = new Ignores(nocase)
+  let state = ignores.add(ignores.start(), rules)
+  let entry = ps.cwd
+  const names = path.split('/')
+  for (const [i, name] of names.entries()) {
+    entry = entry.child(name)
+    const dir = isDir || i < names.length - 1
+    ;(entry as any).isDirectory = () => dir
+    state = ignores.step(state, entry)
+  }
+  return state.ignored
+}
+
+t.test('rules', t => {
+  const cases: [string, string, boolean, boolean][] = [
+    // [rules, path, isDir, ignored]
+    ['a', 'a', false, true],
+    ['a', 'x/a', false, true],
+    ['a', 'ab', false, false],
+    ['*.log', 'x/y.log', false, true],
+    ['*.log', '.log', false, true],
+    ['*.log', 'x.log', true, true],
+    ['a?c', 'abc', false, true],
+    ['a?c', 'a/c', false, false],
+    ['[ab]x', 'bx', false, true],
+    ['[!ab]x', 'bx', false, false],
+    ['[!ab]x', 'cx', false, true],
+    ['/a', 'a', false, true],
+    ['/a', 'x/a', false, false],
+    ['a/b', 'a/b', false, true],
+    ['a/b', 'x/a/b', false, false],
+    ['a/*', 'a/b', false, true],
+    ['a/*', 'a/b/c', false, false],
+    ['dir/', 'dir', true, true],
+    ['dir/', 'dir', false, false],
+    ['dir/', 'x/dir', true, true],
+    ['a/dir/', 'a/dir', true, true],
+    ['a/dir/', 'a/dir', false, false],
+    ['**', 'a/b', false, true],
+    ['**/a', 'a', false, true],
+    ['**/a', 'x/y/a', false, true],
+    ['a/**', 'a', true, false],
+    ['a/**', 'a/b/c', false, true],
+    ['a/**/b', 'a/b', false, true],
+    ['a/**/b', 'a/x/y/b', false, true],
+    ['a/**/b', 'x/a/b', false, false],
+    ['a\\*', 'a*', false, true],
+    ['a\\*', 'ab', false, false],
+    ['\\#a', '#a', false, true],
+    ['\\!a', '!a', false, true],
+    ['#a', '#a', false, false],
+    ['a   ', 'a', false, true],
+    ['a\\ ', 'a ', false, true],
+    ['', 'a', false, false],
+    ['/', 'a', false, false],
+    ['*.log\n!keep.log', 'keep.log', false, false],
+    ['*.log\n!keep.log', 'x.log', false, true],
+    ['!keep.log\n*.log', 'keep.log', false, true],
+    ['a\r\nb\r\n', 'b', false, true],
+  ]
+  for (const [rules, path, isDir, expect] of cases) {
+    t.equal(
+      ignored(rules, path, isDir),
+      expect,
+      `${JSON.stringify(rules)} ${path}${isDir ? '/' : ''}`
+    )
+  }
+  t.end()
+})
+
+t.test('unicode and case', t => {
+  // precomposed vs decomposed é
+  t.equal(ignored('caf\u00e9', 'cafe\u0301'), true)
+  t.equal(ignored('cafe\u0301*', 'caf\u00e9s'), true)
+  t.equal(ignored('ABC', 'abc'), false)
+  t.equal(ignored('ABC', 'abc', false, true), true)
+  t.equal(ignored('A*', 'abc', false, true), true)
+  t.end()
+})
+
+t.test('nested ignore files', t => {
+  const files = {
+    '': '*.log\n/build\nsub/only\n',
+    a: '!*.log\nbuild\n',
+    'a/b': '*.log\n',
+  }
+  t.strictSame(states(files, 'x.log'), [false, true])
+  t.strictSame(states(files, 'a/x.log'), [false, false, false])
+  t.strictSame(states(files, 'a/b/x.log'), [false, false, false, true])
+  t.strictSame(states(files, 'a/c/x.log'), [false, false, false, false])
+  t.strictSame(states(files, 'build'), [false, true])
+  t.strictSame(states(files, 'x/build'), [false, false, false])
+  t.strictSame(states(files, 'a/x/build'), [false, false, false, true])
+  // anchored to the dir of the ignore file that it's in
+  t.strictSame(states(files, 'sub/only'), [false, false, true])
+  t.strictSame(states(files, 'a/sub/only'), [false, false, false, false])
+  t.end()
+})
@@ -1,5 +1,5 @@
 import * as fs from 'fs'
-import { lstatSync, readdirSync, writeFileSync } from 'fs'
+import { lstatSync, readdirSync, Stats, writeFileSync } from 'fs'
 import * as fsp from 'fs/promises'
 import { lstat } from 'fs/promises'
 import { basename, resolve, relative } from 'path'
@@ -9,15 +9,25 @@ import { pathToFileURL } from 'url'
 import { normalizePaths } from './fixtures/normalize-paths'
 
 import {
+  CopyOptions,
+  DiffEntry,
+  DiffOptions,
+  DiskUsage,
+  faultfs,
+  FSFault,
   FSOption,
+  memfs,
   Path,
   PathBase,
   PathPosix,
   PathScurry,
+  PathScurryBase,
   PathScurryDarwin,
   PathScurryPosix,
+  PathScurrySnapshot,
   PathScurryWin32,
   PathWin32,
+  RmOptions,
   WalkOptions,
 } from '../'
 
@@ -1269,6 +1279,3188 @@ t.test('walking', async t => {
   }
 })
 
+t.test('maxDepth and minDepth', async t => {
+  const td = t.testdir({
+    a: {
+      b: {
+        c: {
+          d: '',
+        },
+        cfile: '',
+      },
+      bfile: '',
+    },
+    afile: '',
+    link: t.fixture('symlink', 'a/b'),
+  })
+  const cases: [WalkOptions, string[]][] = [
+    [
+      {},
+      [
+        '',
+        'a',
+        'a/b',
+        'a/b/c',
+        'a/b/c/d',
+        'a/b/cfile',
+        'a/bfile',
+        'afile',
+        'link',
+      ],
+    ],
+    [{ maxDepth: 0 }, ['']],
+    [{ maxDepth: 1 }, ['', 'a', 'afile', 'link']],
+    [{ maxDepth: 2 }, ['', 'a', 'a/b', 'a/bfile', 'afile', 'link']],
+    [{ minDepth: 2 }, ['a/b', 'a/b/c', 'a/b/c/d', 'a/b/cfile', 'a/bfile']],
+    [{ minDepth: 2, maxDepth: 2 }, ['a/b', 'a/bfile']],
+    [{ minDepth: 3, maxDepth: 2 }, []],
+    // link/* are depth 2 in the walk, even though a/b/* are depth 3
+    [
+      { follow: true, maxDepth: 2 },
+      ['', 'a', 'a/b', 'a/b/c', 'a/b/cfile', 'a/bfile', 'afile', 'link'],
+    ],
+  ]
+  const rel = (p: string) => relative(td, p).replace(/\\/g, '/')
+  for (const [opts, expect] of cases) {
+    t.test(JSON.stringify(opts), async t => {
+      const sorted = (s: Iterable<string>) =>
+        [...s].map(rel).sort((a, b) => a.localeCompare(b, 'en'))
+      const o = { ...opts, withFileTypes: false } as const
+      const check = (found: string[], method: string) =>
+        t.strictSame(found, expect, method)
+      check(sorted(new PathScurry(td).walkSync(o)), 'walkSync')
+      check(sorted(await new PathScurry(td).walk(o)), 'walk')
+      check(sorted(new PathScurry(td).iterateSync(o)), 'iterateSync')
+      const it: string[] = []
+      for await (const p of new PathScurry(td).iterate(o)) it.push(p)
+      check(sorted(it), 'iterate')
+      check(sorted(await new PathScurry(td).stream(o).collect()), 'stream')
+      check(
+        sorted(await new PathScurry(td).streamSync(o).collect()),
+        'streamSync'
+      )
+    })
+  }
+})
+
+t.test('oneFileSystem', async t => {
+  // /mnt is another filesystem, and /bad can't be lstat'ed
+  const tree = memfs({
+    a: { b: '' },
+    bad: { f: '' },
+    mnt: { c: { d: '' }, e: '' },
+    link: memfs.symlink('mnt/c'),
+    alink: memfs.symlink('a'),
+  })
+  const lstat = (path: string) => {
+    if (path === '/bad') {
+      throw Object.assign(new Error('no stats'), { code: 'EIO' })
+    }
+    const st = (tree.lstatSync as (path: string) => Stats)(path)
+    return path.startsWith('/mnt') ? Object.assign(st, { dev: 2 }) : st
+  }
+  const fs: FSOption = {
+    ...tree,
+    lstatSync: lstat,
+    promises: { ...tree.promises, lstat: async (p: string) => lstat(p) },
+  }
+  const top = ['/', '/a', '/a/b', '/alink', '/bad', '/link', '/mnt']
+  const cases: [string, WalkOptions, string[]][] = [
+    [
+      '/',
+      {},
+      [
+        ...top.slice(0, 5),
+        '/bad/f',
+        '/link',
+        '/mnt',
+        '/mnt/c',
+        '/mnt/c/d',
+        '/mnt/e',
+      ],
+    ],
+    ['/', { oneFileSystem: true }, top],
+    ['/', { oneFileSystem: true, follow: true }, top],
+    ['/', { oneFileSystem: true, traversal: 'depth-first' }, top],
+    ['/', { oneFileSystem: true, sort: 'name' }, top],
+    [
+      '/',
+      { oneFileSystem: true, walkFilter: e => !e.isNamed('a') },
+      top.filter(p => p !== '/a/b'),
+    ],
+    [
+      '/mnt',
+      { oneFileSystem: true },
+      ['/mnt', '/mnt/c', '/mnt/c/d', '/mnt/e'],
+    ],
+  ]
+  for (const [start, opts, expect] of cases) {
+    t.test(`${start} ${JSON.stringify(opts)}`, async t => {
+      const o = { ...opts, withFileTypes: false } as const
+      const ps = () => new PathScurryPosix('/', { fs })
+      const check = (found: Iterable<string>, method: string) =>
+        t.strictSame([...found].sort(), expect, method)
+      check(ps().walkSync(start, o), 'walkSync')
+      check(await ps().walk(start, o), 'walk')
+      check(ps().iterateSync(start, o), 'iterateSync')
+      const it: string[] = []
+      for await (const p of ps().iterate(start, o)) it.push(p)
+      check(it, 'iterate')
+      check(await ps().stream(start, o).collect(), 'stream')
+      check(await ps().streamSync(start, o).collect(), 'streamSync')
+      // with everything already lstat'ed
+      const cached = ps()
+      cached.walkSync(start, { stat: true })
+      check(cached.walkSync(start, o), 'cached walkSync')
+      check(await cached.walk(start, o), 'cached walk')
+    })
+  }
+
+  t.test('async walkFilter', async t => {
+    const ps = new PathScurryPosix('/', { fs })
+    t.strictSame(
+      (
+        await ps.walk({
+          withFileTypes: false,
+          oneFileSystem: true,
+          walkFilter: async e => !e.isNamed('a'),
+        })
+      ).sort(),
+      top.filter(p => p !== '/a/b')
+    )
+  })
+})
+
+t.test('hard links', async t => {
+  const td = t.testdir({
+    a: { x: 'linked', y: '' },
+    b: {},
+    c: { gone: '' },
+  })
+  fs.linkSync(td + '/a/x', td + '/b/x')
+  fs.linkSync(td + '/a/x', td + '/c/x')
+  const links = ['a/x', 'b/x', 'c/x']
+  const rest = ['', 'a', 'a/y', 'b', 'c', 'c/gone']
+  const fsOpt = faultfs(undefined, [
+    { path: '**/gone', method: 'lstat', code: 'EIO' },
+  ])
+  const newPS = () => new PathScurry(td, { fs: fsOpt })
+
+  t.test('dedupeHardLinks walk option', async t => {
+    const cases: [string, WalkOptions][] = [
+      ['dedupe', { dedupeHardLinks: true }],
+      ['depth-first', { dedupeHardLinks: true, traversal: 'depth-first' }],
+      ['sorted', { dedupeHardLinks: true, sort: 'name' }],
+      ['stat', { dedupeHardLinks: true, stat: true }],
+      ['filter', { dedupeHardLinks: true, filter: e => !e.isNamed('y') }],
+    ]
+    for (const [name, opts] of cases) {
+      const o = { ...opts, withFileTypes: false } as const
+      // the stat option leaves out what can't be lstat'ed
+      const expect = rest.filter(p =>
+        p === 'a/y' ? !opts.filter : p !== 'c/gone' || !opts.stat
+      )
+      const check = (found: Iterable<string>, method: string) => {
+        const rel = [...found].map(p => relative(td, p)).sort()
+        const linked = rel.filter(p => links.includes(p))
+        t.equal(linked.length, 1, `${name} ${method} one link`)
+        t.strictSame(
+          rel.filter(p => !links.includes(p)),
+          expect,
+          `${name} ${method}`
+        )
+      }
+      check(newPS().walkSync(o), 'walkSync')
+      check(await newPS().walk(o), 'walk')
+      check(newPS().iterateSync(o), 'iterateSync')
+      const it: string[] = []
+      for await (const p of newPS().iterate(o)) it.push(p)
+      check(it, 'iterate')
+      check(await newPS().stream(o).collect(), 'stream')
+      check(await newPS().streamSync(o).collect(), 'streamSync')
+      // everything already lstat'ed
+      const cached = newPS()
+      cached.walkSync({ stat: true })
+      check(cached.walkSync(o), 'cached walkSync')
+      check(await cached.walk(o), 'cached walk')
+    }
+
+    // without the option, all of them are there
+    t.strictSame(
+      newPS()
+        .walkSync({ withFileTypes: false })
+        .map(p => relative(td, p))
+        .sort(),
+      [...rest, ...links].sort()
+    )
+
+    // filtered out links don't count
+    const ps = newPS()
+    t.strictSame(
+      (
+        await ps.walk({
+          withFileTypes: false,
+          dedupeHardLinks: true,
+          filter: async e => !e.isNamed('x') || e.parent?.name === 'c',
+        })
+      )
+        .map(p => relative(td, p))
+        .sort(),
+      [...rest, 'c/x'].sort()
+    )
+  })
+
+  t.test('hardLinks()', async t => {
+    const ps = newPS()
+    t.strictSame(ps.hardLinks('a/x'), [], 'not lstat yet')
+    ps.walkSync({ stat: true })
+    const rel = (entries: PathBase[]) =>
+      entries.map(e => e.relativePosix()).sort()
+    t.strictSame(rel(ps.hardLinks('a/x')), links)
+    t.strictSame(rel(ps.cwd.resolve('c/x').hardLinks()), links)
+    const y = ps.cwd.resolve('a/y')
+    t.strictSame(ps.hardLinks(y), [y], 'only one link')
+    t.strictSame(ps.hardLinks('c/gone'), [], 'cannot lstat')
+    // links that have not been lstat'ed are not known
+    ps.invalidate('b/x')
+    t.strictSame(rel(ps.hardLinks('a/x')), ['a/x', 'c/x'])
+    t.strictSame(ps.hardLinks('b/x'), [])
+    t.strictSame(newPS().hardLinks(), [], 'cwd not lstat yet')
+  })
+})
+
+t.test('jail', async t => {
+  const tree = () =>
+    memfs({
+      jail: {
+        a: '',
+        d: { x: '' },
+        up: memfs.symlink('..'),
+        out: memfs.symlink('/secret'),
+        chain: memfs.symlink('out'),
+        in: memfs.symlink('d'),
+        abs: memfs.symlink('/jail/a'),
+      },
+      secret: { s: '' },
+      real: { a: '' },
+      linked: memfs.symlink('real'),
+    })
+
+  t.test('links', async t => {
+    const ps = new PathScurryPosix('/jail', { fs: tree(), jail: true })
+    t.equal(ps.cwd.escapesJail(), false)
+    t.equal(ps.cwd.resolve('a').escapesJail(), false)
+    t.equal(ps.cwd.resolve('../secret').escapesJail(), true)
+    t.equal(ps.cwd.resolve('/').escapesJail(), true)
+    // not known to lead outside until the link is read
+    t.equal(ps.cwd.resolve('out/s').escapesJail(), false)
+    t.equal(ps.readlinkSync('out'), undefined)
+    t.equal(ps.cwd.resolve('out').readlinkCached(), undefined)
+    t.equal(ps.cwd.resolve('out').escapesJail(), true)
+    t.equal(ps.cwd.resolve('out/s').escapesJail(), true)
+    t.equal(await ps.readlink('up'), undefined)
+    t.equal(ps.readlinkSync('up'), undefined, 'cached')
+    t.equal(await ps.readlink('in'), '/jail/d')
+    t.equal(ps.readlinkSync('abs'), '/jail/a')
+    t.equal(await ps.cwd.resolve('abs').readlink(), ps.cwd.resolve('a'))
+    t.equal(ps.realpathSync('chain'), undefined)
+    t.equal(await ps.realpath('chain'), undefined, 'cached')
+    t.equal(ps.cwd.resolve('chain').realpathCached(), undefined)
+    t.equal(ps.cwd.resolve('chain').escapesJail(), true)
+    t.equal(ps.cwd.resolve('chain').readlinkCached(), undefined)
+    t.equal(await ps.realpath('in'), '/jail/d')
+    t.equal(ps.realpathSync('in'), '/jail/d')
+    t.equal(await ps.realpath('../secret'), undefined)
+    t.equal(ps.realpathSync('nope'), undefined)
+    t.equal(await ps.realpath('nope'), undefined)
+
+    // no jail, everything goes
+    const free = new PathScurryPosix('/jail', { fs: tree() })
+    t.equal(free.cwd.resolve('../secret').escapesJail(), false)
+    t.equal(free.readlinkSync('out'), '/secret')
+    t.equal(await free.realpath('chain'), '/secret')
+  })
+
+  t.test('follow walks', async t => {
+    const expect = [
+      '/jail',
+      '/jail/a',
+      '/jail/abs',
+      '/jail/chain',
+      '/jail/d',
+      '/jail/d/x',
+      '/jail/in',
+      '/jail/out',
+      '/jail/up',
+    ]
+    const opts = { withFileTypes: false, follow: true } as const
+    const ps = () =>
+      new PathScurryPosix('/jail', { fs: tree(), jail: true })
+    t.strictSame(ps().walkSync(opts).sort(), expect)
+    t.strictSame((await ps().walk(opts)).sort(), expect)
+    t.strictSame([...ps().iterateSync(opts)].sort(), expect)
+    t.strictSame((await ps().stream(opts).collect()).sort(), expect)
+    t.strictSame((await ps().streamSync(opts).collect()).sort(), expect)
+    const free = new PathScurryPosix('/jail', { fs: tree() })
+    t.ok(free.walkSync(opts).includes('/secret/s'))
+  })
+
+  t.test('jail paths', async t => {
+    for (const jail of [
+      '/jail',
+      'file:///jail',
+      new URL('file:///jail'),
+    ]) {
+      const ps = new PathScurryPosix('/', { fs: tree(), jail })
+      t.equal(ps.realpathSync('jail/in'), '/jail/d')
+      t.equal(ps.realpathSync('jail/out'), undefined)
+      t.equal(ps.cwd.escapesJail(), true)
+    }
+    const ps = new PathScurryPosix('/jail/d', { fs: tree(), jail: '..' })
+    t.equal(ps.readlinkSync('../in'), '/jail/d')
+    t.equal(ps.readlinkSync('../up'), undefined)
+  })
+
+  t.test('jail that is a link', async t => {
+    const ps = new PathScurryPosix('/linked', { fs: tree(), jail: true })
+    t.equal(await ps.realpath('a'), '/real/a')
+    const sync = new PathScurryPosix('/linked', { fs: tree(), jail: true })
+    t.equal(sync.realpathSync('a'), '/real/a')
+    t.equal(sync.cwd.resolve('/real/a').escapesJail(), false)
+    t.equal(sync.cwd.resolve('/jail').escapesJail(), true)
+  })
+
+  t.test('evicted from the children cache', async t => {
+    for (const PS of [PathScurryPosix, PathScurryDarwin]) {
+      const fs = memfs({
+        jail: { b: { c: { d: '' } } },
+        other: { x: { y: '' } },
+      })
+      const ps = new PS('/jail', { fs, jail: true, childrenCacheSize: 3 })
+      ps.readdirSync('/other/x')
+      ps.readdirSync('/jail/b/c')
+      ps.readdirSync('/other')
+      // a new Path object for the same dir
+      const d = ps.cwd.resolve('/jail/b/c/d')
+      t.not(d.parent?.parent?.parent, ps.cwd)
+      t.equal(d.escapesJail(), false)
+      t.equal(
+        ps.cwd.resolve('/JAIL/b').escapesJail(),
+        PS !== PathScurryDarwin
+      )
+    }
+  })
+})
+
+t.test('changing the filesystem', async t => {
+  const tree = () =>
+    memfs({
+      a: { b: 'x' },
+      link: memfs.symlink('a/b'),
+      dlink: memfs.symlink('a'),
+    })
+  const names = (entries: PathBase[]) => entries.map(e => e.name).sort()
+
+  for (const sync of [true, false]) {
+    t.test(sync ? 'sync' : 'async', async t => {
+      const ps = new PathScurryPosix('/', { fs: tree() })
+      const mkdir = (p: string) => (sync ? ps.mkdirSync(p) : ps.mkdir(p))
+      const writeFile = (p: string, data: string) =>
+        sync ? ps.writeFileSync(p, data) : ps.writeFile(p, data)
+      const unlink = (p: string) =>
+        sync ? ps.unlinkSync(p) : ps.unlink(p)
+      const rmdir = (p: string) => (sync ? ps.rmdirSync(p) : ps.rmdir(p))
+      const rename = (p: string, d: string) =>
+        sync ? ps.renameSync(p, d) : ps.rename(p, d)
+      const symlink = (target: string, p: string) =>
+        sync ? ps.symlinkSync(target, p) : ps.symlink(target, p)
+      const { cwd } = ps
+
+      t.test('mkdir', async t => {
+        ps.readdirSync()
+        ps.lstatSync()
+        const d = await mkdir('d')
+        t.equal(d, cwd.resolve('d'))
+        t.equal(d?.isDirectory(), true)
+        t.equal(d?.calledReaddir(), true, 'known to be empty')
+        t.strictSame(d?.readdirCached(), [])
+        t.strictSame(names(cwd.readdirCached()), [
+          'a',
+          'd',
+          'dlink',
+          'link',
+        ])
+        t.equal(cwd.lstatCached(), undefined, 'parent has changed')
+        t.equal(await mkdir('a'), undefined)
+        t.equal(cwd.resolve('a').lastErrorCode(), 'EEXIST')
+        // a dir that was known not to exist, with children that can't
+        const x = cwd.resolve('a/nope/x')
+        ps.readdirSync('a')
+        t.equal(x.isENOENT(), true)
+        t.ok(await mkdir('a/nope'))
+        t.equal(x.isENOENT(), true)
+        t.equal((await mkdir('a/nope/x'))?.isENOENT(), false)
+        t.strictSame(names(ps.readdirSync('a/nope')), ['x'])
+        t.strictSame(names(cwd.resolve('a').readdirCached()), [
+          'b',
+          'nope',
+        ])
+      })
+
+      t.test('writeFile', async t => {
+        ps.readdirSync('a')
+        const known = cwd.resolve('a/known')
+        t.equal(ps.lstatSync(known), undefined)
+        t.equal(known.isENOENT(), true)
+        t.equal((await writeFile('a/known', ''))?.isFile(), true)
+        t.equal(sync ? ps.unlinkSync(known) : await ps.unlink(known), true)
+        const c = await writeFile('a/c', 'hi')
+        t.equal(c?.isFile(), true)
+        t.equal(c?.isENOENT(), false)
+        t.ok(names(cwd.resolve('a').readdirCached()).includes('c'))
+        t.equal(ps.lstatSync('a/b')?.size, 1)
+        t.equal(await writeFile('a/b', 'hello'), cwd.resolve('a/b'))
+        t.equal(cwd.resolve('a/b').lstatCached(), undefined)
+        t.equal(ps.lstatSync('a/b')?.size, 5)
+        // written through the link
+        ps.lstatSync('link')
+        ps.realpathSync('link')
+        ps.readlinkSync('link')
+        t.ok(await writeFile('link', 'abc'))
+        t.equal(cwd.resolve('link').isSymbolicLink(), true)
+        t.equal(cwd.resolve('a/b').lstatCached(), undefined)
+        t.equal(ps.lstatSync('a/b')?.size, 3)
+        // not known whether it's a link or not
+        const u = cwd.resolve('dlink/b')
+        t.ok(await writeFile('dlink/b', 'abcd'))
+        t.equal(u.isUnknown(), true)
+        t.equal(u.isENOENT(), false)
+        t.equal(await writeFile('a', ''), undefined)
+        t.equal(cwd.resolve('a').lastErrorCode(), 'EISDIR')
+      })
+
+      t.test('unlink', async t => {
+        ps.readdirSync('a')
+        const c = cwd.resolve('a/c')
+        ps.lstatSync(c)
+        t.equal(await unlink('a/c'), true)
+        t.equal(c.isENOENT(), true)
+        t.equal(c.lstatCached(), undefined)
+        t.notOk(names(cwd.resolve('a').readdirCached()).includes('c'))
+        t.equal(await unlink('a/c'), false)
+        t.equal(c.lastErrorCode(), 'ENOENT')
+        // listing not known
+        t.equal(await symlink('b', 'a/nope/l'), cwd.resolve('a/nope/l'))
+        cwd.resolve('a/nope').invalidate()
+        t.equal(await unlink('a/nope/l'), true)
+        t.equal(cwd.resolve('a/nope/l').isENOENT(), true)
+      })
+
+      t.test('rmdir', async t => {
+        t.equal(await rmdir('a/nope'), false)
+        t.equal(cwd.resolve('a/nope').lastErrorCode(), 'ENOTEMPTY')
+        t.equal(await rmdir('a/nope/x'), true)
+        t.equal(await rmdir('a/nope'), true)
+        t.equal(cwd.resolve('a/nope/x').isENOENT(), true)
+        t.equal(await rmdir('a/nope'), false)
+        t.equal(cwd.resolve('a/nope').lastErrorCode(), 'ENOENT')
+      })
+
+      t.test('rename', async t => {
+        ps.readdirSync()
+        ps.readdirSync('a')
+        const b = cwd.resolve('a/b')
+        ps.lstatSync(b)
+        const moved = await rename('a/b', 'b')
+        t.equal(moved, cwd.resolve('b'))
+        t.equal(moved?.isFile(), true)
+        t.equal(b.isENOENT(), true)
+        t.strictSame(names(cwd.resolve('a').readdirCached()), [])
+        t.ok(names(cwd.readdirCached()).includes('b'))
+        // strings are relative to the entry's dir
+        const c = sync
+          ? cwd.resolve('b').renameSync('a/c')
+          : await cwd.resolve('b').rename('a/c')
+        t.equal(c, cwd.resolve('a/c'))
+        t.equal(c?.parent, cwd.resolve('a'))
+        t.equal(
+          sync ? c?.renameSync(c) : await c?.rename(c),
+          c,
+          'moved to itself'
+        )
+        // dirs are read again from the new location
+        t.ok(await rename('a', 'z'))
+        const z = cwd.resolve('z')
+        t.equal(z.isDirectory(), true)
+        t.equal(z.calledReaddir(), false)
+        t.strictSame(names(ps.readdirSync(z)), ['c'])
+        t.equal(cwd.resolve('a/c').isENOENT(), true)
+        t.equal(await rename('a', 'y'), undefined)
+        t.equal(cwd.resolve('a').lastErrorCode(), 'ENOENT')
+        const root = cwd.resolve('/')
+        t.equal(
+          sync ? root.renameSync('x') : await root.rename('x'),
+          undefined
+        )
+        t.equal(root.lastErrorCode(), 'EBUSY')
+        t.ok(await rename('z', 'a'))
+      })
+
+      t.test('symlink', async t => {
+        ps.readdirSync()
+        const gone = cwd.resolve('l2/c')
+        t.equal(ps.lstatSync(gone), undefined)
+        t.equal(gone.isENOENT(), true)
+        const l = await symlink('a', 'l2')
+        t.equal(l?.isSymbolicLink(), true)
+        t.equal(l?.readlinkCached(), cwd.resolve('a'))
+        t.equal(gone.isENOENT(), false, 'may exist now')
+        t.equal(ps.realpathSync(gone), '/a/c')
+        t.ok(names(cwd.readdirCached()).includes('l2'))
+        t.equal(await symlink('b', 'l2'), undefined)
+        t.equal(l?.lastErrorCode(), 'EEXIST')
+      })
+
+      t.test('copyFile, chmod, and utimes', async t => {
+        const copyFile = (p: string, d: string) =>
+          sync ? ps.copyFileSync(p, d) : ps.copyFile(p, d)
+        const chmod = (p: string, mode: number) =>
+          sync ? ps.chmodSync(p, mode) : ps.chmod(p, mode)
+        const utimes = (p: string, a: number, m: number) =>
+          sync ? ps.utimesSync(p, a, m) : ps.utimes(p, a, m)
+        ps.readdirSync()
+        const link = (await symlink('a/c', 'l3')) as PathBase
+        const c = await copyFile('l3', 'c')
+        t.equal(c, cwd.resolve('c'))
+        t.equal(c?.isFile(), true)
+        t.ok(names(cwd.readdirCached()).includes('c'))
+        t.equal(ps.lstatSync('c')?.size, ps.lstatSync('a/c')?.size)
+        t.equal(await copyFile('a', 'd'), undefined)
+        t.equal(cwd.resolve('a').lastErrorCode(), 'EISDIR')
+        // relative to the dir the entry is in
+        const b = cwd.resolve('a/c')
+        t.equal(b.copyFileSync('e'), cwd.resolve('a/e'))
+
+        t.equal(await chmod('c', 0o600), c)
+        t.equal(c?.lstatCached(), undefined, 'stats are out of date')
+        t.equal(ps.lstatSync('c')?.mode, 0o100600)
+        t.equal(await utimes('c', 1, 2), c)
+        t.equal(ps.lstatSync('c')?.mtimeMs, 2000)
+        t.equal(await chmod('nope', 0o600), undefined)
+        t.equal(await utimes('nope', 1, 2), undefined)
+        t.equal(cwd.resolve('nope').lastErrorCode(), 'ENOENT')
+
+        // the link's target is what changes
+        ps.lstatSync(link)
+        t.equal(await utimes('l3', 3, 4), link)
+        t.equal(link.lstatCached(), link, 'the link is the same')
+        ps.realpathSync(link)
+        ps.lstatSync(b)
+        t.equal(await chmod('l3', 0o600), link)
+        t.equal(b.lstatCached(), undefined)
+        t.equal(ps.statSync(link)?.mode, 0o100600)
+        t.equal(ps.statSync(link)?.mtimeMs, 4000)
+      })
+    })
+  }
+
+  t.test('entries that have fallen out of the cache', async t => {
+    const fs = tree()
+    const ps = new PathScurryPosix('/', { fs, childrenCacheSize: 3 })
+    const b = ps.cwd.resolve('a/b')
+    // a new listing, without the old Path object in it
+    fs.mkdirSync?.('/other')
+    fs.mkdirSync?.('/other/x')
+    ps.readdirSync('/other/x')
+    ps.readdirSync('/other')
+    ps.readdirSync('a')
+    t.not(ps.cwd.resolve('a/b'), b)
+    t.equal(b.unlinkSync(), true)
+    t.equal(b.isENOENT(), true)
+  })
+
+  t.test('entries changed behind its back', async t => {
+    const fs = tree()
+    const ps = new PathScurryPosix('/', { fs })
+    const n = ps.cwd.resolve('new')
+    ps.readdirSync()
+    fs.writeFileSync?.('/new', '')
+    t.equal(n.isENOENT(), true)
+    t.equal(n.unlinkSync(), true)
+    t.equal(n.isENOENT(), true)
+  })
+
+  t.test('on disk', async t => {
+    const td = t.testdir({})
+    const ps = new PathScurry(td)
+    t.ok(await ps.mkdir('d'))
+    t.ok(await ps.writeFile('d/f', 'x'))
+    t.ok(ps.symlinkSync('d/f', 'l'))
+    t.ok(await ps.symlink('d', 'dl'))
+    t.ok(ps.renameSync('l', 'm'))
+    t.equal(fs.readFileSync(td + '/m', 'utf8'), 'x')
+    t.equal(await ps.unlink('m'), true)
+    t.equal(ps.unlinkSync('dl'), true)
+    t.ok(ps.writeFileSync('d/f', 'y'))
+    t.ok(await ps.rename('d/f', 'g'))
+    t.ok(ps.mkdirSync('e'))
+    t.equal(ps.unlinkSync('g'), true)
+    t.equal(await ps.rmdir('d'), true)
+    t.equal(ps.rmdirSync('e'), true)
+    t.strictSame(readdirSync(td), [])
+    t.strictSame(ps.readdirSync(), [])
+  })
+})
+
+t.test('copy', async t => {
+  const tree = () => {
+    const fs = memfs({
+      src: {
+        a: 'hello',
+        d: { b: 'x', e: {}, up: memfs.symlink('..') },
+        in: memfs.symlink('d/b'),
+        out: memfs.symlink('/other/f'),
+        dl: memfs.symlink('/other'),
+      },
+      other: { f: 'f', g: { h: 'h', back: memfs.symlink('/src/d') } },
+      dest: {
+        s: { a: memfs.symlink('d/b'), in: memfs.symlink('a'), out: '' },
+      },
+    })
+    fs.chmodSync?.('/src/a', 0o600)
+    fs.utimesSync?.('/src/a', 100, 200)
+    fs.chmodSync?.('/src/d', 0o700)
+    fs.utimesSync?.('/src/d', 300, 400)
+    return fs
+  }
+  // fails when the path is one of the ones provided
+  const breaking = (fs: FSOption, method: string, ...paths: string[]) => {
+    const fail = (...args: any[]) => {
+      if (args.some(a => paths.includes(a))) {
+        throw Object.assign(new Error('broken'), { code: 'EBROKEN' })
+      }
+    }
+    const m = `${method}Sync`
+    return {
+      ...fs,
+      [m]: (...args: any[]) => {
+        fail(...args)
+        return fs[m](...args)
+      },
+      promises: {
+        ...fs.promises,
+        [method]: async (...args: any[]) => {
+          fail(...args)
+          return fs.promises?.[method](...args)
+        },
+      },
+    }
+  }
+  const paths = (entries: PathBase[]) =>
+    entries.map(e => e.fullpath()).sort()
+
+  for (const sync of [true, false]) {
+    t.test(sync ? 'sync' : 'async', async t => {
+      const copy = (
+        ps: PathScurryPosix,
+        src: string,
+        dest: string,
+        opts?: CopyOptions
+      ): Promise<PathBase[]> | PathBase[] =>
+        sync ? ps.copySync(src, dest, opts) : ps.copy(src, dest, opts)
+      const rejects = async (t: Tap.Test, fn: () => any, code: string) => {
+        try {
+          await fn()
+        } catch (er) {
+          return t.equal((er as NodeJS.ErrnoException).code, code)
+        }
+        t.fail('did not throw')
+      }
+
+      t.test('files, dirs, and links', async t => {
+        const fs = tree()
+        const ps = new PathScurryPosix('/', { fs })
+        t.strictSame(paths(await copy(ps, 'src', 'dest/s')), [
+          '/dest/s/a',
+          '/dest/s/d',
+          '/dest/s/d/b',
+          '/dest/s/d/e',
+          '/dest/s/d/up',
+          '/dest/s/dl',
+          '/dest/s/in',
+          '/dest/s/out',
+        ])
+        t.equal(fs.readFileSync?.('/dest/s/a', 'utf8'), 'hello')
+        t.equal(fs.readlinkSync?.('/dest/s/in'), 'd/b')
+        t.equal(fs.readlinkSync?.('/dest/s/d/up'), '..')
+        t.equal(fs.readlinkSync?.('/dest/s/out'), '/other/f')
+        t.equal(fs.readlinkSync?.('/dest/s/dl'), '/other')
+        t.match(fs.lstatSync?.('/dest/s/a'), {
+          mode: 0o100600,
+          atimeMs: 100000,
+          mtimeMs: 200000,
+        })
+        t.match(fs.lstatSync?.('/dest/s/d'), {
+          mode: 0o40700,
+          mtimeMs: 400000,
+        })
+        // the cache knows about them
+        t.strictSame(
+          ps.cwd
+            .resolve('dest/s/d')
+            .readdirCached()
+            .map(e => e.name)
+            .sort(),
+          ['b', 'e', 'up']
+        )
+
+        // nothing has changed
+        t.strictSame(await copy(ps, 'src', 'dest/s', { sync: true }), [])
+        t.strictSame(await copy(ps, 'src', 'dest/s', { sync: true }), [])
+        fs.writeFileSync?.('/src/a', 'hello!')
+        fs.unlinkSync?.('/src/in')
+        fs.symlinkSync?.('a', '/src/in')
+        ps.invalidate('src', { recursive: true })
+        t.strictSame(
+          paths(await copy(ps, 'src', 'dest/s', { sync: true })),
+          ['/dest/s/a', '/dest/s/in']
+        )
+        t.equal(fs.readFileSync?.('/dest/s/in', 'utf8'), 'hello!')
+        // everything is copied again without the sync option
+        t.equal((await copy(ps, 'src', 'dest/s')).length, 6)
+      })
+
+      t.test('a single file, or a dangling link', async t => {
+        const fs = tree()
+        fs.symlinkSync?.('nope', '/src/dangling')
+        const ps = new PathScurryPosix('/', { fs })
+        t.strictSame(paths(await copy(ps, 'src/a', 'dest/a')), ['/dest/a'])
+        t.strictSame(paths(await copy(ps, 'src/dangling', 'dest/x')), [
+          '/dest/x',
+        ])
+        t.equal(fs.readlinkSync?.('/dest/x'), '/src/nope')
+        await rejects(
+          t,
+          () => copy(ps, 'src/dangling', 'dest/y', { dereference: true }),
+          'ENOENT'
+        )
+        await rejects(t, () => copy(ps, 'nope', 'dest/y'), 'ENOENT')
+        await rejects(t, () => copy(ps, 'src', 'nope/y'), 'ENOENT')
+        // left out of the listing, so there is no error from the fs
+        ps.cwd.resolve('src/missing')
+        ps.invalidate('src')
+        ps.readdirSync('src')
+        await rejects(t, () => copy(ps, 'src/missing', 'dest/y'), 'ENOENT')
+        await rejects(t, () => copy(ps, 'src', 'dest/a'), 'EEXIST')
+      })
+
+      t.test('dereference', async t => {
+        const fs = tree()
+        const ps = new PathScurryPosix('/', { fs })
+        const copied = await copy(ps, 'src', 'dest/r', {
+          dereference: true,
+        })
+        t.strictSame(paths(copied), [
+          '/dest/r',
+          '/dest/r/a',
+          '/dest/r/d',
+          '/dest/r/d/b',
+          '/dest/r/d/e',
+          '/dest/r/d/up',
+          '/dest/r/dl',
+          '/dest/r/dl/f',
+          '/dest/r/dl/g',
+          '/dest/r/dl/g/back',
+          '/dest/r/dl/g/back/b',
+          '/dest/r/dl/g/back/e',
+          '/dest/r/dl/g/back/up',
+          '/dest/r/dl/g/h',
+          '/dest/r/in',
+          '/dest/r/out',
+        ])
+        t.equal(fs.readFileSync?.('/dest/r/in', 'utf8'), 'x')
+        t.equal(fs.lstatSync?.('/dest/r/out').isFile(), true)
+        t.equal(fs.readFileSync?.('/dest/r/dl/g/h', 'utf8'), 'h')
+        // links that would loop are left as links
+        t.equal(fs.readlinkSync?.('/dest/r/d/up'), '..')
+        t.equal(fs.readlinkSync?.('/dest/r/dl/g/back/up'), '/src')
+
+        // depth is counted through the links
+        const shallow = await copy(ps, 'src', 'dest/m', {
+          dereference: true,
+          maxDepth: 1,
+        })
+        t.ok(paths(shallow).includes('/dest/m/dl'))
+        t.strictSame(
+          fs.readdirSync?.('/dest/m/dl', { withFileTypes: true }),
+          []
+        )
+        const deep = await copy(ps, 'src', 'dest/n', {
+          dereference: true,
+          minDepth: 2,
+        })
+        // the link isn't copied, so neither is what it points to
+        t.ok(paths(deep).includes('/dest/n/d/b'))
+        t.notOk(paths(deep).includes('/dest/n/a'))
+        t.notOk(paths(deep).includes('/dest/n/dl'))
+      })
+
+      t.test('walk options', async t => {
+        const fs = tree()
+        const ps = new PathScurryPosix('/', { fs })
+        const copied = await copy(ps, 'src', 'dest/f', {
+          filter: e => e.name !== 'd',
+          exclude: ['a'],
+        })
+        // the dir is still created for what's in it
+        t.ok(paths(copied).includes('/dest/f/d'))
+        t.ok(paths(copied).includes('/dest/f/d/b'))
+        t.notOk(paths(copied).includes('/dest/f/a'))
+        t.equal(fs.lstatSync?.('/dest/f/d').mode, 0o40755, 'not preserved')
+        await copy(ps, 'src/a', 'dest/np', { preserve: false })
+        t.equal(fs.lstatSync?.('/dest/np').mtimeMs, 0)
+      })
+
+      t.test('errors', async t => {
+        const ps = new PathScurryPosix('/', {
+          fs: memfs({
+            src: {
+              secret: memfs.error('EACCES', 'x'),
+              link: memfs.error('EPERM', memfs.symlink('secret')),
+            },
+            dest: { s: { secret: {}, link: {} } },
+          }),
+        })
+        await rejects(t, () => copy(ps, 'src/secret', 'dest/x'), 'EACCES')
+        await rejects(t, () => copy(ps, 'src/link', 'dest/x'), 'EPERM')
+        // can't replace a dir with a file or a link
+        await rejects(
+          t,
+          () => copy(ps, 'src', 'dest/s', { exclude: ['link'] }),
+          'EACCES'
+        )
+        for (const [method, path] of [
+          ['unlink', '/dest/s/a'],
+          ['unlink', '/dest/s/in'],
+          ['symlink', '/dest/s/in'],
+          ['chmod', '/dest/s/a'],
+          ['mkdir', '/dest/s/d'],
+        ]) {
+          const ps = new PathScurryPosix('/', {
+            fs: breaking(tree(), method, path),
+          })
+          await rejects(t, () => copy(ps, 'src', 'dest/s'), 'EBROKEN')
+        }
+        const dir = new PathScurryPosix('/', {
+          fs: memfs({ src: { a: '' }, dest: { a: { b: '' } } }),
+        })
+        await rejects(t, () => copy(dir, 'src', 'dest'), 'EISDIR')
+        const link = new PathScurryPosix('/', {
+          fs: memfs({
+            src: { a: memfs.symlink('x') },
+            dest: { a: { b: '' } },
+          }),
+        })
+        await rejects(t, () => copy(link, 'src', 'dest'), 'EISDIR')
+      })
+
+      t.test('links out of the jail are left out', async t => {
+        const fs = tree()
+        const ps = new PathScurryPosix('/src', { fs, jail: true })
+        const copied = await copy(ps, '/src', '/dest/j')
+        t.ok(paths(copied).includes('/dest/j/in'))
+        t.notOk(paths(copied).includes('/dest/j/out'))
+      })
+    })
+  }
+
+  t.test('on disk', async t => {
+    const td = t.testdir({
+      src: { a: 'hello', d: { b: 'x' }, l: t.fixture('symlink', 'd/b') },
+    })
+    fs.chmodSync(td + '/src/a', 0o600)
+    fs.utimesSync(td + '/src/a', 1000.5, 2000.25)
+    const ps = new PathScurry(td)
+    t.equal((await ps.copy('src', 'dest')).length, 5)
+    const st = fs.lstatSync(td + '/dest/a')
+    t.equal(st.mode & 0o777, 0o600)
+    t.equal(Math.floor(st.mtimeMs), 2000250)
+    t.equal(fs.readlinkSync(td + '/dest/l'), 'd/b')
+    t.strictSame(ps.copySync('src', 'dest', { sync: true }), [])
+    t.strictSame(await ps.copy('src', 'dest', { sync: true }), [])
+  })
+})
+
+t.test('diff', async t => {
+  const tree = () => {
+    const fs = memfs({
+      a: {
+        same: 'x',
+        mod: 'hello',
+        len: 'x',
+        hashed: 'hello',
+        gone: '',
+        t: '',
+        Case: '',
+        d: { x: '', y: '' },
+        in: memfs.symlink('same'),
+        abs: memfs.symlink('/a/same'),
+        moved: memfs.symlink('same'),
+        out: memfs.symlink('/elsewhere'),
+      },
+      b: {
+        same: 'x',
+        mod: 'hello',
+        len: 'xy',
+        hashed: 'jello',
+        t: {},
+        case: '',
+        d: { x: '', new: '' },
+        new: { deep: '' },
+        in: memfs.symlink('same'),
+        abs: memfs.symlink('/b/same'),
+        moved: memfs.symlink('mod'),
+        out: memfs.symlink('/elsewhere'),
+      },
+    })
+    fs.utimesSync?.('/b/mod', 1, 1)
+    return fs
+  }
+  const records = (found: DiffEntry[]) =>
+    found.map(({ type, path, a, b }) => [
+      type,
+      path,
+      a?.fullpath(),
+      b?.fullpath(),
+    ])
+  const expect = [
+    ['removed', 'Case', '/a/Case', undefined],
+    ['added', 'case', undefined, '/b/case'],
+    ['added', 'd/new', undefined, '/b/d/new'],
+    ['removed', 'd/y', '/a/d/y', undefined],
+    ['removed', 'gone', '/a/gone', undefined],
+    ['modified', 'len', '/a/len', '/b/len'],
+    ['modified', 'mod', '/a/mod', '/b/mod'],
+    ['modified', 'moved', '/a/moved', '/b/moved'],
+    ['added', 'new', undefined, '/b/new'],
+    ['type-changed', 't', '/a/t', '/b/t'],
+  ]
+
+  for (const sync of [true, false]) {
+    t.test(sync ? 'sync' : 'async', async t => {
+      type Side = string | PathBase | PathScurrySnapshot
+      const diff = async (
+        ps: PathScurryBase,
+        a: Side,
+        b: Side,
+        opts?: DiffOptions
+      ) =>
+        records(sync ? ps.diffSync(a, b, opts) : await ps.diff(a, b, opts))
+      const rejects = async (t: Tap.Test, fn: () => any, code: string) => {
+        try {
+          await fn()
+        } catch (er) {
+          return t.equal((er as NodeJS.ErrnoException).code, code)
+        }
+        t.fail('did not throw')
+      }
+
+      t.test('two trees', async t => {
+        const ps = new PathScurryPosix('/', { fs: tree() })
+        t.strictSame(await diff(ps, 'a', 'b'), expect)
+        // again, with everything already cached
+        t.strictSame(await diff(ps, ps.cwd.resolve('a'), 'b'), expect)
+        t.strictSame(await diff(ps, 'a', 'a'), [])
+        t.strictSame(await diff(ps, 'a/mod', 'b/mod'), [
+          ['modified', '', '/a/mod', '/b/mod'],
+        ])
+        t.strictSame(await diff(ps, 'a/d', 'b/d/x'), [
+          ['type-changed', '', '/a/d', '/b/d/x'],
+        ])
+      })
+
+      t.test('names are matched without case when nocase', async t => {
+        const ps = new PathScurryDarwin('/', { fs: tree() })
+        t.strictSame(
+          await diff(ps, 'a', 'b'),
+          expect.filter(([, path]) => path !== 'Case' && path !== 'case')
+        )
+      })
+
+      t.test('hash', async t => {
+        const ps = new PathScurryPosix('/', { fs: tree() })
+        t.strictSame(await diff(ps, 'a', 'b', { hash: true }), [
+          ...expect.slice(0, 5),
+          ['modified', 'hashed', '/a/hashed', '/b/hashed'],
+          ['modified', 'len', '/a/len', '/b/len'],
+          ['modified', 'moved', '/a/moved', '/b/moved'],
+          ['added', 'new', undefined, '/b/new'],
+          ['type-changed', 't', '/a/t', '/b/t'],
+        ])
+      })
+
+      t.test('snapshots', async t => {
+        const fs = tree()
+        const ps = new PathScurryPosix('/a', { fs })
+        ps.walkSync({ stat: true })
+        ps.readlinkSync('in')
+        ps.readlinkSync('abs')
+        const snap = ps.toSnapshot()
+        fs.writeFileSync?.('/a/gone', 'now it is here')
+        fs.utimesSync?.('/a/mod', 1, 1)
+        fs.unlinkSync?.('/a/d/x')
+        const live = new PathScurryPosix('/a', { fs })
+        t.strictSame(await diff(live, snap, '/a'), [
+          ['removed', 'd/x', '/a/d/x', undefined],
+          ['modified', 'gone', '/a/gone', '/a/gone'],
+          ['modified', 'mod', '/a/mod', '/a/mod'],
+        ])
+        // no contents to hash in a snapshot
+        t.strictSame(
+          (await diff(live, '/a', snap, { hash: true })).map(
+            ([type, path]) => [type, path]
+          ),
+          [
+            ['added', 'd/x'],
+            ['modified', 'gone'],
+            ['modified', 'mod'],
+          ]
+        )
+        t.strictSame(await diff(live, snap, snap), [])
+      })
+
+      t.test('snapshots without stats or listings', async t => {
+        const fs = tree()
+        const ps = new PathScurryPosix('/a', { fs })
+        ps.readdirSync()
+        const snap = ps.toSnapshot()
+        fs.utimesSync?.('/a/mod', 1, 1)
+        const live = new PathScurryPosix('/a', { fs })
+        // only compared by type, and d was never read
+        t.strictSame(await diff(live, snap, '/a'), [])
+        t.strictSame(await diff(live, '/a', snap), [])
+      })
+
+      t.test('errors', async t => {
+        const ps = new PathScurryPosix('/', { fs: tree() })
+        await rejects(t, () => diff(ps, 'a', 'nope'), 'ENOENT')
+        // left out of the listing, so there is no error from the fs
+        ps.cwd.resolve('a/missing')
+        ps.invalidate('a')
+        ps.readdirSync('a')
+        await rejects(t, () => diff(ps, 'a/missing', 'a'), 'ENOENT')
+        // a dir that can't be read, without an error from the fs
+        const unlisted = new PathScurryPosix('/', { fs: tree() })
+        Object.assign(unlisted.cwd.resolve('b/d'), {
+          readdir: async () => [],
+          readdirSync: () => [],
+        })
+        await rejects(t, () => diff(unlisted, 'a', 'b'), 'ENOTDIR')
+        const failing = (fault: FSFault) =>
+          new PathScurryPosix('/', { fs: faultfs(tree(), [fault]) })
+        await rejects(
+          t,
+          () =>
+            diff(
+              failing({ path: '/b/d', method: 'readdir', code: 'EIO' }),
+              'a',
+              'b'
+            ),
+          'EIO'
+        )
+        await rejects(
+          t,
+          () =>
+            diff(
+              failing({
+                path: '/a/hashed',
+                method: 'readFile',
+                code: 'EIO',
+              }),
+              'a',
+              'b',
+              { hash: true }
+            ),
+          'EIO'
+        )
+        // links that can't be read are compared by their stats
+        const unreadable = failing({
+          path: '/b/moved',
+          method: 'readlink',
+          code: 'EIO',
+        })
+        t.strictSame(await diff(unreadable, 'a', 'b'), expect)
+      })
+    })
+  }
+
+  t.test('files on disk', async t => {
+    // big enough to be read in more than one chunk
+    const big = Buffer.alloc(200_000)
+    const td = t.testdir({
+      a: { f: Buffer.from([0x80, 0x81]), big, same: big },
+      b: {
+        f: Buffer.from([0x81, 0x80]),
+        big: Buffer.concat([big.subarray(1), Buffer.from([1])]),
+        same: big,
+      },
+    })
+    for (const f of ['a/f', 'a/big', 'a/same', 'b/f', 'b/big']) {
+      fs.utimesSync(td + '/' + f, 1, 1)
+    }
+    fs.utimesSync(td + '/b/same', 2, 2)
+    const ps = new PathScurry(td)
+    const changed = (found: DiffEntry[]) =>
+      found.map(({ type, path }) => [type, path])
+    t.strictSame(changed(await ps.diff('a', 'b')), [['modified', 'same']])
+    const expect = [
+      ['modified', 'big'],
+      ['modified', 'f'],
+    ]
+    t.strictSame(changed(ps.diffSync('a', 'b', { hash: true })), expect)
+    t.strictSame(changed(await ps.diff('a', 'b', { hash: true })), expect)
+  })
+})
+
+t.test('rm', async t => {
+  const tree = () =>
+    memfs({
+      a: { b: 'x', c: { d: '', e: '' }, keep: { f: '' } },
+      link: memfs.symlink('a/c'),
+      g: '',
+    })
+  // the first `times` calls to remove the path fail with the code
+  const failing = (
+    fs: FSOption,
+    path: string,
+    code: string,
+    times = 1
+  ) => {
+    const fail = (p: string, m: string) => {
+      if (p !== path || times-- <= 0) return
+      throw Object.assign(new Error(`${code}: ${m} '${p}'`), {
+        code,
+        syscall: m,
+        path: p,
+      })
+    }
+    return {
+      ...fs,
+      unlinkSync: (p: string) => {
+        fail(p, 'unlink')
+        fs.unlinkSync?.(p)
+      },
+      rmdirSync: (p: string) => {
+        fail(p, 'rmdir')
+        fs.rmdirSync?.(p)
+      },
+      promises: {
+        ...fs.promises,
+        unlink: async (p: string) => {
+          fail(p, 'unlink')
+          await fs.promises?.unlink?.(p)
+        },
+        rmdir: async (p: string) => {
+          fail(p, 'rmdir')
+          await fs.promises?.rmdir?.(p)
+        },
+      },
+    }
+  }
+  const paths = (entries: PathBase[]) => entries.map(e => e.fullpath())
+
+  for (const sync of [true, false]) {
+    t.test(sync ? 'sync' : 'async', async t => {
+      const rm = (
+        ps: PathScurryPosix,
+        p?: string,
+        opts?: RmOptions
+      ): Promise<PathBase[]> | PathBase[] =>
+        sync ? ps.rmSync(p, opts) : ps.rm(p, opts)
+      const rejects = async (t: Tap.Test, fn: () => any, code: string) => {
+        try {
+          await fn()
+        } catch (er) {
+          return t.equal((er as NodeJS.ErrnoException).code, code)
+        }
+        t.fail('did not throw')
+      }
+
+      t.test('files, and dirs with recursive', async t => {
+        const ps = new PathScurryPosix('/', { fs: tree() })
+        const d = ps.cwd.resolve('a/c/d')
+        ps.readdirSync('a/c')
+        t.strictSame(paths(await rm(ps, 'g')), ['/g'])
+        t.equal(ps.cwd.resolve('g').isENOENT(), true)
+        await rejects(t, () => rm(ps, 'a'), 'EISDIR')
+        // the link is removed, not what it points to
+        t.strictSame(paths(await rm(ps, 'link')), ['/link'])
+        t.equal(d.isENOENT(), false)
+        const removed = paths(await rm(ps, 'a', { recursive: true }))
+        t.equal(removed[removed.length - 1], '/a', 'bottom-up')
+        t.strictSame(removed.sort(), [
+          '/a',
+          '/a/b',
+          '/a/c',
+          '/a/c/d',
+          '/a/c/e',
+          '/a/keep',
+          '/a/keep/f',
+        ])
+        t.equal(d.isENOENT(), true)
+        t.equal(ps.cwd.resolve('a').isENOENT(), true)
+        t.strictSame(ps.readdirSync(), [])
+      })
+
+      t.test('force', async t => {
+        const ps = new PathScurryPosix('/', { fs: tree() })
+        await rejects(t, () => rm(ps, 'nope'), 'ENOENT')
+        t.strictSame(await rm(ps, 'nope', { force: true }), [])
+        ps.readdirSync('a')
+        ps.readdirSync()
+        // not found in the listing
+        await rejects(t, () => rm(ps, 'a/nope'), 'ENOENT')
+        t.strictSame(await rm(ps, 'a/nope', { force: true }), [])
+        // gone behind its back
+        const fs = memfs({ h: '', i: {} })
+        const ps2 = new PathScurryPosix('/', { fs })
+        ps2.readdirSync()
+        fs.unlinkSync?.('/h')
+        fs.rmdirSync?.('/i')
+        await rejects(t, () => rm(ps2, 'h'), 'ENOENT')
+        t.strictSame(await rm(ps2, 'h', { force: true }), [])
+        t.strictSame(
+          await rm(ps2, 'i', { force: true, recursive: true }),
+          []
+        )
+      })
+
+      t.test('other errors', async t => {
+        const ps = new PathScurryPosix('/', {
+          fs: memfs({ secret: memfs.error('EACCES', { x: '' }) }),
+        })
+        await rejects(
+          t,
+          () => rm(ps, 'secret', { force: true, recursive: true }),
+          'EACCES'
+        )
+        const ps2 = new PathScurryPosix('/', {
+          fs: memfs({ gone: memfs.error('EIO') }),
+        })
+        await rejects(t, () => rm(ps2, 'gone', { force: true }), 'EIO')
+      })
+
+      t.test('filter and dryRun', async t => {
+        const ps = new PathScurryPosix('/', { fs: tree() })
+        const filter = (e: PathBase) =>
+          sync ? e.name !== 'keep' : Promise.resolve(e.name !== 'keep')
+        const dry = paths(
+          await rm(ps, 'a', { recursive: true, filter, dryRun: true })
+        ).sort()
+        t.strictSame(dry, [
+          '/a/b',
+          '/a/c',
+          '/a/c/d',
+          '/a/c/e',
+          '/a/keep/f',
+        ])
+        t.strictSame(
+          ps
+            .readdirSync('a/c')
+            .map(e => e.name)
+            .sort(),
+          ['d', 'e'],
+          'nothing removed'
+        )
+        const removed = paths(
+          await rm(ps, 'a', { recursive: true, filter })
+        )
+        t.strictSame(removed.sort(), dry)
+        t.strictSame(
+          ps.readdirSync('a').map(e => e.name),
+          ['keep'],
+          'the dir with a kept entry is kept'
+        )
+        t.strictSame(ps.readdirSync('a/keep'), [])
+      })
+
+      t.test('retries', async t => {
+        const ps = new PathScurryPosix('/', {
+          fs: failing(tree(), '/a/c', 'ENOTEMPTY', 2),
+        })
+        const opts = { recursive: true, retryDelay: 1 }
+        t.ok(paths(await rm(ps, 'a', opts)).includes('/a/c'))
+        t.strictSame(
+          ps
+            .readdirSync()
+            .map(e => e.name)
+            .sort(),
+          ['g', 'link']
+        )
+
+        const busy = new PathScurryPosix('/', {
+          fs: failing(tree(), '/g', 'EBUSY', 3),
+        })
+        await rejects(
+          t,
+          () => rm(busy, 'g', { maxRetries: 2, retryDelay: 1 }),
+          'EBUSY'
+        )
+        t.strictSame(paths(await rm(busy, 'g', { retryDelay: 1 })), ['/g'])
+
+        // not retried for files
+        const ps2 = new PathScurryPosix('/', {
+          fs: failing(tree(), '/g', 'ENOTEMPTY'),
+        })
+        await rejects(
+          t,
+          () => rm(ps2, 'g', { retryDelay: 1 }),
+          'ENOTEMPTY'
+        )
+      })
+    })
+  }
+
+  t.test('things added while it is being emptied', async t => {
+    const fs = tree()
+    const ps = new PathScurryPosix('/', { fs })
+    let added = false
+    const result = ps.rmSync('a', {
+      recursive: true,
+      filter: e => {
+        if (!added && e.name === 'c') {
+          fs.writeFileSync?.('/a/c/new', '')
+          added = true
+        }
+        return true
+      },
+    })
+    t.ok(paths(result).includes('/a/c/new'))
+    t.strictSame(
+      ps
+        .readdirSync()
+        .map(e => e.name)
+        .sort(),
+      ['g', 'link']
+    )
+  })
+
+  t.test('default entry and concurrency', async t => {
+    const ps = new PathScurryPosix('/x', {
+      fs: memfs({ x: { a: '', b: { c: '' } } }),
+    })
+    t.equal(
+      (await ps.rm(undefined, { recursive: true, concurrency: 1 })).length,
+      4
+    )
+    t.equal(ps.cwd.isENOENT(), true)
+    // known not to exist, without having to look
+    t.throws(() => ps.rmSync('/x', { recursive: true }), {
+      code: 'ENOENT',
+      message: `ENOENT: no such file or directory, rm '/x'`,
+    })
+    await t.rejects(ps.rm('/x'), { code: 'ENOENT' })
+  })
+
+  t.test('errors', async t => {
+    const ps = new PathScurryPosix('/', { fs: tree() })
+    t.throws(() => ps.rmSync('a'), {
+      code: 'EISDIR',
+      syscall: 'rm',
+      path: '/a',
+      message: `EISDIR: is a directory, rm '/a'`,
+    })
+    t.throws(() => ps.rmSync('g', { filter: async () => true }))
+  })
+
+  t.test('failures wait for the other removals', async t => {
+    const fs = tree()
+    const ps = new PathScurryPosix('/', {
+      fs: faultfs(failing(fs, '/a/b', 'EACCES'), [
+        { path: '/a/keep', method: 'readdir', delay: 20 },
+      ]),
+    })
+    await t.rejects(ps.rm('a', { recursive: true }), { code: 'EACCES' })
+    // the slow dir was emptied and removed before the rejection
+    t.strictSame(
+      fs.readdirSync?.('/a', { withFileTypes: true }).map(e => e.name),
+      ['b']
+    )
+  })
+})
+
+t.test('abort signal', async t => {
+  const td = t.testdir({
+    a: { b: { c: { d: '' } }, e: '' },
+    f: { g: '' },
+    h: '',
+  })
+  const all = new PathScurry(td).walkSync().length
+
+  t.test('already aborted', async t => {
+    const ac = new AbortController()
+    ac.abort(new Error('pre-aborted'))
+    const { signal } = ac
+    const ps = new PathScurry(td)
+    await t.rejects(ps.walk({ signal }), { message: 'pre-aborted' })
+    t.throws(() => ps.walkSync({ signal }), { message: 'pre-aborted' })
+    t.strictSame([...ps.iterateSync({ signal })], [])
+    const found: PathBase[] = []
+    for await (const e of ps.iterate({ signal })) found.push(e)
+    t.strictSame(found, [])
+    await t.rejects(ps.stream({ signal }).promise(), {
+      message: 'pre-aborted',
+    })
+    await t.rejects(ps.streamSync({ signal }).promise(), {
+      message: 'pre-aborted',
+    })
+  })
+
+  t.test('aborted mid-walk', async t => {
+    // abort as soon as we see the first entry below the walk root
+    const abortingOpts = () => {
+      const ac = new AbortController()
+      return {
+        signal: ac.signal,
+        filter: (e: PathBase) => {
+          if (e.depth() > depth) ac.abort(new Error('mid-walk'))
+          return true
+        },
+      }
+    }
+    const depth = new PathScurry(td).cwd.depth()
+    await t.rejects(new PathScurry(td).walk(abortingOpts()), {
+      message: 'mid-walk',
+    })
+    t.throws(() => new PathScurry(td).walkSync(abortingOpts()), {
+      message: 'mid-walk',
+    })
+    const syncFound = [...new PathScurry(td).iterateSync(abortingOpts())]
+    t.equal(syncFound.length, 2, 'stops right after aborting entry')
+    const found: PathBase[] = []
+    for await (const e of new PathScurry(td).iterate(abortingOpts())) {
+      found.push(e)
+    }
+    t.ok(found.length < all, 'did not walk everything')
+    await t.rejects(new PathScurry(td).stream(abortingOpts()).promise(), {
+      message: 'mid-walk',
+    })
+    await t.rejects(
+      new PathScurry(td).streamSync(abortingOpts()).promise(),
+      { message: 'mid-walk' }
+    )
+  })
+
+  t.test('aborted by consumer', async t => {
+    const ac = new AbortController()
+    const { signal } = ac
+    const found: PathBase[] = []
+    for await (const e of new PathScurry(td).iterate({ signal })) {
+      found.push(e)
+      ac.abort()
+    }
+    t.ok(found.length < all, 'did not walk everything')
+  })
+
+  t.test('never aborted', async t => {
+    const { signal } = new AbortController()
+    const found: PathBase[] = []
+    for await (const e of new PathScurry(td).iterate({ signal })) {
+      found.push(e)
+    }
+    t.equal(found.length, all)
+  })
+
+  t.test('aborted while the iterator is waiting', async t => {
+    const ac = new AbortController()
+    const { signal } = ac
+    const found: PathBase[] = []
+    const filter = (e: PathBase) => {
+      if (e.name !== 'h') return true
+      ac.abort()
+      return new Promise<boolean>(r => setTimeout(() => r(true)))
+    }
+    for await (const e of new PathScurry(td).iterate({ signal, filter })) {
+      found.push(e)
+    }
+    t.ok(found.length < all, 'did not walk everything')
+  })
+
+  t.test('aborted by a filter that excludes the entry', async t => {
+    const ac = new AbortController()
+    const { signal } = ac
+    const found = [
+      ...new PathScurry(td).iterateSync({
+        signal,
+        filter: e => {
+          if (e.name === 'a') ac.abort()
+          return e.name !== 'a'
+        },
+      }),
+    ]
+    t.ok(found.length < all, 'did not walk everything')
+  })
+})
+
+t.test('concurrency limit', async t => {
+  const tree: { [k: string]: any } = {}
+  for (let i = 0; i < 10; i++) {
+    tree[`d${i}`] = { a: { b: '' }, c: { d: '' } }
+    tree[`l${i}`] = t.fixture('symlink', `d${i}`)
+  }
+  const td = t.testdir(tree)
+  let inflight = 0
+  let max = 0
+  const track = <T>(p: Promise<T>) => {
+    max = Math.max(max, ++inflight)
+    return p.then(v => {
+      inflight--
+      return v
+    })
+  }
+  const myfs: FSOption = {
+    readdir: (path, opts, cb) => {
+      max = Math.max(max, ++inflight)
+      fs.readdir(path, opts, (er, entries) => {
+        inflight--
+        cb(er, entries)
+      })
+    },
+    promises: {
+      realpath: (path: string) => track(fsp.realpath(path)),
+      lstat: (path: string) => track(fsp.lstat(path)),
+    },
+  }
+  const expect = new PathScurry(td).walkSync({ follow: true }).length
+  for (const concurrency of [1, 3, undefined]) {
+    t.test(`concurrency=${concurrency}`, async t => {
+      const limit = concurrency || 64
+      const opts = { follow: true, concurrency }
+      max = 0
+      const w = await new PathScurry(td, { fs: myfs }).walk(opts)
+      t.equal(w.length, expect, 'walk found everything')
+      t.ok(max <= limit, `walk max in flight ${max} <= ${limit}`)
+      if (concurrency === 1) t.equal(max, 1)
+      max = 0
+      const s = await new PathScurry(td, { fs: myfs })
+        .stream(opts)
+        .collect()
+      t.equal(new Set(s).size, expect, 'stream found everything')
+      t.ok(max <= limit, `stream max in flight ${max} <= ${limit}`)
+      if (concurrency === 1) t.equal(max, 1)
+      max = 0
+      const found = new Set<Path>()
+      const ps = new PathScurry(td, { fs: myfs })
+      for await (const e of ps.iterate(opts)) found.add(e)
+      t.equal(found.size, expect, 'iterate found everything')
+      t.ok(max <= limit, `iterate max in flight ${max} <= ${limit}`)
+    })
+  }
+})
+
+t.test('sort and traversal order', async t => {
+  const td = t.testdir({
+    Z: '',
+    a: { z: '', B: '' },
+    b: { y: '', x: { 2: '', 1: '' } },
+    c: { d: {} },
+    link: t.fixture('symlink', 'a'),
+  })
+  const reverse = (a: PathBase, b: PathBase) =>
+    a.name < b.name ? 1 : a.name > b.name ? -1 : 0
+  const cases: [WalkOptions, string[]][] = [
+    [
+      { sort: 'name' },
+      [
+        '',
+        'Z',
+        'a',
+        'b',
+        'c',
+        'link',
+        'a/B',
+        'a/z',
+        'b/x',
+        'b/y',
+        'c/d',
+        'b/x/1',
+        'b/x/2',
+      ],
+    ],
+    [
+      { sort: 'name', traversal: 'breadth-first' },
+      [
+        '',
+        'Z',
+        'a',
+        'b',
+        'c',
+        'link',
+        'a/B',
+        'a/z',
+        'b/x',
+        'b/y',
+        'c/d',
+        'b/x/1',
+        'b/x/2',
+      ],
+    ],
+    [
+      { sort: 'name', traversal: 'depth-first' },
+      [
+        '',
+        'Z',
+        'a',
+        'a/B',
+        'a/z',
+        'b',
+        'b/x',
+        'b/x/1',
+        'b/x/2',
+        'b/y',
+        'c',
+        'c/d',
+        'link',
+      ],
+    ],
+    [
+      { sort: 'name-nocase' },
+      [
+        '',
+        'a',
+        'b',
+        'c',
+        'link',
+        'Z',
+        'a/B',
+        'a/z',
+        'b/x',
+        'b/y',
+        'c/d',
+        'b/x/1',
+        'b/x/2',
+      ],
+    ],
+    [
+      { sort: 'name-nocase', traversal: 'depth-first' },
+      [
+        '',
+        'a',
+        'a/B',
+        'a/z',
+        'b',
+        'b/x',
+        'b/x/1',
+        'b/x/2',
+        'b/y',
+        'c',
+        'c/d',
+        'link',
+        'Z',
+      ],
+    ],
+    [
+      { sort: reverse, follow: true },
+      [
+        '',
+        'link',
+        'c',
+        'b',
+        'a',
+        'Z',
+        'a/z',
+        'a/B',
+        'c/d',
+        'b/y',
+        'b/x',
+        'b/x/2',
+        'b/x/1',
+      ],
+    ],
+    [
+      { sort: reverse, follow: true, traversal: 'depth-first' },
+      [
+        '',
+        'link',
+        'a/z',
+        'a/B',
+        'c',
+        'c/d',
+        'b',
+        'b/y',
+        'b/x',
+        'b/x/2',
+        'b/x/1',
+        'a',
+        'Z',
+      ],
+    ],
+    [
+      { sort: 'name', traversal: 'depth-first', maxDepth: 1 },
+      ['', 'Z', 'a', 'b', 'c', 'link'],
+    ],
+    [{ sort: 'name', traversal: 'depth-first', maxDepth: 0 }, ['']],
+    [
+      {
+        sort: 'name',
+        traversal: 'depth-first',
+        minDepth: 2,
+        filter: e => e.name !== 'x',
+      },
+      ['a/B', 'a/z', 'b/x/1', 'b/x/2', 'b/y', 'c/d'],
+    ],
+  ]
+  const rel = (p: string) => relative(td, p).replace(/\\/g, '/')
+  for (const [opts, expect] of cases) {
+    const name = JSON.stringify(opts, (_, v) =>
+      typeof v === 'function' ? v.name : v
+    )
+    t.test(name, async t => {
+      const o = { ...opts, withFileTypes: false } as const
+      const check = (found: string[], method: string) =>
+        t.strictSame(found.map(rel), expect, method)
+      // run each twice, to cover both cold and warm cache
+      const ps = new PathScurry(td)
+      for (const warm of ['cold', 'warm']) {
+        check(await ps.walk(o), `walk ${warm}`)
+        check(ps.walkSync(o), `walkSync ${warm}`)
+      }
+      check(await new PathScurry(td).stream(o).collect(), 'stream')
+      check(await ps.stream(o).collect(), 'stream, warm')
+      check(await new PathScurry(td).streamSync(o).collect(), 'streamSync')
+      check([...new PathScurry(td).iterateSync(o)], 'iterateSync')
+      const it: string[] = []
+      for await (const p of new PathScurry(td).iterate(o)) it.push(p)
+      check(it, 'iterate')
+    })
+  }
+
+  t.test('depth-first without sorting', async t => {
+    // can't know what order the fs will return entries in, but every
+    // entry between a dir and its child must be inside that dir.
+    const check = (found: string[], method: string) => {
+      t.equal(found.length, 13, method)
+      for (const [i, p] of found.entries()) {
+        const parent = p.split('/').slice(0, -1).join('/')
+        if (!parent) continue
+        const start = found.indexOf(parent)
+        t.ok(start !== -1 && start < i, `${method} ${p} after parent`)
+        for (const q of found.slice(start + 1, i)) {
+          t.ok(q.startsWith(parent + '/'), `${method} ${q} in ${parent}`)
+        }
+      }
+    }
+    const o = { traversal: 'depth-first', withFileTypes: false } as const
+    check((await new PathScurry(td).walk(o)).map(rel), 'walk')
+    check(new PathScurry(td).walkSync(o).map(rel), 'walkSync')
+  })
+
+  t.test('name-nocase tie breaking', async t => {
+    // names that differ only by case can't coexist on some filesystems,
+    // so rename one of them on the way out of readdir.
+    const td = t.testdir({ a: '', b: '' })
+    const rename = (entries: fs.Dirent[]) => {
+      for (const e of entries) if (e.name === 'b') e.name = 'A'
+      return entries
+    }
+    const myfs: FSOption = {
+      readdir: (path, opts, cb) =>
+        fs.readdir(path, opts, (er, entries) => cb(er, rename(entries))),
+      readdirSync: (path, opts) => rename(fs.readdirSync(path, opts)),
+    }
+    const o = { sort: 'name-nocase', withFileTypes: false } as const
+    const expect = [td, resolve(td, 'A'), resolve(td, 'a')]
+    t.strictSame(await new PathScurry(td, { fs: myfs }).walk(o), expect)
+    t.strictSame(new PathScurry(td, { fs: myfs }).walkSync(o), expect)
+  })
+
+  t.test('depth-first with file types', async t => {
+    const o = { sort: 'name', traversal: 'depth-first' } as const
+    const expect = cases[2]?.[1]
+    const ps = new PathScurry(td)
+    t.strictSame(
+      [...ps.iterateSync(o)].map(e => rel(e.fullpath())),
+      expect
+    )
+    t.strictSame(
+      (await new PathScurry(td).stream(o).collect()).map(e =>
+        rel(e.fullpath())
+      ),
+      expect
+    )
+  })
+
+  t.test('depth-first follow into unread dir', async t => {
+    const td = t.testdir({
+      link: t.fixture('symlink', 'x/y'),
+      x: { y: { z: '' } },
+    })
+    const o = {
+      sort: 'name',
+      traversal: 'depth-first',
+      follow: true,
+      withFileTypes: false,
+    } as const
+    const expect = ['', 'link', 'x/y/z', 'x', 'x/y']
+    const rel = (p: string) => relative(td, p).replace(/\\/g, '/')
+    t.strictSame([...new PathScurry(td).iterateSync(o)].map(rel), expect)
+    t.strictSame(
+      (await new PathScurry(td).stream(o).collect()).map(rel),
+      expect
+    )
+  })
+
+  t.test('depth-first abort', async t => {
+    const options = (ac: AbortController) =>
+      ({
+        sort: 'name',
+        traversal: 'depth-first',
+        signal: ac.signal,
+        withFileTypes: false,
+        filter: (e: PathBase) => {
+          if (e.name === 'z') ac.abort(new Error('stop'))
+          return true
+        },
+      } as const)
+    t.strictSame(
+      [
+        ...new PathScurry(td).iterateSync(options(new AbortController())),
+      ].map(rel),
+      ['', 'Z', 'a', 'a/B', 'a/z']
+    )
+    t.throws(
+      () => new PathScurry(td).walkSync(options(new AbortController())),
+      { message: 'stop' }
+    )
+    const { signal } = new AbortController()
+    t.strictSame(
+      new PathScurry(td).walkSync({
+        sort: 'name',
+        traversal: 'depth-first',
+        withFileTypes: false,
+        signal,
+      }),
+      cases[2]?.[1].map(p => resolve(td, p))
+    )
+  })
+
+  t.test('backpressure', async t => {
+    const o = {
+      sort: 'name',
+      traversal: 'depth-first',
+      withFileTypes: false,
+    } as const
+    for (const method of ['stream', 'streamSync'] as const) {
+      const found: string[] = []
+      // consume slowly, so that the stream has to wait for us
+      const ps = new PathScurry(td)
+      const s = method === 'stream' ? ps.stream(o) : ps.streamSync(o)
+      for await (const p of s) {
+        found.push(rel(p))
+        await new Promise(r => setTimeout(r))
+      }
+      t.strictSame(found, cases[2]?.[1], method)
+    }
+  })
+})
+
+t.test('async filter and walkFilter', async t => {
+  const td = t.testdir({
+    a: { b: '', c: { d: '' } },
+    e: { f: { g: '' } },
+    h: '',
+    link: t.fixture('symlink', 'e'),
+  })
+  const rel = (p: string) => relative(td, p).replace(/\\/g, '/')
+  // resolve in a random order, to shake out any ordering assumptions
+  const later = <T>(v: T) =>
+    new Promise<T>(r => setTimeout(() => r(v), Math.random() * 5))
+  const filter = (e: PathBase) => !e.name.startsWith('b')
+  const walkFilter = (e: PathBase) => e.name !== 'c'
+  const asyncFilter = (e: PathBase) => later(filter(e))
+  const asyncWalkFilter = (e: PathBase) => later(walkFilter(e))
+
+  for (const follow of [false, true]) {
+    const expect = new PathScurry(td)
+      .walkSync({ filter, walkFilter, follow, withFileTypes: false })
+      .map(rel)
+      .sort((a, b) => a.localeCompare(b, 'en'))
+    t.test(`follow=${follow}`, async t => {
+      for (const [f, wf] of [
+        [asyncFilter, asyncWalkFilter],
+        [asyncFilter, walkFilter],
+        [filter, asyncWalkFilter],
+      ]) {
+        const o = {
+          filter: f,
+          walkFilter: wf,
+          follow,
+          withFileTypes: false,
+        } as const
+        const s = (found: string[]) =>
+          found.map(rel).sort((a, b) => a.localeCompare(b, 'en'))
+        t.strictSame(s(await new PathScurry(td).walk(o)), expect, 'walk')
+        t.strictSame(
+          s(await new PathScurry(td).stream(o).collect()),
+          expect,
+          'stream'
+        )
+        const it: string[] = []
+        for await (const p of new PathScurry(td).iterate(o)) it.push(p)
+        t.strictSame(s(it), expect, 'iterate')
+      }
+    })
+  }
+
+  t.test('order is kept', async t => {
+    for (const traversal of ['breadth-first', 'depth-first'] as const) {
+      const o = { sort: 'name', traversal, withFileTypes: false } as const
+      const expect = new PathScurry(td).walkSync({
+        ...o,
+        filter,
+        walkFilter,
+      })
+      const ao = { ...o, filter: asyncFilter, walkFilter: asyncWalkFilter }
+      t.strictSame(await new PathScurry(td).walk(ao), expect, traversal)
+      // consume slowly, so that the stream has to wait for us
+      const found: string[] = []
+      for await (const p of new PathScurry(td).stream(ao)) {
+        found.push(p)
+        await new Promise(r => setTimeout(r))
+      }
+      t.strictSame(found, expect, `${traversal} with backpressure`)
+    }
+  })
+
+  t.test('entries of a dir are kept in readdir order', async t => {
+    const o = { maxDepth: 1, withFileTypes: false } as const
+    const expect = new PathScurry(td).walkSync(o)
+    // the later entries are let through first
+    const names = expect.map(p => basename(p))
+    const filter = (e: PathBase) =>
+      new Promise<boolean>(r =>
+        setTimeout(
+          () => r(true),
+          (names.length - names.indexOf(e.name)) * 5
+        )
+      )
+    t.strictSame(await new PathScurry(td).walk({ ...o, filter }), expect)
+    t.strictSame(
+      await new PathScurry(td).walk({ ...o, stat: true }),
+      expect
+    )
+  })
+
+  t.test('rejections', async t => {
+    const er = new Error('nope')
+    const reject = (name: string) => (e: PathBase) =>
+      e.name === name ? Promise.reject(er) : Promise.resolve(true)
+    const cases: WalkOptions[] = [
+      { filter: reject(basename(td)) },
+      { filter: reject('b') },
+      { filter: () => Promise.reject(er) },
+      { walkFilter: reject('c') },
+      { filter: reject('b'), sort: 'name' },
+      { walkFilter: reject('c'), traversal: 'depth-first' },
+    ]
+    for (const o of cases) {
+      await t.rejects(new PathScurry(td).walk(o), er)
+      await t.rejects(new PathScurry(td).stream(o).collect(), er)
+      await t.rejects(async () => {
+        for await (const _ of new PathScurry(td).iterate(o)) {
+        }
+      }, er)
+    }
+  })
+
+  t.test('sync walks throw', async t => {
+    const message =
+      'asynchronous filter and walkFilter functions are not ' +
+      'supported in synchronous walks'
+    for (const o of [
+      { filter: asyncFilter },
+      { walkFilter: asyncWalkFilter },
+      { filter: asyncFilter, traversal: 'depth-first' },
+    ] as WalkOptions[]) {
+      const ps = new PathScurry(td)
+      t.throws(() => ps.walkSync(o), new TypeError(message))
+      t.throws(() => [...ps.iterateSync(o)], new TypeError(message))
+      t.throws(() => ps.streamSync(o), new TypeError(message))
+    }
+  })
+})
+
+t.test('walk errors', async t => {
+  const td = t.testdir({
+    a: { b: '' },
+    locked: { secret: '' },
+    c: '',
+  })
+  const eacces = (path: string) =>
+    Object.assign(new Error(`EACCES: permission denied, ${path}`), {
+      code: 'EACCES',
+      path,
+    })
+  const locked = (path: string) => basename(path) === 'locked'
+  const myfs: FSOption = {
+    readdir: (path, opts, cb) =>
+      locked(path)
+        ? process.nextTick(() => cb(eacces(path)))
+        : fs.readdir(path, opts, cb),
+    readdirSync: (path, opts) => {
+      if (locked(path)) throw eacces(path)
+      return fs.readdirSync(path, opts)
+    },
+  }
+  const rel = (p: string) => relative(td, p).replace(/\\/g, '/')
+  const expect = ['', 'a', 'a/b', 'c', 'locked']
+  const sorted = (found: string[]) =>
+    found.map(rel).sort((a, b) => a.localeCompare(b, 'en'))
+
+  const methods: [
+    string,
+    (ps: PathScurry, o: WalkOptions) => Promise<string[]>
+  ][] = [
+    ['walk', async (ps, o) => (await ps.walk(o)) as string[]],
+    ['walkSync', async (ps, o) => ps.walkSync(o) as string[]],
+    ['stream', (ps, o) => ps.stream(o).collect() as Promise<string[]>],
+    [
+      'streamSync',
+      (ps, o) => ps.streamSync(o).collect() as Promise<string[]>,
+    ],
+    [
+      'iterate',
+      async (ps, o) => {
+        const found: string[] = []
+        for await (const p of ps.iterate(o)) found.push(p as string)
+        return found
+      },
+    ],
+    ['iterateSync', async (ps, o) => [...ps.iterateSync(o)] as string[]],
+  ]
+
+  for (const traversal of ['breadth-first', 'depth-first'] as const) {
+    t.test(traversal, async t => {
+      for (const [method, fn] of methods) {
+        t.test(method, async t => {
+          const o = { withFileTypes: false, traversal } as const
+          const calls: [string | undefined, string][] = []
+          const onError = (er: NodeJS.ErrnoException, e: PathBase) =>
+            calls.push([er.code, rel(e.fullpath())])
+
+          const ps = new PathScurry(td, { fs: myfs })
+          t.strictSame(sorted(await fn(ps, o)), expect, 'ignored')
+          t.strictSame(
+            sorted(await fn(ps, { ...o, onError, errors: 'ignore' })),
+            expect,
+            'ignored, with onError'
+          )
+          t.strictSame(calls, [['EACCES', 'locked']])
+          const dir = ps.cwd.resolve('locked')
+          t.equal(dir.lastErrorCode(), 'EACCES')
+          t.match(dir.lastError(), {
+            code: 'EACCES',
+            path: dir.fullpath(),
+          })
+
+          calls.length = 0
+          await t.rejects(
+            fn(new PathScurry(td, { fs: myfs }), {
+              ...o,
+              onError,
+              errors: 'throw',
+            }),
+            { code: 'EACCES' },
+            'thrown'
+          )
+          t.strictSame(calls, [['EACCES', 'locked']])
+          await t.rejects(
+            fn(new PathScurry(td, { fs: myfs }), {
+              ...o,
+              errors: 'throw',
+              signal: new AbortController().signal,
+            }),
+            { code: 'EACCES' },
+            'thrown, with a signal'
+          )
+        })
+      }
+    })
+  }
+
+  t.test('entries that fail to lstat or resolve', async t => {
+    const td = t.testdir({
+      w: {
+        a: { b: '' },
+        c: '',
+        toc: t.fixture('symlink', '../x'),
+        loop: t.fixture('symlink', 'loop'),
+        dangle: t.fixture('symlink', 'nope'),
+      },
+      x: { y: '' },
+    })
+    const cwd = resolve(td, 'w')
+    let denied: string[] = []
+    const deny = (path: string) => {
+      if (denied.includes(basename(path))) throw eacces(path)
+    }
+    const myfs: FSOption = {
+      lstatSync: (path: string) => {
+        deny(path)
+        return lstatSync(path)
+      },
+      promises: {
+        lstat: async (path: string) => {
+          deny(path)
+          return lstat(path)
+        },
+      },
+    }
+    const rel = (p: string) => relative(cwd, p).replace(/\\/g, '/')
+    const sorted = (found: string[]) =>
+      found.map(rel).sort((a, b) => a.localeCompare(b, 'en'))
+    const all = ['', 'a', 'a/b', 'c', 'dangle', 'loop', 'toc']
+    const cases: [
+      string,
+      WalkOptions,
+      string[],
+      [string | undefined, string][],
+      string[]
+    ][] = [
+      [
+        'follow',
+        { follow: true },
+        [],
+        [['ELOOP', 'loop']],
+        ['', '../x/y', ...all.slice(1)],
+      ],
+      [
+        'follow, target not lstatable',
+        { follow: true },
+        ['x'],
+        [
+          ['EACCES', '../x'],
+          ['ELOOP', 'loop'],
+        ],
+        all,
+      ],
+      [
+        'stat',
+        { stat: true },
+        ['c'],
+        [['EACCES', 'c']],
+        all.filter(p => p !== 'c'),
+      ],
+      [
+        'stat and dedupeHardLinks',
+        { stat: true, dedupeHardLinks: true },
+        ['c'],
+        [['EACCES', 'c']],
+        all.filter(p => p !== 'c'),
+      ],
+      [
+        'oneFileSystem',
+        { oneFileSystem: true },
+        ['a'],
+        [['EACCES', 'a']],
+        all.filter(p => p !== 'a/b'),
+      ],
+    ]
+    for (const [name, opts, deny, reported, expect] of cases) {
+      t.test(name, async t => {
+        denied = deny
+        for (const traversal of [
+          'breadth-first',
+          'depth-first',
+        ] as const) {
+          for (const [method, fn] of methods) {
+            const o = { ...opts, withFileTypes: false, traversal } as const
+            const calls: [string | undefined, string][] = []
+            const onError = (er: NodeJS.ErrnoException, e: PathBase) =>
+              calls.push([er.code, rel(e.fullpath())])
+            const ps = new PathScurry(cwd, { fs: myfs })
+            t.strictSame(
+              sorted(await fn(ps, { ...o, onError })),
+              expect,
+              `${method} ${traversal}`
+            )
+            t.strictSame(
+              calls.sort((a, b) => a[1].localeCompare(b[1], 'en')),
+              reported,
+              `${method} ${traversal} reported`
+            )
+            // with a signal, so that streamSync can emit the error before
+            // there is a listener for it
+            await t.rejects(
+              fn(new PathScurry(cwd, { fs: myfs }), {
+                ...o,
+                errors: 'throw',
+                signal: new AbortController().signal,
+              }),
+              { code: new RegExp(reported.map(([c]) => c).join('|')) },
+              `${method} ${traversal} thrown`
+            )
+          }
+        }
+      })
+    }
+  })
+
+  t.test('lastError on other operations', async t => {
+    const td = t.testdir({
+      file: '',
+      dangle: t.fixture('symlink', 'nope'),
+    })
+    for (const sync of [true, false]) {
+      const ps = new PathScurry(td)
+      const file = ps.cwd.resolve('file')
+      const dangle = ps.cwd.resolve('dangle')
+      const missing = ps.cwd.resolve('missing')
+      t.equal(file.lastError(), undefined)
+      t.equal(file.lastErrorCode(), undefined)
+      if (sync) {
+        file.readlinkSync()
+        dangle.realpathSync()
+        missing.lstatSync()
+      } else {
+        await file.readlink()
+        await dangle.realpath()
+        await missing.lstat()
+      }
+      t.ok(file.lastErrorCode(), 'readlink of a file')
+      t.equal(dangle.lastErrorCode(), 'ENOENT', 'realpath of broken link')
+      t.equal(missing.lastErrorCode(), 'ENOENT', 'lstat of missing file')
+    }
+  })
+})
+
+t.test('include and exclude', async t => {
+  const td = t.testdir({
+    src: {
+      'a.ts': '',
+      'a.js': '',
+      lib: { 'b.ts': '', 'b.d.ts': '' },
+    },
+    node_modules: { x: { 'c.ts': '' } },
+    test: { 'd.ts': '' },
+    'e.ts': '',
+    link: t.fixture('symlink', 'src/lib'),
+  })
+  const rel = (p: string) => relative(td, p).replace(/\\/g, '/')
+  const sorted = (found: string[]) =>
+    found.map(rel).sort((a, b) => a.localeCompare(b, 'en'))
+  const methods: [
+    string,
+    (ps: PathScurry, o: WalkOptions) => Promise<string[]>
+  ][] = [
+    ['walk', async (ps, o) => (await ps.walk(o)) as string[]],
+    ['walkSync', async (ps, o) => ps.walkSync(o) as string[]],
+    ['stream', (ps, o) => ps.stream(o).collect() as Promise<string[]>],
+    [
+      'streamSync',
+      (ps, o) => ps.streamSync(o).collect() as Promise<string[]>,
+    ],
+    [
+      'iterate',
+      async (ps, o) => {
+        const found: string[] = []
+        for await (const p of ps.iterate(o)) found.push(p as string)
+        return found
+      },
+    ],
+    ['iterateSync', async (ps, o) => [...ps.iterateSync(o)] as string[]],
+  ]
+  const cases: [WalkOptions, string[], string[]][] = [
+    [
+      { include: '**/*.ts', exclude: ['node_modules', '**/*.d.ts'] },
+      ['e.ts', 'src/a.ts', 'src/lib/b.ts', 'test/d.ts'],
+      ['node_modules'],
+    ],
+    [
+      {
+        include: '**/*.ts',
+        exclude: ['node_modules', '**/*.d.ts'],
+        follow: true,
+      },
+      ['e.ts', 'src/a.ts', 'src/lib/b.ts', 'test/d.ts'],
+      ['node_modules'],
+    ],
+    [{ include: 'src/*.ts' }, ['src/a.ts'], ['node_modules', 'test']],
+    [
+      { include: ['**'], exclude: 'src' },
+      [
+        '',
+        'e.ts',
+        'link',
+        'node_modules',
+        'node_modules/x',
+        'node_modules/x/c.ts',
+        'test',
+        'test/d.ts',
+      ],
+      ['src'],
+    ],
+    [{ exclude: '**' }, [], ['']],
+    [{ include: [] }, [], ['']],
+    [{ include: '' }, [''], ['']],
+  ]
+  for (const traversal of ['breadth-first', 'depth-first'] as const) {
+    for (const [opts, expect, unread] of cases) {
+      t.test(`${traversal} ${JSON.stringify(opts)}`, async t => {
+        for (const [method, fn] of methods) {
+          const ps = new PathScurry(td)
+          // only called for the entries that the patterns let through
+          const filtered: string[] = []
+          const o: WalkOptions = {
+            ...opts,
+            traversal,
+            withFileTypes: false,
+            filter: e => {
+              filtered.push(e.fullpath())
+              return true
+            },
+          }
+          t.strictSame(sorted(await fn(ps, o)), expect, method)
+          t.strictSame(sorted(filtered), expect, `${method} filter`)
+          for (const p of unread) {
+            t.equal(
+              ps.cwd.resolve(p).calledReaddir(),
+              false,
+              `${p} unread`
+            )
+          }
+        }
+      })
+    }
+  }
+})
+
+t.test('ignore files', async t => {
+  const td = t.testdir({
+    '.gitignore': 'node_modules/\n*.log\n!keep.log\n/build\n',
+    'a.log': '',
+    'keep.log': '',
+    build: { 'b.js': '' },
+    node_modules: { x: { 'c.js': '' } },
+    src: {
+      '.gitignore': '!*.log\n# build/\ngen\n',
+      '.ignore': 'keep.log\n',
+      'd.log': '',
+      'keep.log': '',
+      build: { 'e.js': '' },
+      gen: { 'f.js': '' },
+    },
+    test: {
+      '.ignore': {},
+      '.myignore': '*\n!*.js\n',
+      'g.js': '',
+      'g.ts': '',
+    },
+  })
+  const rel = (p: string) => relative(td, p).replace(/\\/g, '/')
+  const sorted = (found: string[]) =>
+    found.map(rel).sort((a, b) => a.localeCompare(b, 'en'))
+  const methods: [
+    string,
+    (ps: PathScurry, o: WalkOptions) => Promise<string[]>
+  ][] = [
+    ['walk', async (ps, o) => (await ps.walk(o)) as string[]],
+    ['walkSync', async (ps, o) => ps.walkSync(o) as string[]],
+    ['stream', (ps, o) => ps.stream(o).collect() as Promise<string[]>],
+    [
+      'streamSync',
+      (ps, o) => ps.streamSync(o).collect() as Promise<string[]>,
+    ],
+    [
+      'iterate',
+      async (ps, o) => {
+        const found: string[] = []
+        for await (const p of ps.iterate(o)) found.push(p as string)
+        return found
+      },
+    ],
+    ['iterateSync', async (ps, o) => [...ps.iterateSync(o)] as string[]],
+  ]
+  const cases: [WalkOptions, string[], string[]][] = [
+    [
+      { ignoreFiles: true },
+      [
+        '',
+        '.gitignore',
+        'keep.log',
+        'src',
+        'src/.gitignore',
+        'src/.ignore',
+        'src/build',
+        'src/build/e.js',
+        'src/d.log',
+        'test',
+        'test/.ignore',
+        'test/.myignore',
+        'test/g.js',
+        'test/g.ts',
+      ],
+      ['build', 'node_modules', 'src/gen'],
+    ],
+    [
+      { ignoreFiles: ['.gitignore', '.myignore'], sort: 'name' },
+      [
+        '',
+        '.gitignore',
+        'keep.log',
+        'src',
+        'src/.gitignore',
+        'src/.ignore',
+        'src/build',
+        'src/build/e.js',
+        'src/d.log',
+        'src/keep.log',
+        'test',
+        'test/g.js',
+      ],
+      ['build', 'node_modules', 'src/gen'],
+    ],
+    [
+      { ignoreFiles: true, include: '**/*.js' },
+      ['src/build/e.js', 'test/g.js'],
+      ['build', 'node_modules', 'src/gen'],
+    ],
+    [
+      { ignoreFiles: [] },
+      [
+        '',
+        '.gitignore',
+        'a.log',
+        'build',
+        'build/b.js',
+        'keep.log',
+        'node_modules',
+        'node_modules/x',
+        'node_modules/x/c.js',
+        'src',
+        'src/.gitignore',
+        'src/.ignore',
+        'src/build',
+        'src/build/e.js',
+        'src/d.log',
+        'src/gen',
+        'src/gen/f.js',
+        'src/keep.log',
+        'test',
+        'test/.ignore',
+        'test/.myignore',
+        'test/g.js',
+        'test/g.ts',
+      ],
+      [],
+    ],
+  ]
+  for (const traversal of ['breadth-first', 'depth-first'] as const) {
+    for (const [opts, expect, unread] of cases) {
+      t.test(`${traversal} ${JSON.stringify(opts)}`, async t => {
+        for (const [method, fn] of methods) {
+          const ps = new PathScurry(td)
+          const o: WalkOptions = {
+            ...opts,
+            traversal,
+            withFileTypes: false,
+          }
+          t.strictSame(sorted(await fn(ps, o)), expect, method)
+          for (const p of unread) {
+            t.equal(
+              ps.cwd.resolve(p).calledReaddir(),
+              false,
+              `${p} unread`
+            )
+          }
+        }
+      })
+    }
+  }
+
+  t.test('reads ignore files with the fs option', async t => {
+    const read: string[] = []
+    const ps = new PathScurry(td, {
+      fs: {
+        readFileSync: (path: string, encoding: 'utf8') => {
+          read.push(rel(path))
+          return fs.readFileSync(path, encoding)
+        },
+        promises: {
+          readFile: async (path: string, encoding: 'utf8') => {
+            read.push(rel(path))
+            return fsp.readFile(path, encoding)
+          },
+        },
+      },
+    })
+    const o = {
+      ignoreFiles: ['.gitignore'],
+      withFileTypes: false as const,
+    }
+    const expect = sorted(await ps.walk(o))
+    t.strictSame(read, ['.gitignore', 'src/.gitignore'])
+    read.length = 0
+    t.strictSame(sorted(ps.walkSync(o)), expect)
+    t.strictSame(read, ['.gitignore', 'src/.gitignore'])
+  })
+})
+
+t.test('stat option', async t => {
+  const td = t.testdir({
+    a: { b: 'hello', gone: '' },
+    c: 'world!',
+  })
+  // pretend that gone was removed between the readdir and the lstat
+  const enoent = (path: string) => {
+    if (basename(path) === 'gone') {
+      throw Object.assign(new Error('no'), { code: 'ENOENT' })
+    }
+  }
+  let lstats = 0
+  const myfs: FSOption = {
+    lstatSync: (path: string) => {
+      lstats++
+      enoent(path)
+      return lstatSync(path)
+    },
+    promises: {
+      lstat: async (path: string) => {
+        lstats++
+        enoent(path)
+        return lstat(path)
+      },
+    },
+  }
+  const methods: [
+    string,
+    (ps: PathScurry, o: WalkOptions) => Promise<PathBase[]>
+  ][] = [
+    ['walk', async (ps, o) => (await ps.walk(o)) as PathBase[]],
+    ['walkSync', async (ps, o) => ps.walkSync(o) as PathBase[]],
+    ['stream', (ps, o) => ps.stream(o).collect() as Promise<PathBase[]>],
+    [
+      'streamSync',
+      (ps, o) => ps.streamSync(o).collect() as Promise<PathBase[]>,
+    ],
+    [
+      'iterate',
+      async (ps, o) => {
+        const found: PathBase[] = []
+        for await (const p of ps.iterate(o)) found.push(p as PathBase)
+        return found
+      },
+    ],
+    ['iterateSync', async (ps, o) => [...ps.iterateSync(o)] as PathBase[]],
+  ]
+  for (const traversal of ['breadth-first', 'depth-first'] as const) {
+    t.test(traversal, async t => {
+      for (const [method, fn] of methods) {
+        const ps = new PathScurry(td, { fs: myfs })
+        lstats = 0
+        await fn(ps, { traversal })
+        t.equal(lstats, 0, `${method} no lstats without stat`)
+        t.equal(ps.cwd.resolve('a/b').size, undefined)
+        // stat an entry ahead of time, so it isn't stat'ed again
+        ps.cwd.resolve('c').lstatSync()
+        lstats = 0
+        const found = await fn(ps, { traversal, stat: true })
+        t.strictSame(
+          found.map(p => p.relativePosix()).sort(),
+          ['', 'a', 'a/b', 'c'],
+          method
+        )
+        for (const p of found) {
+          t.ok(p.lstatCached(), `${method} ${p.name} lstat`)
+          t.type(p.mtime, Date)
+        }
+        t.equal(ps.cwd.resolve('a/b').size, 5)
+        t.equal(ps.cwd.resolve('c').size, 6)
+        // all of them, and gone, but not c again
+        t.equal(lstats, 4, `${method} lstat calls`)
+        t.equal(ps.cwd.resolve('a/gone').lastErrorCode(), 'ENOENT')
+      }
+    })
+  }
+
+  t.test('only stat entries that pass the filters', async t => {
+    const ps = new PathScurry(td, { fs: myfs })
+    lstats = 0
+    const found = await ps.walk({
+      stat: true,
+      filter: async e => e.name !== 'a',
+      include: ['**/b', 'a'],
+    })
+    t.strictSame(
+      found.map(p => p.relativePosix()),
+      ['a/b']
+    )
+    t.equal(lstats, 1)
+  })
+})
+
+t.test('invalidate', async t => {
+  const td = t.testdir({
+    a: { b: '' },
+    c: {},
+    link: t.fixture('symlink', 'a'),
+  })
+  const ps = new PathScurry(td)
+
+  t.test('readdir', async t => {
+    t.strictSame(ps.readdirSync('', { withFileTypes: false }).sort(), [
+      'a',
+      'c',
+      'link',
+    ])
+    writeFileSync(td + '/d', 'hello')
+    t.strictSame(ps.readdirSync('', { withFileTypes: false }).sort(), [
+      'a',
+      'c',
+      'link',
+    ])
+    ps.invalidate()
+    t.equal(ps.cwd.calledReaddir(), false)
+    t.strictSame(ps.cwd.readdirCached(), [])
+    t.strictSame((await ps.readdir('', { withFileTypes: false })).sort(), [
+      'a',
+      'c',
+      'd',
+      'link',
+    ])
+    rimrafSync(td + '/d')
+    ps.cwd.invalidate()
+    t.strictSame(ps.readdirSync('', { withFileTypes: false }).sort(), [
+      'a',
+      'c',
+      'link',
+    ])
+    t.equal(ps.cwd.resolve('d').lstatSync(), undefined)
+  })
+
+  t.test('lstat', async t => {
+    const e = ps.cwd.resolve('e')
+    t.equal(await e.lstat(), undefined)
+    t.equal(e.lastErrorCode(), 'ENOENT')
+    writeFileSync(td + '/e', 'hello')
+    t.equal(await e.lstat(), undefined, 'ENOENT is cached')
+    ps.invalidate(e)
+    t.equal(e.lastError(), undefined)
+    t.equal(await e.lstat(), e)
+    t.equal(e.size, 5)
+    t.equal(e.isFile(), true)
+    // it's still a file after being invalidated, until it's looked at
+    e.invalidate()
+    t.equal(e.isFile(), true)
+    t.equal(e.lstatCached(), undefined)
+    t.equal(e.canReaddir(), false)
+  })
+
+  t.test('readlink and realpath', async t => {
+    const link = ps.cwd.resolve('link')
+    t.equal(link.readlinkSync(), ps.cwd.resolve('a'))
+    t.equal(link.realpathSync(), ps.cwd.resolve('a'))
+    rimrafSync(td + '/link')
+    fs.symlinkSync('c', td + '/link')
+    t.equal(link.readlinkCached(), ps.cwd.resolve('a'))
+    t.equal(link.realpathCached(), ps.cwd.resolve('a'))
+    ps.invalidate('link')
+    t.equal(link.readlinkCached(), undefined)
+    t.equal(link.realpathCached(), undefined)
+    t.equal(await link.readlink(), ps.cwd.resolve('c'))
+    t.equal(await link.realpath(), ps.cwd.resolve('c'))
+  })
+
+  t.test('recursive', async t => {
+    const y = ps.cwd.resolve('x/y')
+    t.equal(y.lstatSync(), undefined)
+    fs.mkdirSync(td + '/x/y', { recursive: true })
+    ps.invalidate('x')
+    t.equal(y.lstatSync(), undefined, 'child is still ENOENT')
+    ps.invalidate('x', { recursive: true })
+    t.equal(y.lstatSync(), y)
+    t.equal(y.isDirectory(), true)
+
+    // a child that didn't exist is found by the next readdir
+    const z = ps.cwd.resolve('x/y/z')
+    t.equal(z.lstatSync(), undefined)
+    writeFileSync(td + '/x/y/z', '')
+    ps.invalidate(y)
+    t.strictSame(y.readdirSync(), [z])
+    t.equal(z.isFile(), true)
+    t.equal(z.lstatSync(), z)
+
+    // nothing to do if the children aren't cached
+    const w = ps.cwd.resolve('w')
+    w.childrenCache().delete(w)
+    w.invalidate({ recursive: true })
+    t.equal(w.calledReaddir(), false)
+  })
+
+  t.test('file replaced by a dir', async t => {
+    fs.mkdirSync(td + '/f')
+    writeFileSync(td + '/f/x', '')
+    const walked = (ps: PathScurry) =>
+      ps.walkSync('f').map(e => e.relativePosix())
+    t.strictSame(walked(ps), ['f', 'f/x'])
+    t.equal(ps.cwd.resolve('f/x').canReaddir(), false)
+    rimrafSync(td + '/f/x')
+    fs.mkdirSync(td + '/f/x')
+    writeFileSync(td + '/f/x/y', '')
+    ps.invalidate('f', { recursive: true })
+    t.strictSame(walked(ps), ['f', 'f/x', 'f/x/y'])
+    t.equal(ps.cwd.resolve('f/x').isDirectory(), true)
+  })
+})
+
+t.test('snapshots', async t => {
+  const td = t.testdir({
+    a: { b: { c: 'hello' } },
+    d: { e: '' },
+    link: t.fixture('symlink', 'a/b'),
+  })
+  // count the dirs that are actually read
+  const reads: string[] = []
+  const myfs: FSOption = {
+    readdir: (path, options, cb) => {
+      reads.push(relative(td, path))
+      return fs.readdir(path, options, cb)
+    },
+    readdirSync: (path, options) => {
+      reads.push(relative(td, path))
+      return readdirSync(path, options)
+    },
+    promises: {
+      readdir: async (path, options) => {
+        reads.push(relative(td, path))
+        return fsp.readdir(path, options)
+      },
+    },
+  }
+  const walked = (ps: PathScurry) =>
+    ps
+      .walkSync({ withFileTypes: false })
+      .map(p => relative(td, p))
+      .sort((a, b) => a.localeCompare(b, 'en'))
+
+  const ps = new PathScurry(td)
+  const expect = walked(ps)
+  ps.cwd.resolve('a/b/c').lstatSync()
+  ps.cwd.resolve('link').readlinkSync()
+  ps.cwd.resolve('link').realpathSync()
+  ps.cwd.resolve('nope').lstatSync()
+  const snapshot = JSON.parse(JSON.stringify(ps.toSnapshot()))
+  t.equal(snapshot.cwd, td)
+
+  t.test('restores the cache', async t => {
+    const restored = PathScurry.fromSnapshot(snapshot, { fs: myfs })
+    t.type(restored, PathScurry)
+    t.equal(restored.cwd.fullpath(), td)
+    const c = restored.cwd.resolve('a/b/c')
+    t.equal(c.isFile(), true)
+    t.equal(c.size, 5)
+    t.type(c.mtime, Date)
+    t.equal(c.mtimeMs, ps.cwd.resolve('a/b/c').mtimeMs)
+    t.equal(c.mtime?.getTime(), ps.cwd.resolve('a/b/c').mtime?.getTime())
+    t.equal(c.lstatCached(), undefined, 'stats may be out of date')
+    const link = restored.cwd.resolve('link')
+    t.equal(link.isSymbolicLink(), true)
+    t.equal(link.readlinkCached(), restored.cwd.resolve('a/b'))
+    t.equal(link.realpathCached(), restored.cwd.resolve('a/b'))
+    t.equal(restored.cwd.calledReaddir(), true)
+    t.strictSame(
+      restored.cwd
+        .readdirCached()
+        .map(e => e.name)
+        .sort(),
+      ['a', 'd', 'link']
+    )
+    reads.length = 0
+    t.strictSame(walked(restored), expect)
+    t.strictSame(reads, [], 'nothing read if nothing changed')
+  })
+
+  t.test('changed dirs are read again', async t => {
+    writeFileSync(td + '/a/b/f', '')
+    // make sure that the mtime is different
+    fs.utimesSync(td + '/a/b', new Date(0), new Date(0))
+    fs.utimesSync(td, new Date(0), new Date(0))
+    const restored = PathScurry.fromSnapshot(snapshot, { fs: myfs })
+    const link = restored.cwd.resolve('link')
+    t.equal(link.realpathCached(), restored.cwd.resolve('a/b'))
+    reads.length = 0
+    t.strictSame(
+      walked(restored),
+      [...expect, 'a/b/f'].sort((a, b) => a.localeCompare(b, 'en'))
+    )
+    t.strictSame(reads, ['', 'a/b'])
+    // could have been replaced by something else
+    t.equal(link.realpathCached(), undefined)
+  })
+
+  t.test('async readdir', async t => {
+    fs.utimesSync(td + '/d', new Date(0), new Date(0))
+    const restored = PathScurry.fromSnapshot(snapshot, { fs: myfs })
+    reads.length = 0
+    const [a, d] = await Promise.all([
+      restored.readdir('a', { withFileTypes: false }),
+      restored.readdir('d', { withFileTypes: false }),
+      restored.readdir('d', { withFileTypes: false }),
+    ])
+    t.strictSame(a, ['b'])
+    t.strictSame(d, ['e'])
+    t.strictSame(reads, ['d'])
+  })
+
+  t.test('readdirCB', async t => {
+    const restored = PathScurry.fromSnapshot(snapshot, { fs: myfs })
+    const d = restored.cwd.resolve('d')
+    reads.length = 0
+    const results = await Promise.all(
+      [false, true].map(
+        zalgo =>
+          new Promise<PathBase[]>(res =>
+            d.readdirCB((_, entries) => res(entries), zalgo)
+          )
+      )
+    )
+    t.strictSame(results, [[d.resolve('e')], [d.resolve('e')]])
+    t.strictSame(reads, ['d'])
+  })
+
+  t.test('files that became dirs', async t => {
+    writeFileSync(td + '/g', '')
+    const ps = new PathScurry(td)
+    ps.readdirSync()
+    const snapshot = ps.toSnapshot()
+    rimrafSync(td + '/g')
+    fs.mkdirSync(td + '/g')
+    writeFileSync(td + '/g/h', '')
+    const restored = PathScurry.fromSnapshot(snapshot, { fs: myfs })
+    const g = restored.cwd.resolve('g')
+    t.equal(g.isFile(), true)
+    t.equal(g.lstatSync(), g)
+    t.equal(g.isDirectory(), true)
+    t.strictSame(restored.readdirSync('g', { withFileTypes: false }), [
+      'h',
+    ])
+    rimrafSync(td + '/g')
+  })
+
+  t.test('removed dirs', async t => {
+    const restored = PathScurry.fromSnapshot(snapshot, { fs: myfs })
+    rimrafSync(td + '/d')
+    t.strictSame(restored.readdirSync('d'), [])
+    t.equal(restored.cwd.resolve('d/e').isENOENT(), true)
+  })
+
+  t.test('snapshot of a restored cache', async t => {
+    const restored = PathScurry.fromSnapshot(snapshot, { fs: myfs })
+    const again = PathScurry.fromSnapshot(restored.toSnapshot(), {
+      fs: myfs,
+    })
+    reads.length = 0
+    t.strictSame(again.readdirSync('a', { withFileTypes: false }), ['b'])
+    t.strictSame(reads, [])
+  })
+
+  t.test('dirs that were read but not lstated', async t => {
+    const ps = new PathScurry(td)
+    ps.readdirSync('a')
+    t.equal(ps.cwd.resolve('a').lstatCached(), undefined)
+    ps.readdirSync('a/b')
+    rimrafSync(td + '/a/b')
+    const snapshot = ps.toSnapshot()
+    t.equal(ps.cwd.resolve('a').lstatCached(), ps.cwd.resolve('a'))
+    const restored = PathScurry.fromSnapshot(snapshot, { fs: myfs })
+    t.equal(restored.cwd.resolve('a').calledReaddir(), true)
+    t.equal(restored.cwd.resolve('a/b').calledReaddir(), false)
+  })
+
+  t.test('evicted and invalidated entries', async t => {
+    const ps = new PathScurry(td)
+    ps.readdirSync('a')
+    ps.cwd.resolve('a').invalidate()
+    ps.childrenCache().delete(ps.cwd.resolve('a'))
+    ps.readlinkSync('link')
+    const restored = PathScurryPosix.fromSnapshot(ps.toSnapshot())
+    t.type(restored, PathScurryPosix)
+    t.equal(restored.cwd.resolve('a').calledReaddir(), false)
+    // link target is known, but nothing else about the link
+    t.equal(
+      restored.cwd.resolve('link').readlinkCached(),
+      restored.cwd.resolve('a/b')
+    )
+  })
+
+  t.test('listing that contains the cwd', async t => {
+    const ps = new PathScurry(td)
+    const names = ps.readdirSync('', { withFileTypes: false })
+    // the cwd is created before the entries are restored
+    ps.chdir(names[names.length - 1])
+    const restored = PathScurry.fromSnapshot(ps.toSnapshot())
+    t.strictSame(
+      restored.cwd.parent?.readdirCached().map(e => e.name),
+      names
+    )
+    t.equal(restored.cwd.parent, restored.cwd.resolve(td))
+  })
+
+  t.test('unsupported version', async t => {
+    t.throws(
+      () => PathScurry.fromSnapshot({ ...snapshot, version: 2 }),
+      TypeError
+    )
+  })
+})
+
+t.test('stat follows symlinks', async t => {
+  const td = t.testdir({
+    file: 'hello',
+    dir: {},
+    link: t.fixture('symlink', 'file'),
+    dirlink: t.fixture('symlink', 'dir'),
+    dangling: t.fixture('symlink', 'nope'),
+    loop: t.fixture('symlink', 'loop'),
+  })
+  const ps = new PathScurry(td)
+  const link = ps.cwd.resolve('link')
+  t.equal(link.statCached(), undefined)
+  const st = await ps.stat('link')
+  t.equal(st?.isFile(), true)
+  t.equal(st?.size, 5)
+  t.equal(st?.ino, fs.statSync(td + '/file').ino)
+  t.equal(link.statCached(), st)
+  t.equal(ps.statSync(link), st, 'cached')
+  // the link's own stat fields are not changed
+  t.equal(link.isUnknown(), true)
+  t.equal(link.size, undefined)
+  t.equal(ps.lstatSync(link)?.isSymbolicLink(), true)
+  t.not(link.size, 5)
+  t.equal(link.statCached(), st)
+
+  t.equal(ps.statSync('dirlink')?.isDirectory(), true)
+  t.equal(ps.statSync()?.isDirectory(), true)
+  t.equal((await ps.stat())?.isDirectory(), true)
+
+  for (const [name, code] of [
+    ['dangling', 'ENOENT'],
+    ['loop', 'ELOOP'],
+  ]) {
+    const e = ps.cwd.resolve(name)
+    t.equal(ps.statSync(e), undefined)
+    t.equal(e.lastErrorCode(), code)
+    t.equal(e.realpathSync(), undefined, 'cannot be resolved either')
+    t.equal(await e.stat(), undefined)
+    t.equal(e.statSync(), undefined)
+  }
+  t.equal(await ps.stat('nope'), undefined)
+  t.equal(ps.cwd.resolve('nope').lastErrorCode(), 'ENOENT')
+  t.equal(ps.statSync('file/nope'), undefined)
+
+  // other errors may not last, so the entry can still be resolved
+  const eacces = Object.assign(new Error('EACCES: permission denied'), {
+    code: 'EACCES',
+  })
+  const denied = new PathScurry(td, {
+    fs: {
+      statSync: () => {
+        throw eacces
+      },
+    },
+  })
+  const dlink = denied.cwd.resolve('link')
+  t.equal(dlink.statSync(), undefined)
+  t.equal(dlink.lastError(), eacces)
+  t.equal(dlink.realpathSync(), denied.cwd.resolve('file'))
+
+  // invalidating forgets the target's stats
+  rimrafSync(td + '/link')
+  fs.symlinkSync('dir', td + '/link')
+  t.equal(ps.statSync('link'), st)
+  ps.invalidate('link')
+  t.equal(link.statCached(), undefined)
+  t.equal(ps.statSync('link')?.isDirectory(), true)
+})
+
+t.test('bigint stat fields', async t => {
+  const td = t.testdir({ a: 'hello', b: '' })
+  const ps = new PathScurry(td, { bigint: true })
+  const a = ps.lstatSync('a')
+  const b = await ps.lstat('b')
+  for (const [e, name] of [
+    [a, 'a'],
+    [b, 'b'],
+  ] as const) {
+    const st = lstatSync(td + '/' + name, { bigint: true })
+    t.equal(e?.dev, st.dev)
+    t.equal(e?.ino, st.ino)
+    t.equal(e?.mtimeNs, st.mtimeNs)
+    t.equal(e?.ctimeNs, st.ctimeNs)
+    t.equal(e?.mtimeMs, Number(st.mtimeNs) / 1e6)
+    t.equal(e?.mtime?.toISOString(), st.mtime.toISOString())
+    t.equal(e?.isFile(), true)
+  }
+  t.equal(a?.size, 5)
+  t.equal(a?.mode, Number(lstatSync(td + '/a').mode))
+
+  // snapshots can still be saved as JSON
+  const snap = JSON.parse(JSON.stringify(ps.toSnapshot()))
+  const restored = PathScurry.fromSnapshot(snap, { bigint: true })
+  const ra = restored.cwd.resolve('a')
+  t.equal(ra.ino, a?.ino)
+  t.equal(typeof ra.mtimeNs, 'bigint')
+  t.equal(
+    PathScurry.fromSnapshot(snap).cwd.resolve('a').ino,
+    Number(a?.ino)
+  )
+  t.equal(ra.mtimeNs, a?.mtimeNs)
+  t.equal(ra.ctimeNs, a?.ctimeNs)
+
+  // inode numbers that are too big to be stored as floats
+  const ino = 2n ** 60n + 1n
+  const big = new PathScurry(td, {
+    bigint: true,
+    fs: {
+      lstatSync: (path: string) => {
+        const st = lstatSync(path, { bigint: true })
+        st.ino = ino
+        return st as unknown as Stats
+      },
+    },
+  })
+  t.equal(big.lstatSync('a')?.ino, ino)
+  const bigSnap = JSON.parse(JSON.stringify(big.toSnapshot()))
+  t.equal(
+    PathScurry.fromSnapshot(bigSnap, { bigint: true }).cwd.resolve('a')
+      .ino,
+    ino
+  )
+
+  // without the option
+  const pn = new PathScurry(td)
+  const n = pn.lstatSync('a')
+  t.equal(typeof n?.ino, 'number')
+  t.equal(n?.mtimeNs, undefined)
+  t.equal(n?.ctimeNs, undefined)
+
+  // fs options that don't do bigint stats
+  const pm = new PathScurryPosix('/', {
+    fs: memfs({ a: 'hello' }),
+    bigint: true,
+  })
+  const m = pm.lstatSync('a')
+  t.equal(m?.ino, 2n)
+  t.equal(m?.dev, 1n)
+  t.equal(m?.mtimeNs, 0n)
+  t.equal(m?.size, 5)
+})
+
+t.test('du', async t => {
+  const td = t.testdir({
+    a: {
+      b: 'hello',
+      c: { d: 'x'.repeat(5000) },
+      link: t.fixture('symlink', 'c'),
+    },
+    e: {},
+    f: 'file',
+  })
+  // the same file in two different dirs
+  fs.linkSync(td + '/a/b', td + '/a/c/hard')
+  fs.linkSync(td + '/a/b', td + '/e/hard')
+  const sum = (...paths: string[]) => {
+    const u = { size: 0, blocks: 0 }
+    for (const p of paths) {
+      const st = lstatSync(td + p)
+      u.size += st.size
+      u.blocks += st.blocks
+    }
+    return u
+  }
+  const expectC = {
+    ...sum('/a/c', '/a/c/d', '/a/c/hard'),
+    files: 2,
+    dirs: 1,
+  }
+  const expectA = {
+    ...sum('/a', '/a/b', '/a/c', '/a/c/d', '/a/link'),
+    files: 3,
+    dirs: 2,
+  }
+  const expectAll = {
+    ...sum('', '/a', '/a/b', '/a/c', '/a/c/d', '/a/link', '/e', '/f'),
+    files: 4,
+    dirs: 4,
+  }
+
+  const ps = new PathScurry(td)
+  t.strictSame(ps.duSync('a/c'), expectC)
+  t.strictSame(await ps.du('a'), expectA)
+  t.strictSame(await ps.du(), expectAll)
+  t.strictSame(ps.cwd.resolve('e').duCached(), {
+    ...sum('/e', '/e/hard'),
+    files: 1,
+    dirs: 1,
+  })
+  t.strictSame(await ps.du('f'), { ...sum('/f'), files: 1, dirs: 0 })
+  t.equal(ps.cwd.resolve('f').duCached(), undefined, 'only dirs cached')
+  t.equal(ps.duSync('nope'), undefined)
+  t.equal(await ps.du('nope/x'), undefined)
+
+  // totals are cached
+  const a = ps.cwd.resolve('a')
+  writeFileSync(td + '/a/c/new', 'x'.repeat(100))
+  t.strictSame(ps.duSync(), expectAll)
+  t.strictSame(a.duCached(), expectA)
+  // the returned objects are copies
+  const du = ps.duSync('a') as DiskUsage
+  du.size = 0
+  t.strictSame(a.duCached(), expectA)
+
+  // invalidating an entry clears the totals of all the dirs it's in
+  ps.invalidate('a/c')
+  t.equal(a.duCached(), undefined)
+  t.equal(ps.cwd.duCached(), undefined)
+  t.strictSame(ps.cwd.resolve('e').duCached()?.files, 1)
+  t.strictSame(ps.duSync('a'), {
+    ...expectA,
+    size: expectA.size + 100,
+    blocks: expectA.blocks + lstatSync(td + '/a/c/new').blocks,
+    files: 4,
+  })
+  const f = ps.cwd.resolve('f')
+  ps.duSync()
+  f.invalidate()
+  t.equal(ps.cwd.duCached(), undefined)
+  t.not(a.duCached(), undefined)
+
+  t.test('dir in the middle without a total', async t => {
+    // a small cache, so that the Path for a is dropped and made again
+    const ps = new PathScurry(td, { childrenCacheSize: 2 })
+    ps.duSync()
+    const a = ps.cwd.resolve('a')
+    ps.cwd.resolve('e/hard')
+    ps.cwd.resolve('a/c/d')
+    t.not(ps.cwd.resolve('a'), a)
+    t.equal(ps.cwd.resolve('a').duCached(), undefined)
+    t.not(ps.cwd.duCached(), undefined)
+    ps.invalidate('a/c')
+    t.equal(ps.cwd.duCached(), undefined)
+  })
+
+  t.test('abort', async t => {
+    const ps = new PathScurry(td)
+    const ac = new AbortController()
+    ac.abort(new Error('stop'))
+    t.throws(() => ps.duSync('', { signal: ac.signal }), {
+      message: 'stop',
+    })
+    await t.rejects(ps.du('', { signal: ac.signal }), { message: 'stop' })
+    t.equal(ps.cwd.duCached(), undefined)
+  })
+})
+
 t.test('cached methods', t => {
   const td = t.testdir({
     dir: {
@@ -1567,7 +4759,10 @@ t.test('chdir', async t => {
 
   // now change to somewhere a bit more different
   ps.chdir(ps.cwd.resolve('../../i/j/k/l'))
-  t.equal(oldCwd.relative(), relative(ps.cwd.fullpath(), oldCwd.fullpath()))
+  t.equal(
+    oldCwd.relative(),
+    relative(ps.cwd.fullpath(), oldCwd.fullpath())
+  )
   t.equal(a.relative(), relative(ps.cwd.fullpath(), a.fullpath()))
   t.equal(bc.relative(), relative(ps.cwd.fullpath(), bc.fullpath()))
 
@@ -1583,14 +4778,17 @@ t.test('chdir', async t => {
     rrp: oldRoot.relativePosix(),
   }
   ps.chdir(ps.cwd.fullpath())
-  t.strictSame({
-    newCwd: ps.cwd.fullpath(),
-    oldcwdf: oldCwd.fullpath(),
-    oldcwdr: oldCwd.relative(),
-    oldcwdrp: oldCwd.relativePosix(),
-    ar: a.relative(),
-    arp: a.relativePosix(),
-    rr: oldRoot.relative(),
-    rrp: oldRoot.relativePosix(),
-  }, expect)
+  t.strictSame(
+    {
+      newCwd: ps.cwd.fullpath(),
+      oldcwdf: oldCwd.fullpath(),
+      oldcwdr: oldCwd.relative(),
+      oldcwdrp: oldCwd.relativePosix(),
+      ar: a.relative(),
+      arp: a.relativePosix(),
+      rr: oldRoot.relative(),
+      rrp: oldRoot.relativePosix(),
+    },
+    expect
+  )
 })
@@ -0,0 +1,350 @@
+import t from 'tap'
+import { memfs, PathScurryPosix } from '../'
+
+const tree = () => ({
+  a: {
+    b: 'hello',
+    c: { d: '' },
+    up: memfs.symlink('..'),
+  },
+  abs: memfs.symlink('/a/c'),
+  rel: memfs.symlink('a/b'),
+  linklink: memfs.symlink('rel'),
+  dangling: memfs.symlink('nope'),
+  loop: memfs.symlink('loop'),
+  secret: memfs.error('EACCES', { hidden: '' }),
+  gone: memfs.error('EIO'),
+  'secret-link': memfs.error('EPERM', memfs.symlink('a')),
+})
+
+const codeOf = (fn: () => any) => {
+  try {
+    fn()
+  } catch (er) {
+    return (er as NodeJS.ErrnoException).code
+  }
+  throw new Error('did not throw')
+}
+
+t.test('walking', async t => {
+  const ps = new PathScurryPosix('/', { fs: memfs(tree()) })
+  const expect = [
+    '/',
+    '/a',
+    '/a/b',
+    '/a/c',
+    '/a/c/d',
+    '/a/up',
+    '/abs',
+    '/dangling',
+    '/gone',
+    '/linklink',
+    '/loop',
+    '/rel',
+    '/secret',
+    '/secret-link',
+  ]
+  t.strictSame(ps.walkSync({ withFileTypes: false }).sort(), expect)
+  t.strictSame((await ps.walk({ withFileTypes: false })).sort(), expect)
+  // following the links into a cycle still ends
+  t.strictSame(
+    ps.walkSync({ withFileTypes: false, follow: true }).sort(),
+    expect
+  )
+  t.equal(ps.cwd.resolve('secret').lastErrorCode(), 'EACCES')
+  t.equal(ps.cwd.resolve('secret').isDirectory(), true)
+  t.equal(ps.lstatSync('gone'), undefined)
+  t.equal(ps.cwd.resolve('gone').lastErrorCode(), 'EIO')
+})
+
+t.test('links', async t => {
+  const ps = new PathScurryPosix('/', { fs: memfs(tree()) })
+  t.equal(ps.readlinkSync('rel'), '/a/b')
+  t.equal(await ps.readlink('abs'), '/a/c')
+  t.equal(ps.realpathSync('linklink'), '/a/b')
+  t.equal(await ps.realpath('a/up/abs/d'), '/a/c/d')
+  t.equal(ps.realpathSync('/'), '/')
+  t.equal(ps.realpathSync('dangling'), undefined)
+  t.equal(ps.cwd.resolve('dangling').lastErrorCode(), 'ENOENT')
+  t.equal(ps.realpathSync('loop'), undefined)
+  t.equal(ps.cwd.resolve('loop').lastErrorCode(), 'ELOOP')
+  t.equal(ps.readlinkSync('a/b'), undefined)
+  t.equal(ps.cwd.resolve('a/b').lastErrorCode(), 'EINVAL')
+  // the link itself is fine, but it can't be read or followed
+  t.equal(ps.lstatSync('secret-link')?.isSymbolicLink(), true)
+  t.equal(ps.readlinkSync('secret-link'), undefined)
+  t.equal(ps.realpathSync('secret-link'), undefined)
+  t.equal(ps.cwd.resolve('secret-link').lastErrorCode(), 'EPERM')
+})
+
+t.test('stat', async t => {
+  const ps = new PathScurryPosix('/', { fs: memfs(tree()) })
+  t.equal(ps.statSync('linklink')?.size, 5)
+  t.equal((await ps.stat('abs'))?.isDirectory(), true)
+  t.equal(ps.lstatSync('abs')?.isSymbolicLink(), true)
+  t.equal(ps.statSync('secret')?.isDirectory(), true)
+  for (const [name, code] of [
+    ['dangling', 'ENOENT'],
+    ['loop', 'ELOOP'],
+    ['secret-link', 'EPERM'],
+  ]) {
+    t.equal(ps.statSync(name), undefined)
+    t.equal(ps.cwd.resolve(name).lastErrorCode(), code, name)
+  }
+})
+
+t.test('fs methods', async t => {
+  const fs = memfs(tree())
+  const st = fs.lstatSync?.('/a/b')
+  t.match(st, {
+    ino: 3,
+    mode: 0o100644,
+    size: 5,
+    blocks: 1,
+    mtimeMs: 0,
+    mtime: new Date(0),
+  })
+  t.equal(st?.isFile(), true)
+  for (const m of [
+    'isDirectory',
+    'isSymbolicLink',
+    'isBlockDevice',
+    'isCharacterDevice',
+    'isFIFO',
+    'isSocket',
+  ] as const) {
+    t.equal(st?.[m](), false, m)
+  }
+  t.equal(fs.lstatSync?.('/').size, 4096)
+  t.equal(fs.lstatSync?.('/rel').size, 3)
+  t.equal(fs.lstatSync?.('/a/./c/../b').ino, 3)
+  t.equal(fs.lstatSync?.('/../a').isDirectory(), true)
+  t.equal(fs.lstatSync?.('C:\\a\\b').ino, 3, 'windows paths')
+  t.equal(fs.lstatSync?.('/secret').isDirectory(), true)
+  t.equal(
+    codeOf(() => fs.lstatSync?.('/gone')),
+    'EIO'
+  )
+  t.equal(
+    codeOf(() => fs.lstatSync?.('/secret/hidden')),
+    'EACCES'
+  )
+  t.equal(
+    codeOf(() => fs.lstatSync?.('/a/b/c')),
+    'ENOTDIR'
+  )
+  t.equal(
+    codeOf(() => fs.lstatSync?.('/a/nope')),
+    'ENOENT'
+  )
+  const er = await fs.promises?.lstat?.('/x').catch(er => er)
+  t.match(er, {
+    message: `ENOENT: lstat '/x'`,
+    code: 'ENOENT',
+    syscall: 'lstat',
+    path: '/x',
+  })
+
+  t.strictSame(
+    fs.readdirSync?.('/a', { withFileTypes: true }).map(d => d.name),
+    ['b', 'c', 'up']
+  )
+  t.equal(
+    codeOf(() => fs.readdirSync?.('/a/b', { withFileTypes: true })),
+    'ENOTDIR'
+  )
+  t.equal(
+    codeOf(() => fs.readdirSync?.('/secret', { withFileTypes: true })),
+    'EACCES'
+  )
+  const entries = await fs.promises?.readdir?.('/abs', {
+    withFileTypes: true,
+  })
+  t.strictSame(
+    entries?.map(d => [d.name, d.isFile()]),
+    [['d', true]]
+  )
+  t.strictSame(
+    await new Promise(res =>
+      fs.readdir?.('/a/c', { withFileTypes: true }, (er, entries) =>
+        res([er, entries?.map(d => d.name)])
+      )
+    ),
+    [null, ['d']]
+  )
+  t.strictSame(
+    await new Promise(res =>
+      fs.readdir?.('/nope', { withFileTypes: true }, (er, entries) =>
+        res([er?.code, entries])
+      )
+    ),
+    ['ENOENT', undefined]
+  )
+
+  t.equal(fs.readFileSync?.('/rel', 'utf8'), 'hello')
+  t.equal(await fs.promises?.readFile?.('/a/b', 'utf8'), 'hello')
+  t.equal(
+    codeOf(() => fs.readFileSync?.('/a', 'utf8')),
+    'EISDIR'
+  )
+  t.equal(
+    codeOf(() => fs.readFileSync?.('/gone', 'utf8')),
+    'EIO'
+  )
+  t.equal(fs.readlinkSync?.('/abs'), '/a/c')
+  t.equal(await fs.promises?.realpath?.('/a/up/rel'), '/a/b')
+})
+
+t.test('reading files a chunk at a time', async t => {
+  const fs = memfs(tree())
+  const buf = Buffer.alloc(3)
+  const fd = fs.openSync?.('/rel', 'r') as number
+  t.equal(fs.readSync?.(fd, buf, 0, 3, 0), 3)
+  t.equal(buf.toString(), 'hel')
+  t.equal(fs.readSync?.(fd, buf, 1, 2, 3), 2)
+  t.equal(buf.toString(), 'hlo')
+  t.equal(fs.readSync?.(fd, buf, 0, 3, 10), 0)
+  fs.closeSync?.(fd)
+  t.equal(
+    codeOf(() => fs.readSync?.(fd, buf, 0, 3, 0)),
+    'EBADF'
+  )
+  t.equal(
+    codeOf(() => fs.closeSync?.(fd)),
+    'EBADF'
+  )
+  t.equal(
+    codeOf(() => fs.openSync?.('/a', 'r')),
+    'EISDIR'
+  )
+  t.equal(
+    codeOf(() => fs.openSync?.('/gone', 'r')),
+    'EIO'
+  )
+
+  const fh = await fs.promises?.open?.('/a/b', 'r')
+  t.strictSame(await fh?.read(buf, 0, 3, 2), { bytesRead: 3 })
+  t.equal(buf.toString(), 'llo')
+  await fh?.close()
+  await t.rejects(fh?.read(buf, 0, 3, 0) as Promise<unknown>, {
+    code: 'EBADF',
+  })
+  await t.rejects(fs.promises?.open?.('/nope', 'r') as Promise<unknown>, {
+    code: 'ENOENT',
+  })
+})
+
+t.test('changing the tree', async t => {
+  const fs = memfs(tree())
+  const read = (p: string) =>
+    fs.readdirSync?.(p, { withFileTypes: true }).map(d => d.name)
+  const fails = (fn: () => any, code: string) => t.equal(codeOf(fn), code)
+
+  fs.mkdirSync?.('/a/c/e')
+  t.equal(fs.lstatSync?.('/a/c/e').isDirectory(), true)
+  t.strictSame(read('/abs'), ['d', 'e'], 'through links')
+  fails(() => fs.mkdirSync?.('/a'), 'EEXIST')
+  fails(() => fs.mkdirSync?.('/x/y'), 'ENOENT')
+  fails(() => fs.mkdirSync?.('/a/b/c'), 'ENOTDIR')
+  fails(() => fs.mkdirSync?.('/secret/x'), 'EACCES')
+  fails(() => fs.mkdirSync?.('/'), 'EBUSY')
+  fails(() => fs.mkdirSync?.('/a/..'), 'EBUSY')
+  await fs.promises?.mkdir?.('/a/c/f/')
+  t.strictSame(read('/a/c'), ['d', 'e', 'f'])
+
+  fs.writeFileSync?.('/a/c/e/x', 'new')
+  t.equal(fs.readFileSync?.('/a/c/e/x', 'utf8'), 'new')
+  fs.writeFileSync?.('/linklink', Buffer.from('through'))
+  t.equal(fs.readFileSync?.('/a/b', 'utf8'), 'through')
+  t.equal(fs.lstatSync?.('/linklink').isSymbolicLink(), true)
+  fails(() => fs.writeFileSync?.('/a', ''), 'EISDIR')
+  fails(() => fs.writeFileSync?.('/dangling', ''), 'ENOENT')
+  await fs.promises?.writeFile?.('/a/b', 'hello')
+  t.equal(fs.readFileSync?.('/rel', 'utf8'), 'hello')
+
+  fails(() => fs.unlinkSync?.('/a/c'), 'EISDIR')
+  fails(() => fs.unlinkSync?.('/a/nope'), 'ENOENT')
+  fs.unlinkSync?.('/a/c/e/x')
+  await fs.promises?.unlink?.('/linklink')
+  fails(() => fs.lstatSync?.('/linklink'), 'ENOENT')
+
+  fails(() => fs.rmdirSync?.('/a/nope'), 'ENOENT')
+  fails(() => fs.rmdirSync?.('/a/b'), 'ENOTDIR')
+  fails(() => fs.rmdirSync?.('/a'), 'ENOTEMPTY')
+  fs.rmdirSync?.('/a/c/e')
+  await fs.promises?.rmdir?.('/a/c/f')
+  t.strictSame(read('/a/c'), ['d'])
+
+  fs.renameSync?.('/a/b', '/a/b')
+  fails(() => fs.renameSync?.('/a/nope', '/x'), 'ENOENT')
+  fails(() => fs.renameSync?.('/a', '/a/c/a'), 'EINVAL')
+  fails(() => fs.renameSync?.('/a/c', '/a/b'), 'ENOTDIR')
+  fails(() => fs.renameSync?.('/a/b', '/a/c'), 'EISDIR')
+  fs.mkdirSync?.('/full')
+  fs.mkdirSync?.('/full/x')
+  fails(() => fs.renameSync?.('/a/c', '/full'), 'ENOTEMPTY')
+  fs.renameSync?.('/a/c', '/full/x')
+  t.strictSame(read('/full/x'), ['d'])
+  fs.writeFileSync?.('/f', 'f')
+  await fs.promises?.rename?.('/a/b', '/f')
+  t.equal(fs.readFileSync?.('/f', 'utf8'), 'hello')
+  t.strictSame(read('/a'), ['up'])
+
+  fs.symlinkSync?.('full/x', '/l')
+  t.strictSame(read('/l'), ['d'])
+  fails(() => fs.symlinkSync?.('x', '/l'), 'EEXIST')
+  await fs.promises?.symlink?.('/f', '/a/f')
+  t.equal(fs.readlinkSync?.('/a/f'), '/f')
+  t.equal(fs.readFileSync?.('/a/up/a/f', 'utf8'), 'hello')
+
+  fs.chmodSync?.('/f', 0o100600)
+  t.equal(fs.lstatSync?.('/f').mode, 0o100600)
+  await fs.promises?.chmod?.('/l', 0o700)
+  t.equal(fs.lstatSync?.('/full/x').mode, 0o40700, 'through links')
+  t.equal(fs.lstatSync?.('/l').mode, 0o120777)
+  fails(() => fs.chmodSync?.('/nope', 0o777), 'ENOENT')
+  fs.utimesSync?.('/f', 1, new Date(2000))
+  t.match(fs.lstatSync?.('/f'), {
+    atimeMs: 1000,
+    mtimeMs: 2000,
+    mtime: new Date(2000),
+  })
+  await fs.promises?.utimes?.('/l', 3, 4)
+  t.equal(fs.lstatSync?.('/full/x').atime.getTime(), 3000)
+  fails(() => fs.utimesSync?.('/secret/x', 1, 1), 'EACCES')
+
+  fs.copyFileSync?.('/f', '/g')
+  t.match(fs.lstatSync?.('/g'), { mode: 0o100600, mtimeMs: 0 })
+  t.equal(fs.readFileSync?.('/g', 'utf8'), 'hello')
+  await fs.promises?.copyFile?.('/full/x/d', '/g')
+  t.equal(fs.readFileSync?.('/g', 'utf8'), '')
+  t.equal(fs.lstatSync?.('/g').mode, 0o100644)
+  fails(() => fs.copyFileSync?.('/a', '/h'), 'EISDIR')
+  fails(() => fs.copyFileSync?.('/f', '/a'), 'EISDIR')
+  fails(() => fs.copyFileSync?.('/nope', '/h'), 'ENOENT')
+})
+
+t.test('nothing can be watched', async t => {
+  const fs = memfs({ tmp: { a: '' } })
+  const ps = new PathScurryPosix('/', { fs })
+  ps.readdirSync()
+  ps.readdirSync('tmp')
+  const w = ps.watch({ persistent: false })
+  t.strictSame(w.watched(), [])
+  w.close()
+  t.throws(() => fs.watch?.('/tmp', { persistent: false }, () => {}), {
+    code: 'ENOSYS',
+    syscall: 'watch',
+    path: '/tmp',
+  })
+})
+
+t.test('ignore files', async t => {
+  const ps = new PathScurryPosix('/', {
+    fs: memfs({ a: { '.gitignore': 'b\n', b: '', c: '' } }),
+  })
+  t.strictSame(
+    ps.walkSync('a', { withFileTypes: false, ignoreFiles: true }),
+    ['/a', '/a/c', '/a/.gitignore']
+  )
+})
@@ -0,0 +1,181 @@
+import t from 'tap'
+import { PathScurryPosix } from '../'
+import { Pattern } from '../dist/cjs/pattern.js'
+
+// match a relative path against the patterns, one segment at a time,
+// returning the state of each entry along the way.
+const states = (
+  include: string | string[] | undefined,
+  exclude: string | string[] | undefined,
+  path: string,
+  nocase = false
+) => {
+  const ps = new PathScurryPosix('/x', { nocase })
+  const pattern = new Pattern(include, exclude, nocase)
+  let state = pattern.start()
+  const found = [state]
+  let entry = ps.cwd
+  for (const name of path.split('/').filter(n => n)) {
+    entry = entry.child(name)
+    state = pattern.step(state, entry)
+    found.push(state)
+  }
+  return found
+}
+
+const matches = (
+  include: string | string[] | undefined,
+  path: string,
+  nocase = false
+) => (states(include, undefined, path, nocase).pop() as any).included
+
+t.test('wildcards', t => {
+  const cases: [string, string, boolean][] = [
+    ['*.ts', 'a.ts', true],
+    ['*.ts', '.a.ts', true],
+    ['*.ts', 'a.js', false],
+    ['*.ts', 'a/b.ts', false],
+    ['a?c', 'abc', true],
+    ['a?c', 'abbc', false],
+    ['a.b*', 'a.bc', true],
+    ['a.b*', 'axbc', false],
+    ['a+(b)', 'a+(b)', true],
+    ['*+(b)', 'a+(b)', true],
+    ['*+(b)', 'aab', false],
+    ['[abc].txt', 'b.txt', true],
+    ['[abc].txt', 'd.txt', false],
+    ['[!abc].txt', 'd.txt', true],
+    ['[!abc].txt', 'a.txt', false],
+    ['[^abc].txt', 'a.txt', false],
+    ['[a-c]x', 'bx', true],
+    ['[a-c]x', 'dx', false],
+    ['[]]', ']', true],
+    ['[\\]x', '\\x', true],
+    ['[a', '[a', true],
+    ['[a*', '[abc', true],
+    ['a\\*', 'a*', true],
+    ['a\\*', 'ab', false],
+    ['\\[x]', '[x]', true],
+    ['\\[x]', 'x', false],
+    ['a\\', 'a\\', true],
+  ]
+  for (const [pattern, path, expect] of cases) {
+    t.equal(matches(pattern, path), expect, `${pattern} ${path}`)
+  }
+  t.end()
+})
+
+t.test('globstar', t => {
+  const cases: [string, string, boolean][] = [
+    ['**', '', true],
+    ['**', 'a/b/c', true],
+    ['**/*.ts', 'a.ts', true],
+    ['**/*.ts', 'a/b/c.ts', true],
+    ['**/*.ts', 'a/b/c.js', false],
+    ['src/**', 'src', true],
+    ['src/**', 'src/a/b', true],
+    ['src/**', 'test/a', false],
+    ['a/**/b', 'a/b', true],
+    ['a/**/b', 'a/x/y/b', true],
+    ['a/**/b', 'a/x/y/c', false],
+    ['a/**/**/b', 'a/x/b', true],
+    ['**/a/**/a', 'a/a/a/a', true],
+  ]
+  for (const [pattern, path, expect] of cases) {
+    t.equal(matches(pattern, path), expect, `${pattern} ${path}`)
+  }
+  t.end()
+})
+
+t.test('braces', t => {
+  const cases: [string, string, boolean][] = [
+    ['{a,b}/c', 'a/c', true],
+    ['{a,b}/c', 'b/c', true],
+    ['{a,b}/c', 'd/c', false],
+    ['x{a,b{c,d}}y', 'xbdy', true],
+    ['x{a,b{c,d}}y', 'xby', false],
+    ['{a}', '{a}', true],
+    ['{a}', 'a', false],
+    ['{a,b', '{a,b', true],
+    ['\\{a,b}', '{a,b}', true],
+    ['{,a}b', 'b', true],
+    ['{,a}b', 'ab', true],
+  ]
+  for (const [pattern, path, expect] of cases) {
+    t.equal(matches(pattern, path), expect, `${pattern} ${path}`)
+  }
+  t.end()
+})
+
+t.test('path segments', t => {
+  t.equal(matches('./a//b/', 'a/b'), true)
+  t.equal(matches('/a/b', 'a/b'), true)
+  t.equal(matches('', ''), true)
+  t.equal(matches('', 'a'), false)
+  t.equal(matches(['a', 'b/c'], 'b/c'), true)
+  t.equal(matches([], ''), false)
+  t.end()
+})
+
+t.test('unicode and case', t => {
+  // precomposed vs decomposed é
+  t.equal(matches('caf\u00e9', 'caf\u00e9'), true)
+  t.equal(matches('caf\u00e9', 'cafe\u0301'), true)
+  t.equal(matches('cafe\u0301', 'caf\u00e9'), true)
+  t.equal(matches('caf\u00e9*', 'cafe\u0301s'), true)
+  t.equal(matches('ABC', 'abc'), false)
+  t.equal(matches('ABC', 'abc', true), true)
+  t.equal(matches('A*', 'abc'), false)
+  t.equal(matches('A*', 'abc', true), true)
+  t.equal(matches('[A-C]x', 'bx', true), true)
+  t.end()
+})
+
+t.test('walkable', t => {
+  const walkable = (include: string | string[], path: string) =>
+    states(include, undefined, path).map(s => s.walkable)
+  t.strictSame(walkable('a/b', 'a/b'), [true, true, false])
+  t.strictSame(walkable('a/b', 'x'), [true, false])
+  t.strictSame(walkable('a/**', 'a/b/c'), [true, true, true, true])
+  t.strictSame(walkable('*.ts', 'a.ts/b'), [true, false, false])
+  t.strictSame(walkable([], ''), [false])
+  t.end()
+})
+
+t.test('exclude', t => {
+  const check = (
+    include: string | string[] | undefined,
+    exclude: string | string[],
+    path: string
+  ) => states(include, exclude, path).map(s => [s.included, s.walkable])
+  t.strictSame(check(undefined, 'node_modules', 'node_modules'), [
+    [true, true],
+    [false, false],
+  ])
+  t.strictSame(check(undefined, 'node_modules', 'a/node_modules'), [
+    [true, true],
+    [true, true],
+    [true, true],
+  ])
+  t.strictSame(check(undefined, '**/node_modules', 'a/node_modules/b'), [
+    [true, true],
+    [true, true],
+    [false, false],
+    [false, false],
+  ])
+  t.strictSame(check('**/*.ts', ['*.d.ts', 'x'], 'a.d.ts'), [
+    [false, true],
+    [false, false],
+  ])
+  t.strictSame(check('**/*.ts', ['*.d.ts', 'x'], 'x/a.ts'), [
+    [false, true],
+    [false, false],
+    [false, false],
+  ])
+  t.strictSame(check('**/*.ts', ['*.d.ts', 'x'], 'y/a.d.ts'), [
+    [false, true],
+    [false, true],
+    [true, true],
+  ])
+  t.end()
+})
@@ -0,0 +1,208 @@
+import { lstatSync, writeFileSync } from 'fs'
+import t from 'tap'
+import {
+  FSTrace,
+  memfs,
+  PathScurry,
+  PathScurryPosix,
+  recordfs,
+  replayfs,
+} from '../'
+
+const newTrace = (): FSTrace => ({ version: 1, calls: [] })
+
+// save and load it the way it would be in a file
+const roundTrip = (trace: FSTrace): FSTrace =>
+  JSON.parse(JSON.stringify(trace))
+
+t.test('record and replay a walk', async t => {
+  const td = t.testdir({
+    a: { '.gitignore': 'c\n', b: 'hello', c: '' },
+    d: { e: '' },
+    link: t.fixture('symlink', 'a/b'),
+  })
+  const trace = newTrace()
+  const rec = new PathScurry(td, { fs: recordfs(undefined, trace) })
+  const opts = { withFileTypes: false, ignoreFiles: true } as const
+  const expect = rec.walkSync(opts)
+  rec.readlinkSync('link')
+  await rec.realpath('link')
+  rec.statSync('link')
+  await rec.lstat('a/b')
+  rec.lstatSync('a')
+  rec.lstatSync('nope')
+  // async variants of the same calls
+  const recAsync = new PathScurry(td, { fs: recordfs(undefined, trace) })
+  t.strictSame(await recAsync.walk(opts), expect)
+  await recAsync.readlink('link')
+  recAsync.realpathSync('link')
+  await recAsync.stat('link')
+  await recAsync.readdir('nope')
+  await new Promise(res => recAsync.cwd.resolve('none').readdirCB(res))
+  t.ok(trace.calls.length)
+
+  const saved = roundTrip(trace)
+  for (const walk of ['walkSync', 'walk'] as const) {
+    const ps = new PathScurry(td, { fs: replayfs(saved) })
+    t.strictSame(await ps[walk](opts), expect, walk)
+    t.equal(
+      walk === 'walk'
+        ? await ps.readlink('link')
+        : ps.readlinkSync('link'),
+      ps.resolve('a/b')
+    )
+    t.equal(await ps.realpath('link'), ps.resolve('a/b'))
+    const st =
+      walk === 'walk' ? await ps.stat('link') : ps.statSync('link')
+    t.equal(st?.isFile(), true)
+    t.equal(st?.size, 5)
+    const b = await ps.lstat('a/b')
+    t.equal(b?.isFile(), true)
+    t.equal(b?.size, 5)
+    t.equal(b?.mtimeMs, rec.cwd.resolve('a/b').mtimeMs)
+    t.equal(b?.mtime?.getTime(), rec.cwd.resolve('a/b').mtime?.getTime())
+    t.equal(ps.lstatSync('a')?.isDirectory(), true)
+    // recorded failures fail in the same way
+    t.equal(ps.lstatSync('nope'), undefined)
+    t.equal(ps.cwd.resolve('nope').lastErrorCode(), 'ENOENT')
+    // and anything else fails too
+    t.equal(ps.lstatSync('d/e'), undefined)
+    t.match(ps.cwd.resolve('d/e').lastError(), {
+      code: 'ENOTRECORDED',
+      message: `ENOTRECORDED: lstat '${ps.resolve('d/e')}'`,
+    })
+    const z = ps.cwd.resolve('z')
+    t.strictSame(await new Promise(res => z.readdirCB(res)), null)
+    t.equal(z.lastErrorCode(), 'ENOTRECORDED')
+    t.strictSame(await ps.readdir('y'), [])
+    t.equal(ps.cwd.resolve('y').lastErrorCode(), 'ENOTRECORDED')
+    t.strictSame(ps.watch().watched(), [], 'nothing can be watched')
+    ps.watch().close()
+  }
+})
+
+t.test('calls are replayed in order', async t => {
+  const td = t.testdir({ a: '' })
+  const trace = newTrace()
+  const ps = new PathScurry(td, { fs: recordfs(undefined, trace) })
+  ps.lstatSync('a')
+  writeFileSync(td + '/a', 'hello')
+  ps.invalidate('a')
+  ps.lstatSync('a')
+  const replayed = new PathScurry(td, { fs: replayfs(roundTrip(trace)) })
+  const sizes: (number | undefined)[] = []
+  for (let i = 0; i < 3; i++) {
+    replayed.invalidate('a')
+    sizes.push(replayed.lstatSync('a')?.size)
+  }
+  t.strictSame(sizes, [0, 5, 5])
+})
+
+t.test('all the types', async t => {
+  const types = [
+    'isFile',
+    'isDirectory',
+    'isSymbolicLink',
+    'isBlockDevice',
+    'isCharacterDevice',
+    'isFIFO',
+    'isSocket',
+    'none',
+  ]
+  // a dir with one of each type of entry
+  const dirent = (type: string) => {
+    const d: { [k: string]: any } = { name: type }
+    for (const t of types) d[t] = () => t === type
+    return d
+  }
+  const trace = newTrace()
+  const fs = recordfs(
+    {
+      ...memfs({}),
+      readdirSync: () => types.map(dirent) as any,
+    },
+    trace
+  )
+  const ps = new PathScurryPosix('/', { fs })
+  ps.readdirSync()
+  t.strictSame(trace.calls[0].result, [
+    ['isFile', 'file'],
+    ['isDirectory', 'dir'],
+    ['isSymbolicLink', 'symlink'],
+    ['isBlockDevice', 'block'],
+    ['isCharacterDevice', 'char'],
+    ['isFIFO', 'fifo'],
+    ['isSocket', 'socket'],
+    ['none', 'unknown'],
+  ])
+  const replayed = new PathScurryPosix('/', { fs: replayfs(trace) })
+  const entries = replayed.readdirSync()
+  t.equal(entries.length, types.length)
+  for (const e of entries) {
+    if (e.name === 'none') t.equal(e.isUnknown(), true)
+    else t.equal(e[e.name as 'isFile'](), true, e.name)
+  }
+})
+
+t.test('bigint stats', async t => {
+  const td = t.testdir({ a: '', b: '' })
+  const trace = newTrace()
+  const ps = new PathScurry(td, {
+    fs: recordfs(undefined, trace),
+    bigint: true,
+  })
+  const { mtimeNs } = lstatSync(td + '/a', { bigint: true })
+  t.equal(ps.lstatSync('a')?.mtimeNs, mtimeNs)
+  t.equal(typeof (await ps.lstat('b'))?.ino, 'bigint')
+  // saved as numbers
+  const saved = roundTrip(trace)
+  t.equal(saved.calls.length, 2)
+  const replayed = new PathScurry(td, {
+    fs: replayfs(saved),
+    bigint: true,
+  })
+  t.equal(replayed.lstatSync('b')?.ino, (await ps.lstat('b'))?.ino)
+})
+
+t.test('nothing can be changed', async t => {
+  const ps = new PathScurryPosix('/', { fs: replayfs(newTrace()) })
+  const code = () => ps.cwd.resolve('a').lastErrorCode()
+  t.equal(ps.mkdirSync('a'), undefined)
+  t.equal(code(), 'ENOTRECORDED')
+  t.equal(await ps.mkdir('a'), undefined)
+  t.equal(ps.writeFileSync('a', ''), undefined)
+  t.equal(await ps.writeFile('a', ''), undefined)
+  t.equal(ps.unlinkSync('a'), false)
+  t.equal(await ps.unlink('a'), false)
+  t.equal(ps.rmdirSync('a'), false)
+  t.equal(await ps.rmdir('a'), false)
+  t.equal(ps.renameSync('a', 'b'), undefined)
+  t.equal(await ps.rename('a', 'b'), undefined)
+  t.equal(ps.symlinkSync('b', 'a'), undefined)
+  t.equal(await ps.symlink('b', 'a'), undefined)
+  t.equal(ps.copyFileSync('a', 'b'), undefined)
+  t.equal(await ps.copyFile('a', 'b'), undefined)
+  t.equal(ps.chmodSync('a', 0o644), undefined)
+  t.equal(await ps.chmod('a', 0o644), undefined)
+  t.equal(ps.utimesSync('a', 0, 0), undefined)
+  t.equal(await ps.utimes('a', 0, 0), undefined)
+  t.match(ps.cwd.resolve('a').lastError(), {
+    code: 'ENOTRECORDED',
+    syscall: 'utime',
+    path: '/a',
+  })
+})
+
+t.test('files cannot be opened', async t => {
+  const fs = replayfs(newTrace())
+  const notRecorded = { code: 'ENOTRECORDED', syscall: 'open', path: '/a' }
+  t.throws(() => fs.openSync?.('/a', 'r'), notRecorded)
+  await t.rejects(async () => fs.promises?.open?.('/a', 'r'), notRecorded)
+})
+
+t.test('unsupported version', async t => {
+  t.throws(
+    () => replayfs({ version: 2, calls: [] } as unknown as FSTrace),
+    TypeError
+  )
+})
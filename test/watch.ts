@@ -0,0 +1,249 @@
+import { EventEmitter } from 'events'
+import { mkdirSync, writeFileSync } from 'fs'
+import { rimrafSync } from 'rimraf'
+import t from 'tap'
+import { PathBase, PathScurry, PathWatcher } from '../'
+
+// an fs.watch that lets the test say when things change
+const fakeWatch = () => {
+  const listeners = new Map<
+    string,
+    (eventType: string, filename: string | null) => void
+  >()
+  const watchers = new Map<string, EventEmitter & { close(): void }>()
+  const watch = (
+    path: string,
+    _: { persistent: boolean },
+    listener: (eventType: string, filename: string | null) => void
+  ) => {
+    const w = Object.assign(new EventEmitter(), {
+      close: () => {
+        watchers.delete(path)
+        listeners.delete(path)
+      },
+    })
+    watchers.set(path, w)
+    listeners.set(path, listener)
+    return w as any
+  }
+  const change = (
+    path: string,
+    filename: string | null,
+    eventType = 'rename'
+  ) => {
+    const listener = listeners.get(path)
+    if (!listener) throw new Error('not watching ' + path)
+    listener(eventType, filename)
+  }
+  return { watch, watchers, change }
+}
+
+const next = (w: PathWatcher, ev: 'add' | 'change' | 'unlink') =>
+  new Promise<PathBase>(res => w.once(ev, res))
+
+const names = (entries: PathBase[]) =>
+  entries.map(e => e.relativePosix()).sort((a, b) => a.localeCompare(b))
+
+t.test('watches dirs that have been read', async t => {
+  const td = t.testdir({ a: { b: { c: '' } }, d: { e: '' } })
+  const { watch, watchers } = fakeWatch()
+  const ps = new PathScurry(td, { fs: { watch } })
+  ps.readdirSync('a')
+  // not read, just known
+  ps.cwd.resolve('d/e')
+  const w = ps.watch()
+  t.type(w, PathWatcher)
+  t.equal(ps.watch(), w, 'same watcher while open')
+  t.strictSame(names(w.watched()), ['a'])
+  await ps.readdir()
+  ps.readdirSync('a/b')
+  t.strictSame(names(w.watched()), ['', 'a', 'a/b'])
+  t.strictSame([...watchers.keys()].sort(), [
+    td,
+    ps.resolve('a'),
+    ps.resolve('a/b'),
+  ])
+  // failed readdirs aren't watched
+  ps.readdirSync('a/b/c')
+  ps.readdirSync('nope')
+  t.strictSame(names(w.watched()), ['', 'a', 'a/b'])
+
+  w.close()
+  t.equal(w.closed, true)
+  t.equal(watchers.size, 0)
+  t.strictSame(w.watched(), [])
+  w.close()
+  ps.readdirSync('d')
+  t.strictSame(w.watched(), [])
+  const w2 = ps.watch()
+  t.not(w2, w, 'new watcher once closed')
+  t.strictSame(names(w2.watched()), ['', 'a', 'a/b', 'd'])
+  w2.close()
+})
+
+t.test('add, change, and unlink events', async t => {
+  const td = t.testdir({ a: { b: { c: '' } }, f: 'hello' })
+  const { watch, watchers, change } = fakeWatch()
+  const ps = new PathScurry(td, { fs: { watch } })
+  const w = ps.watch()
+  t.teardown(() => w.close())
+  ps.readdirSync()
+  ps.readdirSync('a')
+  ps.readdirSync('a/b')
+
+  t.test('add', async t => {
+    writeFileSync(td + '/g', '')
+    const added = next(w, 'add')
+    change(td, 'g')
+    const g = await added
+    t.equal(g, ps.cwd.resolve('g'))
+    t.equal(g.isFile(), true)
+    t.equal(ps.cwd.calledReaddir(), true)
+    t.strictSame(names(ps.cwd.readdirCached()), ['a', 'f', 'g'])
+  })
+
+  t.test('change', async t => {
+    const f = ps.cwd.resolve('f')
+    f.lstatSync()
+    t.equal(f.size, 5)
+    writeFileSync(td + '/f', 'hello, world')
+    const changed = next(w, 'change')
+    change(td, 'f', 'change')
+    t.equal(await changed, f)
+    t.equal(f.lstatCached(), undefined)
+    t.equal(f.lstatSync()?.size, 12)
+  })
+
+  t.test('unlink', async t => {
+    rimrafSync(td + '/a')
+    const unlinked = next(w, 'unlink')
+    change(td, 'a')
+    const a = await unlinked
+    t.equal(a, ps.cwd.resolve('a'))
+    t.equal(a.lstatSync(), undefined)
+    t.strictSame(names(w.watched()), [''])
+    t.strictSame([...watchers.keys()], [td])
+    t.strictSame(names(ps.cwd.readdirCached()), ['f', 'g'])
+  })
+
+  t.test('unknown filename', async t => {
+    writeFileSync(td + '/h', '')
+    rimrafSync(td + '/g')
+    const found: [string, string][] = []
+    w.on('add', e => found.push(['add', e.name]))
+    w.on('unlink', e => found.push(['unlink', e.name]))
+    w.on('change', e => found.push(['change', e.name]))
+    const added = next(w, 'add')
+    change(td, null)
+    await added
+    w.removeAllListeners()
+    t.strictSame(found, [
+      ['unlink', 'g'],
+      ['add', 'h'],
+    ])
+  })
+
+  t.test('file becomes a dir', async t => {
+    const f = ps.cwd.resolve('f')
+    t.equal(f.canReaddir(), false)
+    rimrafSync(td + '/f')
+    mkdirSync(td + '/f')
+    writeFileSync(td + '/f/y', '')
+    const changed = next(w, 'change')
+    change(td, 'f')
+    t.equal(await changed, f)
+    t.equal(f.isDirectory(), true)
+    t.strictSame(names(ps.readdirSync('f')), ['f/y'])
+    t.strictSame(names(w.watched()), ['', 'f'])
+  })
+})
+
+t.test('changes while reading are batched', async t => {
+  const td = t.testdir({ a: {} })
+  const { watch, change } = fakeWatch()
+  const ps = new PathScurry(td, { fs: { watch } })
+  const w = ps.watch()
+  t.teardown(() => w.close())
+  ps.readdirSync('a')
+  const dir = ps.resolve('a')
+  const found: string[] = []
+  w.on('add', e => found.push(e.name))
+  writeFileSync(dir + '/x', '')
+  change(dir, 'x')
+  // these come in while x is being handled
+  writeFileSync(dir + '/y', '')
+  writeFileSync(dir + '/z', '')
+  change(dir, 'y')
+  change(dir, 'z')
+  await new Promise<void>(res => {
+    w.on('add', () => {
+      if (found.length === 3) res()
+    })
+  })
+  t.strictSame(found.sort(), ['x', 'y', 'z'])
+})
+
+t.test('watched dir goes away', async t => {
+  const td = t.testdir({ a: { b: {} } })
+  const { watch, watchers, change } = fakeWatch()
+  const ps = new PathScurry(td, { fs: { watch } })
+  const w = ps.watch()
+  t.teardown(() => w.close())
+  ps.readdirSync('a')
+  ps.readdirSync('a/b')
+  t.strictSame(names(w.watched()), ['a', 'a/b'])
+
+  // error from the fs watcher
+  watchers.get(ps.resolve('a/b'))?.emit('error', new Error('EPERM'))
+  t.strictSame(names(w.watched()), ['a'])
+
+  // can't be read any more
+  rimrafSync(td + '/a')
+  const unlinked = next(w, 'unlink')
+  change(ps.resolve('a'), 'b')
+  t.equal(await unlinked, ps.cwd.resolve('a/b'))
+  t.strictSame(w.watched(), [])
+})
+
+t.test('dirs that cannot be watched', async t => {
+  const td = t.testdir({ a: {} })
+  const ps = new PathScurry(td, {
+    fs: {
+      watch: () => {
+        throw Object.assign(new Error('nope'), { code: 'ENOSPC' })
+      },
+    },
+  })
+  const w = ps.watch()
+  ps.readdirSync('a')
+  t.strictSame(w.watched(), [])
+  w.close()
+})
+
+t.test('closed while reading', async t => {
+  const td = t.testdir({ a: {} })
+  const { watch, change } = fakeWatch()
+  const ps = new PathScurry(td, { fs: { watch } })
+  const w = ps.watch()
+  ps.readdirSync('a')
+  const dir = ps.cwd.resolve('a')
+  w.on('add', () => t.fail('should not see events once closed'))
+  writeFileSync(dir.fullpath() + '/x', '')
+  change(dir.fullpath(), 'x')
+  w.close()
+  await dir.readdir()
+  t.strictSame(names(dir.readdirCached()), ['a/x'])
+})
+
+t.test('using the real fs.watch', async t => {
+  const td = t.testdir({ a: {} })
+  const ps = new PathScurry(td)
+  const w = ps.watch()
+  t.teardown(() => w.close())
+  ps.readdirSync('a')
+  const added = next(w, 'add')
+  mkdirSync(td + '/a/b')
+  const b = await added
+  t.equal(b, ps.cwd.resolve('a/b'))
+  t.equal(b.isDirectory(), true)
+})